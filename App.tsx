@@ -15,6 +15,8 @@ import ResponseManager from './components/ResponseManager';
 import InboxesView from './components/InboxesView';
 import InboxConnect from './components/InboxConnect';
 import ContactListsView from './components/ContactListsView';
+import FailedSendsView from './components/FailedSendsView';
+import SuppressionListView from './components/SuppressionListView';
 
 const MainLayout = ({ session }: { session: Session }) => (
   <div className="flex h-screen bg-slate-100 text-slate-800">
@@ -26,9 +28,11 @@ const MainLayout = ({ session }: { session: Session }) => (
         <Route path="/contact-lists" element={<ContactListsView />} />
         <Route path="/sequences" element={<SequenceBuilder session={session} />} />
         <Route path="/infrastructure" element={<InfrastructureView session={session} />} />
-        <Route path="/inboxes" element={<InboxesView />} />
+        <Route path="/inboxes" element={<InboxesView session={session} />} />
         <Route path="/inbox-connect" element={<InboxConnect />} />
         <Route path="/responses" element={<ResponseManager />} />
+        <Route path="/failed-sends" element={<FailedSendsView />} />
+        <Route path="/suppression" element={<SuppressionListView />} />
         <Route path="*" element={<Navigate to="/" />} />
       </Routes>
     </main>
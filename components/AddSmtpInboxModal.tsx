@@ -0,0 +1,239 @@
+import * as React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { supabase } from '../supabase/client';
+import { SmtpSecurity } from '../types';
+import toast from 'react-hot-toast';
+import { z } from 'zod';
+
+const smtpInboxSchema = z.object({
+    email: z.string().email({ message: "Please enter a valid email address." }),
+    host: z.string().min(1, { message: "Please enter the SMTP host." }),
+    port: z.number().int().min(1).max(65535, { message: "Please enter a valid port." }),
+});
+
+const DEFAULT_PORTS: Record<SmtpSecurity, number> = {
+    tls: 465,
+    starttls: 587,
+    none: 25,
+};
+
+interface AddSmtpInboxModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onInboxAdded: () => void;
+}
+
+const AddSmtpInboxModal = ({ isOpen, onClose, onInboxAdded }: AddSmtpInboxModalProps) => {
+    const [provider, setProvider] = React.useState<'smtp' | 'sink'>('smtp');
+    const [email, setEmail] = React.useState('');
+    const [host, setHost] = React.useState('');
+    const [security, setSecurity] = React.useState<SmtpSecurity>('starttls');
+    const [port, setPort] = React.useState(DEFAULT_PORTS.starttls);
+    const [username, setUsername] = React.useState('');
+    const [password, setPassword] = React.useState('');
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const handleSecurityChange = (value: SmtpSecurity) => {
+        setSecurity(value);
+        setPort(DEFAULT_PORTS[value]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supabase) return;
+
+        const validation = provider === 'smtp'
+            ? smtpInboxSchema.safeParse({ email, host, port })
+            : smtpInboxSchema.pick({ email: true }).safeParse({ email });
+
+        if (!validation.success) {
+            toast.error(validation.error.issues[0].message);
+            return;
+        }
+        if (provider === 'smtp' && password && security === 'none') {
+            toast.error('An SMTP password can only be used with SSL/TLS or STARTTLS.');
+            return;
+        }
+
+        setIsSubmitting(true);
+        // Saved by an edge function, which encrypts the SMTP password before storing it
+        const { error } = await supabase.functions.invoke('add-smtp-inbox', {
+            body: {
+                email,
+                provider,
+                ...(provider === 'smtp' && {
+                    host,
+                    port,
+                    security,
+                    username: username || null,
+                    password: password || null,
+                }),
+            },
+        });
+
+        if (error) {
+            const details = await error.context?.json?.().catch(() => null);
+            console.error('Error adding inbox:', details ?? error);
+            toast.error(details?.error || 'Failed to add inbox.');
+        } else {
+            toast.success(`${email} added.`);
+            setEmail('');
+            setHost('');
+            setUsername('');
+            setPassword('');
+            onInboxAdded();
+            onClose();
+        }
+        setIsSubmitting(false);
+    };
+
+    const inputClassName = "mt-1 block w-full bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-slate-900 focus:outline-none focus:ring-teal-500 focus:border-teal-500 sm:text-sm";
+    const labelClassName = "block text-sm font-medium text-slate-700";
+
+    return (
+        <Transition appear show={isOpen} as={React.Fragment}>
+            <Dialog as="div" className="relative z-20" onClose={onClose}>
+                <Transition.Child
+                    as={React.Fragment}
+                    enter="ease-out duration-300"
+                    enterFrom="opacity-0"
+                    enterTo="opacity-100"
+                    leave="ease-in duration-200"
+                    leaveFrom="opacity-100"
+                    leaveTo="opacity-0"
+                >
+                    <div className="fixed inset-0 bg-black/30" />
+                </Transition.Child>
+
+                <div className="fixed inset-0 overflow-y-auto">
+                    <div className="flex min-h-full items-center justify-center p-4 text-center">
+                        <Transition.Child
+                            as={React.Fragment}
+                            enter="ease-out duration-300"
+                            enterFrom="opacity-0 scale-95"
+                            enterTo="opacity-100 scale-100"
+                            leave="ease-in duration-200"
+                            leaveFrom="opacity-100 scale-100"
+                            leaveTo="opacity-0 scale-95"
+                        >
+                            <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-slate-900">
+                                    Add SMTP Inbox
+                                </Dialog.Title>
+                                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                                    <div>
+                                        <label htmlFor="inbox-provider" className={labelClassName}>Delivery</label>
+                                        <select
+                                            id="inbox-provider"
+                                            value={provider}
+                                            onChange={(e) => setProvider(e.target.value as 'smtp' | 'sink')}
+                                            className={inputClassName}
+                                        >
+                                            <option value="smtp">SMTP server</option>
+                                            <option value="sink">Local sink (messages are captured, never delivered)</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="inbox-email" className={labelClassName}>Sender Email</label>
+                                        <input
+                                            id="inbox-email"
+                                            type="email"
+                                            value={email}
+                                            onChange={(e) => setEmail(e.target.value)}
+                                            placeholder="sales@yourdomain.com"
+                                            className={inputClassName}
+                                        />
+                                    </div>
+
+                                    {provider === 'smtp' && (
+                                        <>
+                                            <div className="grid grid-cols-3 gap-3">
+                                                <div className="col-span-2">
+                                                    <label htmlFor="smtp-host" className={labelClassName}>Host</label>
+                                                    <input
+                                                        id="smtp-host"
+                                                        type="text"
+                                                        value={host}
+                                                        onChange={(e) => setHost(e.target.value)}
+                                                        placeholder="smtp.yourprovider.com"
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="smtp-port" className={labelClassName}>Port</label>
+                                                    <input
+                                                        id="smtp-port"
+                                                        type="number"
+                                                        value={port}
+                                                        onChange={(e) => setPort(Number(e.target.value))}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="smtp-security" className={labelClassName}>Encryption</label>
+                                                <select
+                                                    id="smtp-security"
+                                                    value={security}
+                                                    onChange={(e) => handleSecurityChange(e.target.value as SmtpSecurity)}
+                                                    className={inputClassName}
+                                                >
+                                                    <option value="starttls">STARTTLS</option>
+                                                    <option value="tls">SSL/TLS</option>
+                                                    <option value="none">None</option>
+                                                </select>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <label htmlFor="smtp-username" className={labelClassName}>Username</label>
+                                                    <input
+                                                        id="smtp-username"
+                                                        type="text"
+                                                        autoComplete="off"
+                                                        value={username}
+                                                        onChange={(e) => setUsername(e.target.value)}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="smtp-password" className={labelClassName}>Password</label>
+                                                    <input
+                                                        id="smtp-password"
+                                                        type="password"
+                                                        autoComplete="new-password"
+                                                        value={password}
+                                                        onChange={(e) => setPassword(e.target.value)}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
+
+                                    <div className="mt-6 flex justify-end gap-3">
+                                        <button
+                                            type="button"
+                                            className="bg-white hover:bg-slate-50 text-slate-700 font-semibold py-2 px-4 rounded-md border border-slate-300 transition-colors"
+                                            onClick={onClose}
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            disabled={isSubmitting}
+                                            className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-400"
+                                        >
+                                            {isSubmitting ? 'Adding...' : 'Add Inbox'}
+                                        </button>
+                                    </div>
+                                </form>
+                            </Dialog.Panel>
+                        </Transition.Child>
+                    </div>
+                </div>
+            </Dialog>
+        </Transition>
+    );
+};
+
+export default AddSmtpInboxModal;
@@ -0,0 +1,185 @@
+import * as React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { CampaignPreviewRow } from '../types';
+import { previewCampaign } from '../services/geminiService';
+import Spinner from './Spinner';
+
+interface CampaignPreviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    campaignId: number;
+    campaignName: string;
+    onActivate: (campaignId: number) => void;
+}
+
+interface PreviewRecipient {
+    contactId: number;
+    email: string;
+    firstName: string | null;
+    skipReason: string | null;
+    steps: CampaignPreviewRow[];
+    missingFields: string[];
+}
+
+// Groups the preview rows by contact, keeping the order the RPC returned them in
+const groupByRecipient = (rows: CampaignPreviewRow[]): PreviewRecipient[] => {
+    const recipients = new Map<number, PreviewRecipient>();
+    for (const row of rows) {
+        let recipient = recipients.get(row.contact_id);
+        if (!recipient) {
+            recipient = {
+                contactId: row.contact_id,
+                email: row.contact_email,
+                firstName: row.contact_first_name,
+                skipReason: row.skip_reason,
+                steps: [],
+                missingFields: [],
+            };
+            recipients.set(row.contact_id, recipient);
+        }
+        if (row.step_number !== null) {
+            recipient.steps.push(row);
+        }
+        for (const field of row.missing_fields ?? []) {
+            if (!recipient.missingFields.includes(field)) recipient.missingFields.push(field);
+        }
+    }
+    return Array.from(recipients.values());
+};
+
+export const CampaignPreviewModal = ({ isOpen, onClose, campaignId, campaignName, onActivate }: CampaignPreviewModalProps) => {
+    const [recipients, setRecipients] = React.useState<PreviewRecipient[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [onlyIssues, setOnlyIssues] = React.useState(false);
+    const [index, setIndex] = React.useState(0);
+
+    React.useEffect(() => {
+        const loadPreview = async () => {
+            setLoading(true);
+            const result = await previewCampaign(campaignId);
+            if (result.success) {
+                setRecipients(groupByRecipient(result.rows || []));
+                setError(null);
+            } else {
+                setError(result.error || 'Could not preview this campaign.');
+            }
+            setLoading(false);
+        };
+        loadPreview();
+    }, [campaignId]);
+
+    const withIssues = recipients.filter(r => r.missingFields.length > 0);
+    const skipped = recipients.filter(r => r.skipReason);
+    const visible = onlyIssues ? withIssues : recipients;
+    const current = visible[Math.min(index, visible.length - 1)];
+
+    React.useEffect(() => {
+        setIndex(0);
+    }, [onlyIssues]);
+
+    return (
+        <Transition appear show={isOpen} as={React.Fragment}>
+            <Dialog as="div" className="relative z-10" onClose={onClose}>
+                <Transition.Child as={React.Fragment} enter="ease-out duration-300" enterFrom="opacity-0" enterTo="opacity-100" leave="ease-in duration-200" leaveFrom="opacity-100" leaveTo="opacity-0">
+                    <div className="fixed inset-0 bg-black/30" />
+                </Transition.Child>
+                <div className="fixed inset-0 overflow-y-auto">
+                    <div className="flex min-h-full items-center justify-center p-4 text-center">
+                    <Transition.Child as={React.Fragment} enter="ease-out duration-300" enterFrom="opacity-0 scale-95" enterTo="opacity-100 scale-100" leave="ease-in duration-200" leaveFrom="opacity-100 scale-100" leaveTo="opacity-0 scale-95">
+                        <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                            <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">Preview: {campaignName}</Dialog.Title>
+                            <p className="mt-1 text-sm text-slate-500">
+                                Nothing has been queued yet. Send times for follow-ups assume every earlier step goes out on schedule.
+                            </p>
+
+                            {loading ? (
+                                <div className="flex justify-center items-center p-12"><Spinner /></div>
+                            ) : error ? (
+                                <div className="mt-4 p-4 rounded-md bg-red-50 text-sm text-red-600">{error}</div>
+                            ) : (
+                                <div className="mt-4 space-y-4">
+                                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                        <div className="text-slate-600">
+                                            {recipients.length - skipped.length} recipients
+                                            {skipped.length > 0 && <span className="text-slate-400"> · {skipped.length} skipped</span>}
+                                            {withIssues.length > 0 && (
+                                                <span className="text-yellow-700"> · {withIssues.length} with empty merge fields</span>
+                                            )}
+                                        </div>
+                                        <label className="flex items-center gap-2 text-slate-600">
+                                            <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)}
+                                                className="h-4 w-4 rounded border-slate-300 bg-white text-teal-500 focus:ring-teal-600" />
+                                            Only show recipients with issues
+                                        </label>
+                                    </div>
+
+                                    {!current ? (
+                                        <p className="p-8 text-center text-sm text-slate-500">
+                                            {onlyIssues ? 'No recipients with empty merge fields.' : 'This campaign has no contacts.'}
+                                        </p>
+                                    ) : (
+                                        <>
+                                            <div className="flex items-center justify-between">
+                                                <button onClick={() => setIndex(Math.max(0, index - 1))} disabled={index === 0}
+                                                    className="px-3 py-1 text-sm font-medium rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed">
+                                                    Previous
+                                                </button>
+                                                <div className="text-center">
+                                                    <div className="font-medium text-slate-900">{current.firstName || current.email}</div>
+                                                    <div className="text-xs text-slate-500">{current.email} · {Math.min(index, visible.length - 1) + 1} of {visible.length}</div>
+                                                </div>
+                                                <button onClick={() => setIndex(Math.min(visible.length - 1, index + 1))} disabled={index >= visible.length - 1}
+                                                    className="px-3 py-1 text-sm font-medium rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed">
+                                                    Next
+                                                </button>
+                                            </div>
+
+                                            {current.skipReason ? (
+                                                <div className="p-4 rounded-md bg-slate-50 text-sm text-slate-600">
+                                                    Will not be emailed: {current.skipReason}.
+                                                </div>
+                                            ) : (
+                                                <div className="max-h-[28rem] overflow-y-auto space-y-3">
+                                                    {current.steps.map(step => (
+                                                        <div key={step.step_number} className="border border-slate-200/80 rounded-md">
+                                                            <div className="flex flex-wrap justify-between gap-2 px-4 py-2 bg-slate-50 text-xs text-slate-500">
+                                                                <span className="font-semibold uppercase">Step {step.step_number}</span>
+                                                                <span>
+                                                                    {step.send_at ? new Date(step.send_at).toLocaleString() : 'Unscheduled'} from {step.inbox_email}
+                                                                </span>
+                                                            </div>
+                                                            <div className="p-4 space-y-2 text-sm">
+                                                                {step.missing_fields.length > 0 && (
+                                                                    <div className="px-3 py-2 rounded-md bg-yellow-50 text-xs text-yellow-700">
+                                                                        Empty or unknown merge fields: {step.missing_fields.join(', ')}
+                                                                    </div>
+                                                                )}
+                                                                <div className="font-medium text-slate-900">{step.subject}</div>
+                                                                <div className="whitespace-pre-wrap text-slate-600">{step.body}</div>
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            )}
+
+                            <div className="mt-6 flex justify-end gap-3">
+                                <button type="button" onClick={onClose} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-semibold py-2 px-4 rounded-md transition-colors">Close</button>
+                                <button type="button" disabled={loading || !!error}
+                                    onClick={() => { onActivate(campaignId); onClose(); }}
+                                    className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-teal-400 disabled:cursor-not-allowed">
+                                    Activate Campaign
+                                </button>
+                            </div>
+                        </Dialog.Panel>
+                    </Transition.Child>
+                    </div>
+                </div>
+            </Dialog>
+        </Transition>
+    );
+};
@@ -1,11 +1,12 @@
 import * as React from 'react';
 import { supabase } from '../supabase/client';
-import { Campaign, SequenceListItem, ContactList } from '../types';
+import { Campaign, SequenceListItem, ContactList, InboxListItem } from '../types';
 import type { Session } from '@supabase/supabase-js';
 import toast from 'react-hot-toast';
 import { CreateCampaignModal } from './CreateCampaignModal';
+import { CampaignPreviewModal } from './CampaignPreviewModal';
 import Spinner from './Spinner';
-import { startCampaign } from '../services/geminiService';
+import { startCampaign, pauseCampaign, resumeCampaign, stopCampaign } from '../services/geminiService';
 
 const Card = ({ title, value, isLoading }: { title: string; value: string; isLoading?: boolean; }) => (
   <div className="bg-white rounded-lg p-5 border border-slate-200/80">
@@ -27,9 +28,12 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
     const [stats, setStats] = React.useState({ emailsSent: 0, avgOpenRate: 0, avgReplyRate: 0, positiveReplies: 0 });
     const [loading, setLoading] = React.useState(true);
     const [isModalOpen, setIsModalOpen] = React.useState(false);
+    const [expandedCampaignId, setExpandedCampaignId] = React.useState<number | null>(null);
+    const [previewedCampaign, setPreviewedCampaign] = React.useState<Campaign | null>(null);
     
     const [sequences, setSequences] = React.useState<SequenceListItem[]>([]);
     const [contactLists, setContactLists] = React.useState<ContactList[]>([]);
+    const [inboxes, setInboxes] = React.useState<InboxListItem[]>([]);
 
     const fetchData = async () => {
         if (!supabase) return;
@@ -47,6 +51,8 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
             const formattedCampaigns = campaignsData.map(c => ({
                 ...c,
                 open_rate: parseFloat(c.open_rate || 0).toFixed(1),
+                click_rate: parseFloat(c.click_rate || 0).toFixed(1),
+                bounce_rate: parseFloat(c.bounce_rate || 0).toFixed(1),
                 reply_rate: parseFloat(c.reply_rate || 0).toFixed(1),
             }));
             setCampaigns(formattedCampaigns);
@@ -90,6 +96,11 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
             }));
             setContactLists(formattedLists);
         }
+
+        // Fetch inboxes campaigns can rotate between
+        const { data: inboxesData, error: inboxesError } = await supabase.from('inboxes').select('id, email, status');
+        if (inboxesError) console.error('Error fetching inboxes:', inboxesError);
+        else setInboxes(inboxesData || []);
         
         setLoading(false);
     };
@@ -117,6 +128,189 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
         );
     };
 
+    const handleCampaignControl = async (
+        action: typeof pauseCampaign,
+        campaignId: number,
+        loadingMessage: string,
+        successMessage: (affected: number) => string,
+    ) => {
+        const toastId = toast.loading(loadingMessage);
+        const result = await action(campaignId);
+        if (!result.success) {
+            toast.error(result.error || 'Something went wrong.', { id: toastId });
+            return;
+        }
+        toast.success(successMessage(result.affected ?? 0), { id: toastId });
+        fetchData();
+    };
+
+    const handlePauseCampaign = (campaignId: number) =>
+        handleCampaignControl(pauseCampaign, campaignId, 'Pausing campaign...', (n) => `Campaign paused. ${n} queued email${n === 1 ? '' : 's'} on hold.`);
+
+    const handleResumeCampaign = (campaignId: number) =>
+        handleCampaignControl(resumeCampaign, campaignId, 'Resuming campaign...', (n) => `Campaign resumed. ${n} email${n === 1 ? '' : 's'} rescheduled.`);
+
+    const handleStopCampaign = (campaignId: number) => {
+        if (!window.confirm('Stop this campaign? Every email it still has queued will be cancelled, and it cannot be restarted.')) {
+            return;
+        }
+        handleCampaignControl(stopCampaign, campaignId, 'Stopping campaign...', (n) => `Campaign stopped. ${n} queued email${n === 1 ? '' : 's'} cancelled.`);
+    };
+
+    // Campaigns are listed by where they are in their lifecycle
+    const activeCampaigns = campaigns.filter(c => c.status === 'active' || c.status === 'draft');
+    const pausedCampaigns = campaigns.filter(c => c.status === 'paused');
+    const finishedCampaigns = campaigns.filter(c => c.status === 'completed' || c.status === 'stopped');
+
+    const renderCampaignSection = (title: string, sectionCampaigns: Campaign[], emptyMessage: string) => (
+        <div className="bg-white rounded-lg border border-slate-200/80">
+          <div className="p-5">
+              <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
+          </div>
+          <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-slate-500">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                  <tr>
+                  <th scope="col" className="px-6 py-3">Campaign Name</th>
+                  <th scope="col" className="px-6 py-3">Status</th>
+                  <th scope="col" className="px-6 py-3">Contacts</th>
+                  <th scope="col" className="px-6 py-3">Sent</th>
+                  <th scope="col" className="px-6 py-3">Open Rate</th>
+                  <th scope="col" className="px-6 py-3">Click Rate</th>
+                  <th scope="col" className="px-6 py-3">Bounce Rate</th>
+                  <th scope="col" className="px-6 py-3">Reply Rate</th>
+                  </tr>
+              </thead>
+              <tbody>
+                  {loading ? (
+                      <tr>
+                          <td colSpan={8} className="p-8">
+                              <div className="flex justify-center items-center">
+                                  <Spinner />
+                              </div>
+                          </td>
+                      </tr>
+                  ) : sectionCampaigns.length === 0 ? (
+                      <tr><td colSpan={8} className="text-center p-8 text-slate-500">{emptyMessage}</td></tr>
+                  ) : (
+                      sectionCampaigns.map((campaign) => (
+                      <React.Fragment key={campaign.id}>
+                      <tr className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
+                          <th scope="row" className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">
+                              {campaign.name}
+                              {(campaign.step_stats?.length ?? 0) > 0 && (
+                                  <button
+                                      onClick={() => setExpandedCampaignId(expandedCampaignId === campaign.id ? null : campaign.id)}
+                                      className="ml-2 text-xs font-normal text-teal-600 hover:text-teal-500"
+                                  >
+                                      {expandedCampaignId === campaign.id ? 'Hide steps' : 'By step'}
+                                  </button>
+                              )}
+                          </th>
+                          <td className="px-6 py-4">
+                              <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                                  campaign.status === 'active' ? 'bg-green-500/20 text-green-600' :
+                                  campaign.status === 'paused' ? 'bg-yellow-500/20 text-yellow-600' :
+                                  campaign.status === 'completed' ? 'bg-blue-500/20 text-blue-600' :
+                                  campaign.status === 'stopped' ? 'bg-red-500/20 text-red-600' : 'bg-slate-500/20 text-slate-500'
+                              }`}>
+                                  {campaign.status}
+                              </span>
+                              {campaign.status === 'draft' && (
+                                  <button
+                                      onClick={() => setPreviewedCampaign(campaign)}
+                                      className="ml-2 px-3 py-1 text-xs font-medium text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300 transition-colors"
+                                  >
+                                      Preview
+                                  </button>
+                              )}
+                              {campaign.status === 'draft' && (
+                                  <button
+                                      onClick={() => handleActivateCampaign(campaign.id)}
+                                      className="ml-2 px-3 py-1 text-xs font-medium text-white bg-teal-600 rounded-md hover:bg-teal-500 transition-colors"
+                                  >
+                                      Activate
+                                  </button>
+                              )}
+                              {campaign.status === 'active' && (
+                                  <button
+                                      onClick={() => handlePauseCampaign(campaign.id)}
+                                      className="ml-2 px-3 py-1 text-xs font-medium text-yellow-700 bg-yellow-100 rounded-md hover:bg-yellow-200 transition-colors"
+                                  >
+                                      Pause
+                                  </button>
+                              )}
+                              {campaign.status === 'paused' && (
+                                  <button
+                                      onClick={() => handleResumeCampaign(campaign.id)}
+                                      className="ml-2 px-3 py-1 text-xs font-medium text-white bg-teal-600 rounded-md hover:bg-teal-500 transition-colors"
+                                  >
+                                      Resume
+                                  </button>
+                              )}
+                              {(campaign.status === 'active' || campaign.status === 'paused') && (
+                                  <button
+                                      onClick={() => handleStopCampaign(campaign.id)}
+                                      className="ml-2 px-3 py-1 text-xs font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                                  >
+                                      Stop
+                                  </button>
+                              )}
+                              {campaign.completed_at && (
+                                  <div className="mt-1 text-xs text-slate-400">
+                                      {campaign.status === 'stopped' ? 'Stopped' : 'Completed'} {new Date(campaign.completed_at).toLocaleDateString()}
+                                  </div>
+                              )}
+                          </td>
+                          <td className="px-6 py-4">
+                              <div>{campaign.contacts}</div>
+                              {(campaign.status === 'active' || campaign.status === 'paused') && campaign.contacts_finished !== undefined && (
+                                  <div className="text-xs text-slate-400">{campaign.contacts_finished} finished</div>
+                              )}
+                          </td>
+                          <td className="px-6 py-4">{campaign.sent}</td>
+                          <td className="px-6 py-4">
+                              <div>{campaign.open_rate}%</div>
+                              {campaign.total_opens !== undefined && (
+                                  <div className="text-xs text-slate-400">{campaign.unique_opens} unique / {campaign.total_opens} total</div>
+                              )}
+                          </td>
+                          <td className="px-6 py-4">
+                              <div>{campaign.click_rate}%</div>
+                              {campaign.total_clicks !== undefined && (
+                                  <div className="text-xs text-slate-400">{campaign.unique_clicks} unique / {campaign.total_clicks} total</div>
+                              )}
+                          </td>
+                          <td className="px-6 py-4">
+                              <div className={Number(campaign.bounce_rate) >= 5 ? 'text-red-600 font-medium' : ''}>{campaign.bounce_rate ?? 0}%</div>
+                              {campaign.bounced !== undefined && (
+                                  <div className="text-xs text-slate-400">{campaign.bounced} bounced</div>
+                              )}
+                          </td>
+                          <td className="px-6 py-4">{campaign.reply_rate}%</td>
+                      </tr>
+                      {expandedCampaignId === campaign.id && campaign.step_stats?.map((step) => (
+                          <tr key={step.step_number} className="bg-slate-50 border-b border-slate-200/80 text-xs">
+                              <td className="px-6 py-2 pl-10 text-slate-600">Step {step.step_number}</td>
+                              <td className="px-6 py-2"></td>
+                              <td className="px-6 py-2"></td>
+                              <td className="px-6 py-2">{step.sent}</td>
+                              <td className="px-6 py-2">{step.open_rate}%</td>
+                              <td className="px-6 py-2">{step.click_rate}%</td>
+                              <td className="px-6 py-2"></td>
+                              <td className="px-6 py-2"></td>
+                          </tr>
+                      ))}
+                      </React.Fragment>
+                      ))
+                  )}
+              </tbody>
+              </table>
+          </div>
+        </div>
+    
+    );
+
   return (
     <div className="space-y-8">
       <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -139,65 +333,9 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
         <Card title="Positive Replies" value={stats.positiveReplies.toLocaleString()} isLoading={loading} />
       </div>
 
-      <div className="bg-white rounded-lg border border-slate-200/80">
-        <div className="p-5">
-            <h3 className="text-lg font-semibold text-slate-900">Active Campaigns</h3>
-        </div>
-        <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-slate-500">
-            <thead className="text-xs text-slate-500 uppercase bg-slate-50">
-                <tr>
-                <th scope="col" className="px-6 py-3">Campaign Name</th>
-                <th scope="col" className="px-6 py-3">Status</th>
-                <th scope="col" className="px-6 py-3">Contacts</th>
-                <th scope="col" className="px-6 py-3">Sent</th>
-                <th scope="col" className="px-6 py-3">Open Rate</th>
-                <th scope="col" className="px-6 py-3">Reply Rate</th>
-                </tr>
-            </thead>
-            <tbody>
-                {loading ? (
-                    <tr>
-                        <td colSpan={6} className="p-8">
-                            <div className="flex justify-center items-center">
-                                <Spinner />
-                            </div>
-                        </td>
-                    </tr>
-                ) : campaigns.length === 0 ? (
-                    <tr><td colSpan={6} className="text-center p-8 text-slate-500">No campaigns found. Create one to get started!</td></tr>
-                ) : (
-                    campaigns.map((campaign) => (
-                    <tr key={campaign.id} className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
-                        <th scope="row" className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">{campaign.name}</th>
-                        <td className="px-6 py-4">
-                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                                campaign.status === 'active' ? 'bg-green-500/20 text-green-600' :
-                                campaign.status === 'paused' ? 'bg-yellow-500/20 text-yellow-600' :
-                                campaign.status === 'completed' ? 'bg-blue-500/20 text-blue-600' : 'bg-slate-500/20 text-slate-500'
-                            }`}>
-                                {campaign.status}
-                            </span>
-                            {campaign.status === 'draft' && (
-                                <button
-                                    onClick={() => handleActivateCampaign(campaign.id)}
-                                    className="ml-2 px-3 py-1 text-xs font-medium text-white bg-teal-600 rounded-md hover:bg-teal-500 transition-colors"
-                                >
-                                    Activate
-                                </button>
-                            )}
-                        </td>
-                        <td className="px-6 py-4">{campaign.contacts}</td>
-                        <td className="px-6 py-4">{campaign.sent}</td>
-                        <td className="px-6 py-4">{campaign.open_rate}%</td>
-                        <td className="px-6 py-4">{campaign.reply_rate}%</td>
-                    </tr>
-                    ))
-                )}
-            </tbody>
-            </table>
-        </div>
-      </div>
+      {renderCampaignSection('Active Campaigns', activeCampaigns, 'No active campaigns. Create one to get started!')}
+      {(loading || pausedCampaigns.length > 0) && renderCampaignSection('Paused Campaigns', pausedCampaigns, 'No paused campaigns.')}
+      {(loading || finishedCampaigns.length > 0) && renderCampaignSection('Completed Campaigns', finishedCampaigns, 'No completed campaigns yet.')}
       
       {isModalOpen && (
         <CreateCampaignModal 
@@ -206,9 +344,20 @@ const CampaignsDashboard = ({ session }: CampaignsDashboardProps) => {
             session={session}
             sequences={sequences}
             contactLists={contactLists}
+            inboxes={inboxes}
             onCampaignCreated={addCampaignToList}
         />
       )}
+
+      {previewedCampaign && (
+        <CampaignPreviewModal
+            isOpen={!!previewedCampaign}
+            onClose={() => setPreviewedCampaign(null)}
+            campaignId={previewedCampaign.id}
+            campaignName={previewedCampaign.name}
+            onActivate={handleActivateCampaign}
+        />
+      )}
     </div>
   );
 };
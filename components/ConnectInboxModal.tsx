@@ -0,0 +1,86 @@
+import * as React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+
+export type ConnectInboxChoice = 'google' | 'microsoft' | 'smtp';
+
+const PROVIDER_OPTIONS: { value: ConnectInboxChoice; label: string; description: string }[] = [
+    { value: 'google', label: 'Google Workspace / Gmail', description: 'Sign in with Google and send through the Gmail API.' },
+    { value: 'microsoft', label: 'Microsoft 365 / Outlook', description: 'Sign in with Microsoft and send through Microsoft Graph.' },
+    { value: 'smtp', label: 'Other (SMTP)', description: 'Enter the SMTP server details of any other mail provider.' },
+];
+
+interface ConnectInboxModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    connectingProvider: ConnectInboxChoice | null;
+    onSelect: (provider: ConnectInboxChoice) => void;
+}
+
+const ConnectInboxModal = ({ isOpen, onClose, connectingProvider, onSelect }: ConnectInboxModalProps) => (
+    <Transition appear show={isOpen} as={React.Fragment}>
+        <Dialog as="div" className="relative z-20" onClose={onClose}>
+            <Transition.Child
+                as={React.Fragment}
+                enter="ease-out duration-300"
+                enterFrom="opacity-0"
+                enterTo="opacity-100"
+                leave="ease-in duration-200"
+                leaveFrom="opacity-100"
+                leaveTo="opacity-0"
+            >
+                <div className="fixed inset-0 bg-black/30" />
+            </Transition.Child>
+
+            <div className="fixed inset-0 overflow-y-auto">
+                <div className="flex min-h-full items-center justify-center p-4 text-center">
+                    <Transition.Child
+                        as={React.Fragment}
+                        enter="ease-out duration-300"
+                        enterFrom="opacity-0 scale-95"
+                        enterTo="opacity-100 scale-100"
+                        leave="ease-in duration-200"
+                        leaveFrom="opacity-100 scale-100"
+                        leaveTo="opacity-0 scale-95"
+                    >
+                        <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                            <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-slate-900">
+                                Connect a New Inbox
+                            </Dialog.Title>
+                            <p className="mt-2 text-sm text-slate-500">Choose where the inbox is hosted.</p>
+
+                            <div className="mt-4 space-y-3">
+                                {PROVIDER_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => onSelect(option.value)}
+                                        disabled={connectingProvider !== null}
+                                        className="w-full text-left p-4 rounded-lg border border-slate-200 hover:border-teal-500 hover:bg-teal-50 transition-colors disabled:opacity-60"
+                                    >
+                                        <div className="font-medium text-slate-900">
+                                            {option.label}
+                                            {connectingProvider === option.value && <span className="ml-2 text-xs text-slate-500">Redirecting...</span>}
+                                        </div>
+                                        <div className="text-sm text-slate-500">{option.description}</div>
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className="mt-6 flex justify-end">
+                                <button
+                                    type="button"
+                                    className="bg-white hover:bg-slate-50 text-slate-700 font-semibold py-2 px-4 rounded-md border border-slate-300 transition-colors"
+                                    onClick={onClose}
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </Dialog.Panel>
+                    </Transition.Child>
+                </div>
+            </div>
+        </Dialog>
+    </Transition>
+);
+
+export default ConnectInboxModal;
@@ -13,6 +13,16 @@ const UploadIcon = ({ className }: {className?: string}) => (
     </svg>
 );
 
+// IANA names such as 'America/New_York'; the browser rejects the ones it doesn't know
+const isValidTimezone = (timezone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
 interface ContactsViewProps {
     session: Session;
 }
@@ -84,7 +94,10 @@ const ContactsView = ({ session }: ContactsViewProps) => {
             industry: c.industry,
             city: c.city,
             painPointSignal: c.pain_point_signal,
-            email: c.email
+            email: c.email,
+            timezone: c.timezone,
+            bouncedAt: c.bounced_at ?? undefined,
+            unsubscribedAt: c.unsubscribed_at ?? undefined
         }));
         setContacts(formattedData);
     }
@@ -143,6 +156,10 @@ const ContactsView = ({ session }: ContactsViewProps) => {
                 'email': 'email'
             };
             
+            const optionalHeaderMap: { [key: string]: string } = {
+                'timezone': 'timezone'
+            };
+
             const expectedHeaders = Object.keys(headerMap);
             const isHeaderValid = expectedHeaders.every(h => header.includes(h));
             if (!isHeaderValid) {
@@ -155,11 +172,18 @@ const ContactsView = ({ session }: ContactsViewProps) => {
                     user_id: session.user.id // FIX: Add user_id to satisfy RLS
                 };
                 header.forEach((colName, index) => {
-                    const dbColumn = headerMap[colName];
+                    const dbColumn = headerMap[colName] || optionalHeaderMap[colName];
                     if (dbColumn) {
                         contactObject[dbColumn] = values[index]?.trim() || '';
                     }
                 });
+                // An empty timezone means "unknown", so the inbox's or schedule's is used
+                if ('timezone' in contactObject) {
+                    contactObject.timezone = contactObject.timezone || null;
+                    if (contactObject.timezone && !isValidTimezone(contactObject.timezone)) {
+                        throw new Error(`Unknown timezone "${contactObject.timezone}" for ${contactObject.email || 'a contact'}.`);
+                    }
+                }
                 return contactObject;
             }).filter(c => c.email);
 
@@ -242,7 +266,7 @@ const ContactsView = ({ session }: ContactsViewProps) => {
                 </button>
             </div>
              <p className="text-xs text-slate-500 mt-2">
-                Headers: firstName, companyName, industry, city, painPointSignal, email
+                Headers: firstName, companyName, industry, city, painPointSignal, email (optional: timezone)
              </p>
         </div>
       </header>
@@ -275,7 +299,15 @@ const ContactsView = ({ session }: ContactsViewProps) => {
                             <th scope="row" className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">{contact.firstName}</th>
                             <td className="px-6 py-4">{contact.companyName}</td>
                             <td className="px-6 py-4">{contact.industry}</td>
-                            <td className="px-6 py-4">{contact.email}</td>
+                            <td className="px-6 py-4">
+                                {contact.email}
+                                {contact.bouncedAt && (
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-500/20 text-red-600" title={`Hard bounce on ${new Date(contact.bouncedAt).toLocaleDateString()}`}>Bounced</span>
+                                )}
+                                {!contact.bouncedAt && contact.unsubscribedAt && (
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-slate-500/20 text-slate-500">Unsubscribed</span>
+                                )}
+                            </td>
                             <td className="px-6 py-4" dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(contact.painPointSignal) }}></td>
                             <td className="px-6 py-4">
                                 <button onClick={() => openAddToListModal(contact)} className="text-teal-600 hover:text-teal-800 font-semibold">Add to List</button>
@@ -1,6 +1,6 @@
 import * as React from 'react';
 import { supabase } from '../supabase/client';
-import { Campaign, SequenceListItem, ContactList } from '../types';
+import { Campaign, SequenceListItem, ContactList, InboxListItem, InboxRotationStrategy, CampaignSchedule } from '../types';
 import type { Session } from '@supabase/supabase-js';
 import toast from 'react-hot-toast';
 import { z } from 'zod';
@@ -11,14 +11,39 @@ const campaignSchema = z.object({
   name: z.string().min(3, { message: "Campaign name must be at least 3 characters long." }),
   contactList: z.string().min(1, { message: "Please select a contact list." }),
   sequenceId: z.string().min(1, { message: "Please select a sequence." }),
+  inboxIds: z.array(z.number()).min(1, { message: "Please select at least one sending inbox." }),
+  schedule: z.object({
+    sendDays: z.array(z.number()).min(1, { message: "Please select at least one sending day." }),
+    sendWindowStart: z.string(),
+    sendWindowEnd: z.string(),
+  }).refine(s => s.sendWindowStart < s.sendWindowEnd, { message: "The sending window must end after it starts." }),
 });
 
+const WEEKDAYS = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 7, label: 'Sun' },
+];
+
+const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// The browser's own zone isn't always in the supported list (e.g. 'UTC' in Chrome)
+const SUPPORTED_TIMEZONES = Intl.supportedValuesOf('timeZone');
+const TIMEZONES = SUPPORTED_TIMEZONES.includes(DEFAULT_TIMEZONE)
+    ? SUPPORTED_TIMEZONES
+    : [DEFAULT_TIMEZONE, ...SUPPORTED_TIMEZONES];
+
 interface CreateCampaignModalProps {
     isOpen: boolean;
     onClose: () => void;
     session: Session;
     sequences: SequenceListItem[];
     contactLists: ContactList[];
+    inboxes: InboxListItem[];
     onCampaignCreated: (campaign: Campaign) => void;
 }
 
@@ -28,13 +53,39 @@ export const CreateCampaignModal = ({
     session,
     sequences,
     contactLists,
+    inboxes,
     onCampaignCreated
 }: CreateCampaignModalProps) => {
     const [newCampaignName, setNewCampaignName] = React.useState('');
     const [selectedContactList, setSelectedContactList] = React.useState(contactLists[0]?.name || '');
     const [selectedSequence, setSelectedSequence] = React.useState(sequences[0]?.id.toString() || '');
+    const [selectedInboxIds, setSelectedInboxIds] = React.useState<number[]>(
+        inboxes.filter(i => i.status !== 'error').map(i => i.id)
+    );
+    const [rotationStrategy, setRotationStrategy] = React.useState<InboxRotationStrategy>('round_robin');
+    const [schedule, setSchedule] = React.useState<CampaignSchedule>({
+        timezone: DEFAULT_TIMEZONE,
+        useRecipientTimezone: true,
+        sendDays: [1, 2, 3, 4, 5],
+        sendWindowStart: '09:00',
+        sendWindowEnd: '17:00',
+    });
+    const [trackClicks, setTrackClicks] = React.useState(false);
     const [isSubmitting, setIsSubmitting] = React.useState(false);
 
+    const toggleInbox = (inboxId: number) => {
+        setSelectedInboxIds(prev =>
+            prev.includes(inboxId) ? prev.filter(id => id !== inboxId) : [...prev, inboxId]
+        );
+    };
+
+    const toggleSendDay = (day: number) => {
+        setSchedule(prev => ({
+            ...prev,
+            sendDays: prev.sendDays.includes(day) ? prev.sendDays.filter(d => d !== day) : [...prev.sendDays, day].sort(),
+        }));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!supabase) return;
@@ -42,7 +93,9 @@ export const CreateCampaignModal = ({
         const validation = campaignSchema.safeParse({
             name: newCampaignName,
             contactList: selectedContactList,
-            sequenceId: selectedSequence
+            sequenceId: selectedSequence,
+            inboxIds: selectedInboxIds,
+            schedule,
         });
 
         if (!validation.success) {
@@ -60,6 +113,8 @@ export const CreateCampaignModal = ({
             sent: 0,
             open_rate: 0,
             reply_rate: 0,
+            inbox_rotation: rotationStrategy,
+            track_clicks: trackClicks,
         };
         
         const { data: newCampaign, error } = await supabase
@@ -72,10 +127,41 @@ export const CreateCampaignModal = ({
             console.error('Error creating campaign:', error);
             toast.error('Failed to create campaign.');
         } else if (newCampaign) {
-            toast.success('Campaign created successfully!');
-            onCampaignCreated(newCampaign);
-            onClose();
-            setNewCampaignName('');
+            const [{ error: inboxesError }, { error: scheduleError }] = await Promise.all([
+                supabase
+                    .from('campaign_inboxes')
+                    .insert(selectedInboxIds.map(inboxId => ({
+                        campaign_id: newCampaign.id,
+                        inbox_id: inboxId,
+                        user_id: session.user.id,
+                    }))),
+                supabase
+                    .from('campaign_schedules')
+                    .insert({
+                        campaign_id: newCampaign.id,
+                        user_id: session.user.id,
+                        timezone: schedule.timezone,
+                        use_recipient_timezone: schedule.useRecipientTimezone,
+                        send_days: schedule.sendDays,
+                        send_window_start: schedule.sendWindowStart,
+                        send_window_end: schedule.sendWindowEnd,
+                    }),
+            ]);
+
+            if (inboxesError || scheduleError) {
+                console.error('Error saving campaign settings:', inboxesError || scheduleError);
+                // Don't leave a campaign behind without its sending inboxes or schedule
+                const { error: deleteError } = await supabase.from('campaigns').delete().eq('id', newCampaign.id);
+                if (deleteError) {
+                    console.error('Error removing incomplete campaign:', deleteError);
+                }
+                toast.error('Failed to create campaign.');
+            } else {
+                toast.success('Campaign created successfully!');
+                onCampaignCreated(newCampaign);
+                onClose();
+                setNewCampaignName('');
+            }
         }
         setIsSubmitting(false);
     };
@@ -112,6 +198,63 @@ export const CreateCampaignModal = ({
                                         {sequences.map(seq => <option key={seq.id} value={seq.id}>{seq.name}</option>)}
                                     </select>
                                 </div>
+                                <div>
+                                    <span className="block text-sm font-medium text-slate-600 mb-1">Sending Inboxes</span>
+                                    <div className="max-h-32 overflow-y-auto space-y-1 bg-slate-50 border border-slate-300 rounded-md p-2">
+                                        {inboxes.length === 0 && <p className="text-sm text-slate-500">No inboxes connected yet.</p>}
+                                        {inboxes.map(inbox => (
+                                            <label key={inbox.id} className="flex items-center gap-2 text-sm text-slate-700">
+                                                <input type="checkbox" checked={selectedInboxIds.includes(inbox.id)} onChange={() => toggleInbox(inbox.id)}
+                                                    disabled={inbox.status === 'error'}
+                                                    className="h-4 w-4 rounded border-slate-300 bg-white text-teal-500 focus:ring-teal-600" />
+                                                <span className={inbox.status === 'error' ? 'text-slate-400 line-through' : ''}>{inbox.email}</span>
+                                                {inbox.status !== 'active' && <span className="text-xs text-slate-400 capitalize">({inbox.status})</span>}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label htmlFor="rotationStrategy" className="block text-sm font-medium text-slate-600 mb-1">Inbox Rotation</label>
+                                    <select id="rotationStrategy" value={rotationStrategy} onChange={(e) => setRotationStrategy(e.target.value as InboxRotationStrategy)}
+                                        className="w-full bg-slate-50 border-slate-300 rounded-md shadow-sm p-2 text-slate-900 focus:ring-teal-500 focus:border-teal-500">
+                                        <option value="round_robin">Round-robin</option>
+                                        <option value="weighted">Weighted by remaining daily capacity</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <span className="block text-sm font-medium text-slate-600 mb-1">Sending Window</span>
+                                    <div className="flex flex-wrap gap-1 mb-2">
+                                        {WEEKDAYS.map(day => (
+                                            <button key={day.value} type="button" onClick={() => toggleSendDay(day.value)}
+                                                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                                                    schedule.sendDays.includes(day.value) ? 'bg-teal-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+                                                }`}>
+                                                {day.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <input type="time" value={schedule.sendWindowStart} onChange={(e) => setSchedule({ ...schedule, sendWindowStart: e.target.value })}
+                                            className="bg-slate-50 border-slate-300 rounded-md shadow-sm p-2 text-slate-900 text-sm focus:ring-teal-500 focus:border-teal-500" />
+                                        <span className="text-sm text-slate-500">to</span>
+                                        <input type="time" value={schedule.sendWindowEnd} onChange={(e) => setSchedule({ ...schedule, sendWindowEnd: e.target.value })}
+                                            className="bg-slate-50 border-slate-300 rounded-md shadow-sm p-2 text-slate-900 text-sm focus:ring-teal-500 focus:border-teal-500" />
+                                    </div>
+                                    <select value={schedule.timezone} onChange={(e) => setSchedule({ ...schedule, timezone: e.target.value })}
+                                        className="mt-2 w-full bg-slate-50 border-slate-300 rounded-md shadow-sm p-2 text-slate-900 text-sm focus:ring-teal-500 focus:border-teal-500">
+                                        {TIMEZONES.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                                    </select>
+                                    <label className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+                                        <input type="checkbox" checked={schedule.useRecipientTimezone} onChange={(e) => setSchedule({ ...schedule, useRecipientTimezone: e.target.checked })}
+                                            className="h-4 w-4 rounded border-slate-300 bg-white text-teal-500 focus:ring-teal-600" />
+                                        Send in each recipient's local time (contact timezone, then inbox timezone)
+                                    </label>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-slate-700">
+                                    <input type="checkbox" checked={trackClicks} onChange={(e) => setTrackClicks(e.target.checked)}
+                                        className="h-4 w-4 rounded border-slate-300 bg-white text-teal-500 focus:ring-teal-600" />
+                                    Track link clicks (links are rewritten through a redirect)
+                                </label>
                                 <div className="mt-6 flex justify-end gap-3">
                                     <button type="button" onClick={onClose} className="bg-slate-200 hover:bg-slate-300 text-slate-800 font-semibold py-2 px-4 rounded-md transition-colors">Cancel</button>
                                     <button type="submit" disabled={isSubmitting} className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-teal-400 disabled:cursor-wait">
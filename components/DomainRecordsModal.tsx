@@ -1,6 +1,6 @@
 import * as React from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { Domain } from '../types';
+import { Domain, DomainDnsCheck } from '../types';
 import toast from 'react-hot-toast';
 
 const CopyIcon = ({ className }: { className?: string }) => (
@@ -23,7 +23,7 @@ interface DomainRecordsModalProps {
   domain: Domain | null;
 }
 
-const RecordRow = ({ type, host, value }: { type: string, host: string, value: string }) => {
+const RecordRow = ({ type, host, value, check }: { type: string, host: string, value: string, check?: DomainDnsCheck }) => {
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text);
         toast.success("Copied to clipboard!");
@@ -39,6 +39,14 @@ const RecordRow = ({ type, host, value }: { type: string, host: string, value: s
                     <CopyIcon className="w-4 h-4" />
                 </button>
             </div>
+            {check && (
+                <div className={`md:col-span-3 text-xs p-2 rounded-md ${check.passed ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    <p className="font-semibold">{check.passed ? 'Verified' : check.error}</p>
+                    {check.observedValue && (
+                        <p className="mt-1 font-mono break-all whitespace-pre-wrap">Found at {check.host}: {check.observedValue}</p>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -65,6 +73,10 @@ const DomainRecordsModal = ({ isOpen, onClose, domain }: DomainRecordsModalProps
     },
   };
 
+  // Results of the last "Verify", shown under each record
+  const checkFor = (recordType: DomainDnsCheck['recordType']) =>
+    domain.dnsChecks?.find(check => check.recordType === recordType);
+
   return (
     <Transition appear show={isOpen} as={React.Fragment}>
       <Dialog as="div" className="relative z-20" onClose={onClose}>
@@ -108,9 +120,9 @@ const DomainRecordsModal = ({ isOpen, onClose, domain }: DomainRecordsModalProps
                         <span>Value</span>
                     </div>
                     <div className="space-y-2">
-                        <RecordRow type={records.spf.type} host={records.spf.host} value={records.spf.value} />
-                        <RecordRow type={records.dkim.type} host={records.dkim.host} value={records.dkim.value} />
-                        <RecordRow type={records.dmarc.type} host={records.dmarc.host} value={records.dmarc.value} />
+                        <RecordRow type={records.spf.type} host={records.spf.host} value={records.spf.value} check={checkFor('spf')} />
+                        <RecordRow type={records.dkim.type} host={records.dkim.host} value={records.dkim.value} check={checkFor('dkim')} />
+                        <RecordRow type={records.dmarc.type} host={records.dmarc.host} value={records.dmarc.value} check={checkFor('dmarc')} />
                     </div>
                 </div>
 
@@ -0,0 +1,168 @@
+import * as React from 'react';
+import { supabase } from '../supabase/client';
+import { FailedSend } from '../types';
+import toast from 'react-hot-toast';
+import Spinner from './Spinner';
+
+const statusStyles: Record<FailedSend['status'], string> = {
+    dead_letter: 'bg-amber-500/20 text-amber-600',
+    failed: 'bg-red-500/20 text-red-600',
+};
+
+const statusLabels: Record<FailedSend['status'], string> = {
+    dead_letter: 'Retries exhausted',
+    failed: 'Permanent failure',
+};
+
+const FailedSendsView = () => {
+    const [failedSends, setFailedSends] = React.useState<FailedSend[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [expandedId, setExpandedId] = React.useState<number | null>(null);
+    const [requeueingId, setRequeueingId] = React.useState<number | null>(null);
+
+    const fetchFailedSends = async () => {
+        if (!supabase) return;
+        setLoading(true);
+        const { data, error } = await supabase
+            .from('email_queue')
+            .select('id, status, subject, attempt_count, max_attempts, error_message, updated_at, contacts(email), campaigns(name), email_send_attempts(attempt_number, outcome, status_code, error_message, attempted_at)')
+            .in('status', ['dead_letter', 'failed'])
+            .order('updated_at', { ascending: false });
+
+        if (error) {
+            console.error("Error fetching failed sends:", error.message);
+            toast.error("Could not fetch failed sends.");
+        } else {
+            setFailedSends((data || []).map((row: any) => ({
+                id: row.id,
+                status: row.status,
+                subject: row.subject,
+                contactEmail: row.contacts?.email ?? '',
+                campaignName: row.campaigns?.name ?? '',
+                attemptCount: row.attempt_count,
+                maxAttempts: row.max_attempts,
+                errorMessage: row.error_message ?? undefined,
+                updatedAt: row.updated_at,
+                attempts: (row.email_send_attempts || [])
+                    .map((a: any) => ({
+                        attemptNumber: a.attempt_number,
+                        outcome: a.outcome,
+                        statusCode: a.status_code ?? undefined,
+                        errorMessage: a.error_message ?? undefined,
+                        attemptedAt: a.attempted_at,
+                    }))
+                    .sort((a: { attemptedAt: string }, b: { attemptedAt: string }) => a.attemptedAt.localeCompare(b.attemptedAt)),
+            })));
+        }
+        setLoading(false);
+    };
+
+    React.useEffect(() => {
+        fetchFailedSends();
+    }, []);
+
+    const handleRequeue = async (failedSend: FailedSend) => {
+        if (!supabase) return;
+        setRequeueingId(failedSend.id);
+        const { error } = await supabase.rpc('requeue_email', { target_queue_id: failedSend.id });
+
+        if (error) {
+            console.error("Error requeueing email:", error.message);
+            toast.error(`Could not requeue the email to ${failedSend.contactEmail}.`);
+        } else {
+            setFailedSends(prev => prev.filter(f => f.id !== failedSend.id));
+            toast.success(`Email to ${failedSend.contactEmail} is back in the queue.`);
+        }
+        setRequeueingId(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            <header>
+                <h2 className="text-3xl font-bold text-slate-900">Failed Sends</h2>
+                <p className="text-slate-500 mt-1">Emails that failed permanently or ran out of retries. Fix the cause, then requeue them.</p>
+            </header>
+
+            <div className="bg-white rounded-lg border border-slate-200/80">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Recipient</th>
+                                <th scope="col" className="px-6 py-3">Campaign</th>
+                                <th scope="col" className="px-6 py-3">Status</th>
+                                <th scope="col" className="px-6 py-3">Attempts</th>
+                                <th scope="col" className="px-6 py-3">Last Error</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={6} className="p-8 text-center"><Spinner /></td>
+                                </tr>
+                            ) : failedSends.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="p-8 text-center text-slate-500">No failed sends. Everything is going out as planned.</td>
+                                </tr>
+                            ) : (
+                                failedSends.map((failedSend) => (
+                                    <React.Fragment key={failedSend.id}>
+                                        <tr className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
+                                            <th scope="row" className="px-6 py-4 font-medium text-slate-900">
+                                                <div>{failedSend.contactEmail}</div>
+                                                <div className="text-xs font-normal text-slate-500">{failedSend.subject}</div>
+                                            </th>
+                                            <td className="px-6 py-4">{failedSend.campaignName}</td>
+                                            <td className="px-6 py-4">
+                                                <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[failedSend.status]}`}>
+                                                    {statusLabels[failedSend.status]}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <button
+                                                    onClick={() => setExpandedId(expandedId === failedSend.id ? null : failedSend.id)}
+                                                    className="text-teal-600 hover:text-teal-500"
+                                                >
+                                                    {failedSend.attemptCount} / {failedSend.maxAttempts}
+                                                </button>
+                                            </td>
+                                            <td className="px-6 py-4 max-w-xs truncate" title={failedSend.errorMessage}>{failedSend.errorMessage}</td>
+                                            <td className="px-6 py-4 text-right">
+                                                <button
+                                                    onClick={() => handleRequeue(failedSend)}
+                                                    disabled={requeueingId === failedSend.id}
+                                                    className="font-medium text-teal-600 hover:text-teal-500 disabled:text-slate-400"
+                                                >
+                                                    {requeueingId === failedSend.id ? 'Requeueing...' : 'Requeue'}
+                                                </button>
+                                            </td>
+                                        </tr>
+                                        {expandedId === failedSend.id && (
+                                            <tr className="bg-slate-50 border-b border-slate-200/80">
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <ol className="space-y-1 text-xs">
+                                                        {failedSend.attempts.map((attempt) => (
+                                                            <li key={attempt.attemptNumber + attempt.attemptedAt} className="flex gap-4">
+                                                                <span className="w-40 text-slate-500">{new Date(attempt.attemptedAt).toLocaleString()}</span>
+                                                                <span className="w-24 font-medium text-slate-700">#{attempt.attemptNumber} {attempt.outcome.replace('_', ' ')}</span>
+                                                                <span className="w-12">{attempt.statusCode ?? ''}</span>
+                                                                <span className="flex-1 text-slate-600">{attempt.errorMessage}</span>
+                                                            </li>
+                                                        ))}
+                                                    </ol>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FailedSendsView;
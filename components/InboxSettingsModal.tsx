@@ -0,0 +1,240 @@
+import * as React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { supabase } from '../supabase/client';
+import { Inbox } from '../types';
+import toast from 'react-hot-toast';
+import { z } from 'zod';
+
+const inboxSettingsSchema = z.object({
+    dailyLimit: z.number().int().min(1, { message: "Daily limit must be at least 1." }),
+    warmup: z.object({
+        startVolume: z.number().int().min(1, { message: "Starting volume must be at least 1." }),
+        dailyIncrement: z.number().int().min(0, { message: "Daily increment cannot be negative." }),
+        targetVolume: z.number().int().min(1, { message: "Target volume must be at least 1." }),
+        startedOn: z.string().min(1, { message: "Please choose a start date." }),
+    }).refine(w => w.startVolume <= w.targetVolume, { message: "Starting volume cannot exceed the target." }),
+});
+
+interface InboxSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    inbox: Inbox | null;
+    onSaved: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const InboxSettingsModal = ({ isOpen, onClose, inbox, onSaved }: InboxSettingsModalProps) => {
+    const [dailyLimit, setDailyLimit] = React.useState(40);
+    const [isWarming, setIsWarming] = React.useState(false);
+    const [startVolume, setStartVolume] = React.useState(5);
+    const [dailyIncrement, setDailyIncrement] = React.useState(2);
+    const [targetVolume, setTargetVolume] = React.useState(40);
+    const [startedOn, setStartedOn] = React.useState(today());
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!inbox) return;
+        setDailyLimit(inbox.dailyLimit);
+        setIsWarming(inbox.status === 'warming');
+        setStartVolume(inbox.warmup?.startVolume ?? 5);
+        setDailyIncrement(inbox.warmup?.dailyIncrement ?? 2);
+        setTargetVolume(inbox.warmup?.targetVolume ?? inbox.dailyLimit);
+        setStartedOn(inbox.warmup && !inbox.warmup.completedAt ? inbox.warmup.startedOn : today());
+    }, [inbox]);
+
+    if (!inbox) return null;
+
+    // The ramp day on which the inbox reaches its target and is promoted to active
+    const daysToTarget = startVolume >= targetVolume
+        ? 1
+        : dailyIncrement > 0 ? Math.ceil((targetVolume - startVolume) / dailyIncrement) + 1 : null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supabase) return;
+
+        const validation = inboxSettingsSchema.safeParse({
+            dailyLimit,
+            warmup: { startVolume, dailyIncrement, targetVolume, startedOn },
+        });
+
+        if (!validation.success) {
+            toast.error(validation.error.issues[0].message);
+            return;
+        }
+
+        setIsSubmitting(true);
+
+        const { error: inboxError } = await supabase
+            .from('inboxes')
+            .update({
+                daily_send_limit: dailyLimit,
+                // Inboxes in error stay there until they are reconnected
+                ...(inbox.status !== 'error' && { status: isWarming ? 'warming' : 'active' }),
+            })
+            .eq('id', inbox.id);
+
+        const { error: warmupError } = isWarming
+            ? await supabase
+                .from('inbox_warmup_schedules')
+                .upsert({
+                    inbox_id: inbox.id,
+                    start_volume: startVolume,
+                    daily_increment: dailyIncrement,
+                    target_volume: targetVolume,
+                    started_on: startedOn,
+                    completed_at: null,
+                }, { onConflict: 'inbox_id' })
+            : { error: null };
+
+        if (inboxError || warmupError) {
+            console.error('Error saving inbox settings:', inboxError || warmupError);
+            toast.error('Failed to save inbox settings.');
+        } else {
+            toast.success('Inbox settings saved.');
+            onSaved();
+            onClose();
+        }
+        setIsSubmitting(false);
+    };
+
+    const inputClassName = "mt-1 block w-full bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-slate-900 focus:outline-none focus:ring-teal-500 focus:border-teal-500 sm:text-sm";
+
+    return (
+        <Transition appear show={isOpen} as={React.Fragment}>
+            <Dialog as="div" className="relative z-20" onClose={onClose}>
+                <Transition.Child
+                    as={React.Fragment}
+                    enter="ease-out duration-300"
+                    enterFrom="opacity-0"
+                    enterTo="opacity-100"
+                    leave="ease-in duration-200"
+                    leaveFrom="opacity-100"
+                    leaveTo="opacity-0"
+                >
+                    <div className="fixed inset-0 bg-black/30" />
+                </Transition.Child>
+
+                <div className="fixed inset-0 overflow-y-auto">
+                    <div className="flex min-h-full items-center justify-center p-4 text-center">
+                        <Transition.Child
+                            as={React.Fragment}
+                            enter="ease-out duration-300"
+                            enterFrom="opacity-0 scale-95"
+                            enterTo="opacity-100 scale-100"
+                            leave="ease-in duration-200"
+                            leaveFrom="opacity-100 scale-100"
+                            leaveTo="opacity-0 scale-95"
+                        >
+                            <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-slate-900">
+                                    Sending Settings for {inbox.email}
+                                </Dialog.Title>
+                                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                                    <div>
+                                        <label htmlFor="daily-limit" className="block text-sm font-medium text-slate-700">Daily Limit</label>
+                                        <input
+                                            id="daily-limit"
+                                            type="number"
+                                            min={1}
+                                            value={dailyLimit}
+                                            onChange={(e) => setDailyLimit(Number(e.target.value))}
+                                            className={inputClassName}
+                                        />
+                                        <p className="mt-1 text-xs text-slate-500">The most emails this inbox will send in a day.</p>
+                                    </div>
+
+                                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={isWarming}
+                                            disabled={inbox.status === 'error'}
+                                            onChange={(e) => setIsWarming(e.target.checked)}
+                                            className="h-4 w-4 rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+                                        />
+                                        Warm up this inbox
+                                    </label>
+
+                                    {isWarming && (
+                                        <div className="space-y-4 rounded-lg border border-slate-200 p-4">
+                                            <div className="grid grid-cols-3 gap-3">
+                                                <div>
+                                                    <label htmlFor="start-volume" className="block text-sm font-medium text-slate-700">Start</label>
+                                                    <input
+                                                        id="start-volume"
+                                                        type="number"
+                                                        min={1}
+                                                        value={startVolume}
+                                                        onChange={(e) => setStartVolume(Number(e.target.value))}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="daily-increment" className="block text-sm font-medium text-slate-700">+ Per Day</label>
+                                                    <input
+                                                        id="daily-increment"
+                                                        type="number"
+                                                        min={0}
+                                                        value={dailyIncrement}
+                                                        onChange={(e) => setDailyIncrement(Number(e.target.value))}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label htmlFor="target-volume" className="block text-sm font-medium text-slate-700">Target</label>
+                                                    <input
+                                                        id="target-volume"
+                                                        type="number"
+                                                        min={1}
+                                                        value={targetVolume}
+                                                        onChange={(e) => setTargetVolume(Number(e.target.value))}
+                                                        className={inputClassName}
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="started-on" className="block text-sm font-medium text-slate-700">Ramp Start Date</label>
+                                                <input
+                                                    id="started-on"
+                                                    type="date"
+                                                    value={startedOn}
+                                                    onChange={(e) => setStartedOn(e.target.value)}
+                                                    className={inputClassName}
+                                                />
+                                            </div>
+                                            <p className="text-xs text-slate-500">
+                                                {daysToTarget === null
+                                                    ? `Sends ${Math.min(startVolume, dailyLimit)} emails a day and never reaches its target.`
+                                                    : `Sends ${Math.min(startVolume, dailyLimit)} emails on day 1 and reaches its target on day ${daysToTarget}, when it becomes active automatically. The daily limit always applies.`}
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    <div className="mt-6 flex justify-end gap-3">
+                                        <button
+                                            type="button"
+                                            className="bg-white hover:bg-slate-50 text-slate-700 font-semibold py-2 px-4 rounded-md border border-slate-300 transition-colors"
+                                            onClick={onClose}
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            disabled={isSubmitting}
+                                            className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-400"
+                                        >
+                                            {isSubmitting ? 'Saving...' : 'Save'}
+                                        </button>
+                                    </div>
+                                </form>
+                            </Dialog.Panel>
+                        </Transition.Child>
+                    </div>
+                </div>
+            </Dialog>
+        </Transition>
+    );
+};
+
+export default InboxSettingsModal;
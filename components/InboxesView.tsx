@@ -1,21 +1,82 @@
 import * as React from 'react';
+import type { Session } from '@supabase/supabase-js';
 import { supabase } from '../supabase/client';
-import { Inbox } from '../types';
+import { Inbox, InboxProvider, InboxWarmupSchedule } from '../types';
 import toast from 'react-hot-toast';
 import Spinner from './Spinner';
+import InboxSettingsModal from './InboxSettingsModal';
+import AddSmtpInboxModal from './AddSmtpInboxModal';
+import ConnectInboxModal, { ConnectInboxChoice } from './ConnectInboxModal';
+import { rerouteHeldEmails } from '../services/geminiService';
 
-const InboxesView = () => {
+// Mirrors inbox_effective_daily_limit(): today's volume for an inbox on a warm-up ramp
+const getTodaysWarmupVolume = (warmup: InboxWarmupSchedule, dailyLimit: number) => {
+    const elapsedDays = Math.max(0, Math.floor((Date.now() - new Date(warmup.startedOn).getTime()) / 86_400_000));
+    return Math.min(warmup.startVolume + warmup.dailyIncrement * elapsedDays, warmup.targetVolume, dailyLimit);
+};
+
+const statusStyles: Record<Inbox['status'], string> = {
+    active: 'bg-green-500/20 text-green-600',
+    warming: 'bg-amber-500/20 text-amber-600',
+    error: 'bg-red-500/20 text-red-600',
+};
+
+const providerLabels: Record<InboxProvider, string> = {
+    google: 'Google',
+    microsoft: 'Microsoft',
+    smtp: 'SMTP',
+    sink: 'Sink',
+};
+
+const InboxesView = ({ session }: { session: Session }) => {
     const [inboxes, setInboxes] = React.useState<Inbox[]>([]);
     const [loading, setLoading] = React.useState(true);
+    const [editingInbox, setEditingInbox] = React.useState<Inbox | null>(null);
+    const [isSmtpModalOpen, setIsSmtpModalOpen] = React.useState(false);
+    const [isConnectModalOpen, setIsConnectModalOpen] = React.useState(false);
+    const [connectingProvider, setConnectingProvider] = React.useState<ConnectInboxChoice | null>(null);
 
     const fetchInboxes = async () => {
         setLoading(true);
-        const { data, error } = await supabase.from('inboxes').select('*');
+        const { data, error } = await supabase
+            .from('inboxes')
+            .select('id, created_at, email, provider, status, status_reason, daily_send_limit, is_connected, reply_sync_error, inbox_warmup_schedules(start_volume, daily_increment, target_volume, started_on, completed_at)');
         if (error) {
             toast.error('Failed to fetch inboxes.');
             console.error(error);
         } else {
-            setInboxes(data);
+            // Inboxes in error hold their queued emails until they're reconnected or re-routed
+            const { data: heldData, error: heldError } = await supabase.rpc('held_email_counts');
+            if (heldError) {
+                console.error('Error fetching held email counts:', heldError);
+            }
+            const heldCounts = new Map<number, number>(
+                (heldData ?? []).map((row: any) => [row.inbox_id, Number(row.held_count)])
+            );
+
+            setInboxes(data.map((i: any) => {
+                const warmup = Array.isArray(i.inbox_warmup_schedules) ? i.inbox_warmup_schedules[0] : i.inbox_warmup_schedules;
+                return {
+                    id: i.id,
+                    created_at: i.created_at,
+                    email: i.email,
+                    domain: i.email.split('@')[1] ?? '',
+                    status: i.status ?? 'active',
+                    dailyLimit: i.daily_send_limit ?? 40,
+                    isConnected: i.is_connected,
+                    provider: i.provider ?? 'google',
+                    replySyncError: i.reply_sync_error ?? undefined,
+                    statusReason: i.status_reason ?? undefined,
+                    heldEmails: heldCounts.get(i.id) ?? 0,
+                    warmup: warmup ? {
+                        startVolume: warmup.start_volume,
+                        dailyIncrement: warmup.daily_increment,
+                        targetVolume: warmup.target_volume,
+                        startedOn: warmup.started_on,
+                        completedAt: warmup.completed_at ?? undefined,
+                    } : undefined,
+                };
+            }));
         }
         setLoading(false);
     };
@@ -24,31 +85,108 @@ const InboxesView = () => {
         fetchInboxes();
     }, []);
 
-    const handleConnectInbox = () => {
-        // Redirect to the google-auth-start Edge Function
+    const handleConnectInbox = async (provider: ConnectInboxChoice) => {
+        if (provider === 'smtp') {
+            setIsConnectModalOpen(false);
+            setIsSmtpModalOpen(true);
+            return;
+        }
+
+        // Ask the provider's auth-start Edge Function for its consent URL, then redirect
         const functionsUrl = import.meta.env.VITE_SUPABASE_FUNCTIONS_URL;
         if (!functionsUrl) {
             toast.error("Functions URL is not configured. Please check your environment variables.");
             return;
         }
-        window.location.href = `${functionsUrl}/google-auth-start`;
+
+        setConnectingProvider(provider);
+        try {
+            const response = await fetch(`${functionsUrl}/${provider}-auth-start`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${session.access_token}`,
+                    'Content-Type': 'application/json'
+                },
+            });
+
+            const data = await response.json();
+
+            if (response.ok && data.authUrl) {
+                window.location.href = data.authUrl;
+                return;
+            }
+            console.error(`Error from ${provider}-auth-start:`, data);
+            toast.error(`Failed to start inbox connection: ${data.error || 'Unknown error'}`);
+        } catch (error) {
+            toast.error("An unexpected error occurred. See console for details.");
+            console.error(error);
+        }
+        setConnectingProvider(null);
     };
 
+    const handleRerouteHeldEmails = async (inbox: Inbox) => {
+        if (!window.confirm(`Send the ${inbox.heldEmails} emails held for ${inbox.email} from your other inboxes instead?`)) return;
+
+        const result = await rerouteHeldEmails(inbox.id);
+        if (!result.success) {
+            toast.error(`Failed to re-route emails: ${result.error}`);
+            return;
+        }
+        const remaining = (inbox.heldEmails ?? 0) - (result.rerouted ?? 0);
+        toast.success(remaining > 0
+            ? `${result.rerouted} emails re-routed. ${remaining} stay on hold because their campaigns have no other healthy inbox.`
+            : `${result.rerouted} emails re-routed to your other inboxes.`);
+        fetchInboxes();
+    };
+
+    const unhealthyInboxes = inboxes.filter(inbox => inbox.status === 'error');
+
     return (
         <div className="space-y-8">
             <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                 <div>
                     <h2 className="text-3xl font-bold text-slate-900">Manage Inboxes</h2>
-                    <p className="text-slate-500 mt-1">Connect and manage your Google Workspace inboxes.</p>
+                    <p className="text-slate-500 mt-1">Connect and manage your Google Workspace, Microsoft 365 and SMTP inboxes.</p>
                 </div>
                 <button
-                    onClick={handleConnectInbox}
+                    onClick={() => setIsConnectModalOpen(true)}
                     className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors"
                 >
                     Connect New Inbox
                 </button>
             </header>
 
+            {unhealthyInboxes.map(inbox => (
+                <div key={inbox.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 p-4 rounded-lg border border-red-200 bg-red-50">
+                    <div>
+                        <p className="font-semibold text-red-700">{inbox.email} needs reconnecting</p>
+                        <p className="text-sm text-red-600 mt-1">
+                            {inbox.statusReason || 'This inbox can no longer send email.'}
+                            {(inbox.heldEmails ?? 0) > 0 && ` ${inbox.heldEmails} queued emails are on hold until it is reconnected.`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                        {(inbox.heldEmails ?? 0) > 0 && (
+                            <button
+                                onClick={() => handleRerouteHeldEmails(inbox)}
+                                className="bg-white hover:bg-slate-50 border border-slate-300 text-slate-700 font-semibold py-2 px-4 rounded-md transition-colors"
+                            >
+                                Send From Other Inboxes
+                            </button>
+                        )}
+                        {(inbox.provider === 'google' || inbox.provider === 'microsoft') && (
+                            <button
+                                onClick={() => handleConnectInbox(inbox.provider as ConnectInboxChoice)}
+                                disabled={connectingProvider !== null}
+                                className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-red-400 disabled:cursor-not-allowed"
+                            >
+                                Reconnect
+                            </button>
+                        )}
+                    </div>
+                </div>
+            ))}
+
             <div className="bg-white rounded-lg border border-slate-200/80">
                 <div className="p-5">
                     <h3 className="text-lg font-semibold text-slate-900">Connected Inboxes</h3>
@@ -58,31 +196,66 @@ const InboxesView = () => {
                         <thead className="text-xs text-slate-500 uppercase bg-slate-50">
                             <tr>
                                 <th scope="col" className="px-6 py-3">Email</th>
+                                <th scope="col" className="px-6 py-3">Provider</th>
+                                <th scope="col" className="px-6 py-3">Connection</th>
                                 <th scope="col" className="px-6 py-3">Status</th>
                                 <th scope="col" className="px-6 py-3">Daily Limit</th>
+                                <th scope="col" className="px-6 py-3">Warm-up</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
                             </tr>
                         </thead>
                         <tbody>
                             {loading ? (
                                 <tr>
-                                    <td colSpan={3} className="p-8 text-center"><Spinner /></td>
+                                    <td colSpan={7} className="p-8 text-center"><Spinner /></td>
                                 </tr>
                             ) : inboxes.length === 0 ? (
                                 <tr>
-                                    <td colSpan={3} className="p-8 text-center text-slate-500">No inboxes connected yet.</td>
+                                    <td colSpan={7} className="p-8 text-center text-slate-500">No inboxes connected yet.</td>
                                 </tr>
                             ) : (
                                 inboxes.map((inbox) => (
                                     <tr key={inbox.id} className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
                                         <th scope="row" className="px-6 py-4 font-medium text-slate-900">{inbox.email}</th>
+                                        <td className="px-6 py-4">{providerLabels[inbox.provider ?? 'google'] ?? inbox.provider}</td>
                                         <td className="px-6 py-4">
                                             <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                                                inbox.is_connected ? 'bg-green-500/20 text-green-600' : 'bg-red-500/20 text-red-600'
+                                                inbox.isConnected ? 'bg-green-500/20 text-green-600' : 'bg-red-500/20 text-red-600'
                                             }`}>
-                                                {inbox.is_connected ? 'Connected' : 'Disconnected'}
+                                                {inbox.isConnected ? 'Connected' : 'Disconnected'}
+                                            </span>
+                                            {inbox.replySyncError && (
+                                                <div className="mt-1 text-xs text-amber-600" title={inbox.replySyncError}>Reply sync failing</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${statusStyles[inbox.status]}`}>
+                                                {inbox.status}
                                             </span>
+                                            {inbox.statusReason && (
+                                                <div className="mt-1 text-xs text-red-600 max-w-xs truncate" title={inbox.statusReason}>{inbox.statusReason}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            {inbox.status === 'warming' && inbox.warmup
+                                                ? `${getTodaysWarmupVolume(inbox.warmup, inbox.dailyLimit)} today / ${inbox.dailyLimit}`
+                                                : inbox.dailyLimit}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            {inbox.status === 'warming' && inbox.warmup
+                                                ? `${inbox.warmup.startVolume} → ${inbox.warmup.targetVolume} (+${inbox.warmup.dailyIncrement}/day since ${inbox.warmup.startedOn})`
+                                                : inbox.warmup?.completedAt
+                                                    ? `Completed ${new Date(inbox.warmup.completedAt).toLocaleDateString()}`
+                                                    : '—'}
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            <button
+                                                onClick={() => setEditingInbox(inbox)}
+                                                className="font-medium text-teal-600 hover:text-teal-500"
+                                            >
+                                                Settings
+                                            </button>
                                         </td>
-                                        <td className="px-6 py-4">{inbox.daily_send_limit}</td>
                                     </tr>
                                 ))
                             )}
@@ -90,6 +263,26 @@ const InboxesView = () => {
                     </table>
                 </div>
             </div>
+
+            <InboxSettingsModal
+                isOpen={editingInbox !== null}
+                onClose={() => setEditingInbox(null)}
+                inbox={editingInbox}
+                onSaved={fetchInboxes}
+            />
+
+            <ConnectInboxModal
+                isOpen={isConnectModalOpen}
+                onClose={() => setIsConnectModalOpen(false)}
+                connectingProvider={connectingProvider}
+                onSelect={handleConnectInbox}
+            />
+
+            <AddSmtpInboxModal
+                isOpen={isSmtpModalOpen}
+                onClose={() => setIsSmtpModalOpen(false)}
+                onInboxAdded={fetchInboxes}
+            />
         </div>
     );
 };
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { Domain, Inbox } from '../types';
+import { Domain, DomainDnsCheck, Inbox } from '../types';
 import { supabase } from '../supabase/client';
 import type { Session } from '@supabase/supabase-js';
 import toast from 'react-hot-toast';
@@ -21,6 +21,24 @@ const XCircle = ({className}: {className?: string}) => (
     </svg>
 );
 
+const toDomain = (d: any): Domain => ({
+    ...d,
+    dnsChecks: (d.domain_dns_checks ?? []).map((c: any): DomainDnsCheck => ({
+        recordType: c.record_type,
+        host: c.host,
+        passed: c.passed,
+        observedValue: c.observed_value ?? undefined,
+        error: c.error ?? undefined,
+        checkedAt: c.checked_at ?? undefined,
+    })),
+});
+
+const CheckStatus = ({ passed, check }: { passed: boolean, check?: DomainDnsCheck }) => (
+    <span title={check?.error ?? undefined}>
+        {passed ? <CheckCircle className="w-5 h-5 text-green-500 inline"/> : <XCircle className="w-5 h-5 text-red-500 inline"/>}
+    </span>
+);
+
 const inboxSchema = z.object({
   email: z.string().email({ message: "Invalid email address" }),
 });
@@ -53,22 +71,22 @@ const InfrastructureView = ({ session }: InfrastructureViewProps) => {
             if (!supabase) return;
             setLoading(true);
             const [domainsRes, inboxesRes] = await Promise.all([
-                supabase.from('domains').select('*').order('created_at', { ascending: false }),
-                supabase.from('inboxes').select('*')
+                supabase.from('domains').select('*, domain_dns_checks(*)').order('created_at', { ascending: false }),
+                supabase.from('inboxes').select('id, email, status, daily_send_limit')
             ]);
 
             if (domainsRes.error) {
                 console.error("Error fetching domains:", domainsRes.error.message);
                 toast.error("Could not fetch domains.");
             } else {
-                setDomains(domainsRes.data || []);
+                setDomains((domainsRes.data || []).map(toDomain));
             }
 
             if (inboxesRes.error) {
                 console.error("Error fetching inboxes:", inboxesRes.error.message);
                 toast.error("Could not fetch inboxes.");
             } else {
-                const formattedInboxes = inboxesRes.data.map((i: any) => ({ ...i, dailyLimit: i.daily_limit }));
+                const formattedInboxes = inboxesRes.data.map((i: any) => ({ ...i, dailyLimit: i.daily_send_limit }));
                 setInboxes(formattedInboxes);
             }
             
@@ -91,9 +109,6 @@ const InfrastructureView = ({ session }: InfrastructureViewProps) => {
             .insert({ 
                 name: newDomainName,
                 user_id: session.user.id, // FIX: Add the user_id to satisfy RLS policy
-                spf: false,
-                dkim: false,
-                dmarc: false,
             })
             .select()
             .single();
@@ -119,23 +134,35 @@ const InfrastructureView = ({ session }: InfrastructureViewProps) => {
         setVerifyingDomainId(domainToVerify.id);
         const toastId = toast.loading(`Verifying ${domainToVerify.name}...`);
         
-        // In a real implementation, you would invoke an Edge Function here
-        // that performs actual DNS lookups for SPF, DKIM, and DMARC records.
-        // For this version, we will just mark them as verified in the database.
+        try {
+            const { data, error } = await supabase.functions.invoke('verify-domain', {
+                body: { domain_id: domainToVerify.id },
+            });
 
-        const { data: updatedDomain, error } = await supabase
-            .from('domains')
-            .update({ spf: true, dkim: true, dmarc: true })
-            .eq('id', domainToVerify.id)
-            .select()
-            .single();
+            if (error) {
+                // The function explains what went wrong in the response body
+                const details = await error.context?.json?.().catch(() => null);
+                console.error("Error verifying domain:", details ?? error);
+                toast.error(`Verification failed: ${details?.error || error.message}`, { id: toastId });
+            } else {
+                const updatedDomain = toDomain({
+                    ...data.domain,
+                    domain_dns_checks: data.checks.map((c: any) => ({ ...c, checked_at: data.domain.dns_checked_at })),
+                });
+                setDomains(domains.map(d => d.id === updatedDomain.id ? updatedDomain : d));
 
-        if (error) {
-            console.error("Error verifying domain:", error.message);
+                const failing = updatedDomain.dnsChecks?.filter(c => !c.passed) ?? [];
+                if (failing.length === 0) {
+                    toast.success(`${updatedDomain.name} verified successfully!`, { id: toastId });
+                } else {
+                    toast.error(`${failing.length} of 3 records for ${updatedDomain.name} need attention.`, { id: toastId });
+                    // The records modal shows what was found and how to fix it
+                    setSelectedDomain(updatedDomain);
+                }
+            }
+        } catch (error) {
+            console.error("Error verifying domain:", error);
             toast.error("Verification failed.", { id: toastId });
-        } else if (updatedDomain) {
-            setDomains(domains.map(d => d.id === updatedDomain.id ? updatedDomain : d));
-            toast.success(`${updatedDomain.name} verified successfully!`, { id: toastId });
         }
         setVerifyingDomainId(null);
     };
@@ -221,9 +248,9 @@ const InfrastructureView = ({ session }: InfrastructureViewProps) => {
                         ) : domains.map(domain => (
                             <tr key={domain.id} className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
                                 <th scope="row" className="px-6 py-4 font-medium text-slate-900 whitespace-nowrap">{domain.name}</th>
-                                <td className="px-6 py-4 text-center">{domain.spf ? <CheckCircle className="w-5 h-5 text-green-500 inline"/> : <XCircle className="w-5 h-5 text-red-500 inline"/>}</td>
-                                <td className="px-6 py-4 text-center">{domain.dkim ? <CheckCircle className="w-5 h-5 text-green-500 inline"/> : <XCircle className="w-5 h-5 text-red-500 inline"/>}</td>
-                                <td className="px-6 py-4 text-center">{domain.dmarc ? <CheckCircle className="w-5 h-5 text-green-500 inline"/> : <XCircle className="w-5 h-5 text-red-500 inline"/>}</td>
+                                <td className="px-6 py-4 text-center"><CheckStatus passed={domain.spf} check={domain.dnsChecks?.find(c => c.recordType === 'spf')} /></td>
+                                <td className="px-6 py-4 text-center"><CheckStatus passed={domain.dkim} check={domain.dnsChecks?.find(c => c.recordType === 'dkim')} /></td>
+                                <td className="px-6 py-4 text-center"><CheckStatus passed={domain.dmarc} check={domain.dnsChecks?.find(c => c.recordType === 'dmarc')} /></td>
                                 <td className="px-6 py-4 text-center">
                                     <div className="flex items-center justify-center gap-2">
                                         <button onClick={() => setSelectedDomain(domain)} className="text-sm font-medium text-teal-600 hover:text-teal-500">View Records</button>
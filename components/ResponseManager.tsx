@@ -41,14 +41,22 @@ const ResponseManager = () => {
             setLoading(true);
             const { data, error } = await supabase
                 .from('replies')
-                .select('*')
-                .order('created_at', { ascending: false });
+                .select('id, created_at, from_email, subject, body, intent, campaigns(name)')
+                .order('received_at', { ascending: false });
             
             if (error) {
                 console.error("Error fetching replies:", error.message);
                 toast.error("Could not fetch replies.");
             } else {
-                setReplies(data || []);
+                setReplies((data || []).map((r: any) => ({
+                    id: r.id,
+                    created_at: r.created_at,
+                    from: r.from_email ?? '',
+                    subject: r.subject ?? '',
+                    body: r.body,
+                    intent: r.intent ?? undefined,
+                    campaignName: r.campaigns?.name ?? undefined,
+                })));
             }
             setLoading(false);
         };
@@ -125,6 +133,7 @@ const ResponseManager = () => {
                             <div>
                                 <p className="font-semibold text-slate-900">{reply.from}</p>
                                 <p className="text-sm text-slate-500">{reply.subject}</p>
+                                {reply.campaignName && <p className="text-xs text-slate-400 mt-0.5">{reply.campaignName}</p>}
                             </div>
                             <div className="flex items-center gap-4">
                                 {reply.intent ? (
@@ -149,7 +158,12 @@ const ResponseManager = () => {
                                 Sequence stopped. Reply forwarded to sales@aiscale.pro
                             </p>
                         )}
-                        {reply.intent && reply.intent !== IntentType.POSITIVE && (
+                        {reply.intent === IntentType.OPT_OUT && (
+                            <p className="text-xs text-red-600 mt-3 text-right">
+                                Sequence stopped. Address added to the suppression list.
+                            </p>
+                        )}
+                        {reply.intent && reply.intent !== IntentType.POSITIVE && reply.intent !== IntentType.OPT_OUT && (
                             <p className="text-xs text-yellow-600 mt-3 text-right">
                                 Sequence stopped for this lead.
                             </p>
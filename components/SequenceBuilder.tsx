@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { EmailStep, Contact } from '../types';
+import { EmailStep, Contact, InboxListItem } from '../types';
 import { generateEmailContent } from '../services/geminiService';
 import { supabase } from '../supabase/client';
 import type { Session } from '@supabase/supabase-js';
@@ -12,6 +12,12 @@ const WandSparklesIcon = ({className}: {className?: string}) => (
     </svg>
 );
 
+const SendIcon = ({className}: {className?: string}) => (
+    <svg className={className} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="m22 2-7 20-4-9-9-4Z"></path><path d="M22 2 11 13"></path>
+    </svg>
+);
+
 const Trash2Icon = ({className}: {className?: string}) => (
     <svg className={className} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <path d="M3 6h18"></path><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line>
@@ -32,6 +38,9 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
   const [isGenerating, setIsGenerating] = React.useState<number | null>(null);
   const [isSaving, setIsSaving] = React.useState(false);
   const [loadingContacts, setLoadingContacts] = React.useState(true);
+  const [inboxes, setInboxes] = React.useState<InboxListItem[]>([]);
+  const [selectedInboxId, setSelectedInboxId] = React.useState<number | null>(null);
+  const [sendingTestId, setSendingTestId] = React.useState<number | null>(null);
   
   const mergeTags = ['{{firstName}}', '{{companyName}}', '{{industry}}', '{{city}}'];
 
@@ -63,6 +72,21 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
     fetchContacts();
   }, []);
 
+  React.useEffect(() => {
+    const fetchInboxes = async () => {
+        if (!supabase) return;
+        const { data, error } = await supabase.from('inboxes').select('id, email, status');
+        if (error) {
+            console.error("Error fetching inboxes:", error);
+        } else if (data) {
+            setInboxes(data);
+            const usable = data.find(i => i.status !== 'error');
+            if (usable) setSelectedInboxId(usable.id);
+        }
+    };
+    fetchInboxes();
+  }, []);
+
   const handleStepChange = <K extends keyof EmailStep>(id: number, field: K, value: EmailStep[K]) => {
     setSteps(steps.map(step => step.id === id ? { ...step, [field]: value } : step));
   };
@@ -124,6 +148,58 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
       }
   };
 
+  // Sends the step as it is in the editor, rendered for the sample contact, to the
+  // logged-in user. Nothing is queued, so it doesn't count towards stats or daily limits.
+  const handleSendTest = async (stepId: number) => {
+      if (!supabase) return;
+      if (selectedContactId === null) {
+          toast.error("Please select a sample contact to render the test email for.");
+          return;
+      }
+      if (selectedInboxId === null) {
+          toast.error("Please connect an inbox to send the test from.");
+          return;
+      }
+
+      const index = steps.findIndex(s => s.id === stepId);
+      const step = steps[index];
+      // Follow-ups without their own subject reply to the last earlier step that has one
+      const previousSubject = steps
+          .slice(0, index)
+          .map(s => s.subjectA)
+          .filter(subject => subject.trim() !== '' && subject !== 'Re: Previous Email')
+          .pop();
+
+      setSendingTestId(stepId);
+      const toastId = toast.loading('Sending test email...');
+      try {
+          const { data, error } = await supabase.functions.invoke('send-email-worker', {
+              body: {
+                  test: true,
+                  inbox_id: selectedInboxId,
+                  contact_id: selectedContactId,
+                  subject: step.subjectA,
+                  body: step.body,
+                  previous_subject: previousSubject ?? null,
+              },
+          });
+
+          if (error) {
+              // The worker explains what went wrong in the response body
+              const details = await error.context?.json?.().catch(() => null);
+              console.error('Error from send-email-worker:', details ?? error);
+              toast.error(`Failed to send test email: ${details?.error || error.message}`, { id: toastId });
+          } else {
+              toast.success(data?.message || 'Test email sent!', { id: toastId });
+          }
+      } catch (error) {
+          console.error('Failed to send test email', error);
+          toast.error('Failed to send test email.', { id: toastId });
+      } finally {
+          setSendingTestId(null);
+      }
+  };
+
   const handleSaveSequence = async () => {
     if (!supabase) return;
     setIsSaving(true);
@@ -192,7 +268,7 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
             />
         </div>
         <div className="flex items-center gap-3">
-            <label htmlFor="sampleContact" className="text-sm font-medium text-slate-600 whitespace-nowrap">Sample Contact for AI:</label>
+            <label htmlFor="sampleContact" className="text-sm font-medium text-slate-600 whitespace-nowrap">Sample Contact:</label>
             <div className="relative w-full">
                 <select 
                     id="sampleContact" 
@@ -216,6 +292,24 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
                 )}
             </div>
         </div>
+        <div className="flex items-center gap-3">
+            <label htmlFor="testInbox" className="text-sm font-medium text-slate-600 whitespace-nowrap">Send Tests From:</label>
+            <select
+                id="testInbox"
+                value={selectedInboxId || ''}
+                onChange={(e) => setSelectedInboxId(Number(e.target.value))}
+                disabled={inboxes.length === 0}
+                className="w-full bg-slate-50 border-slate-300 rounded-md shadow-sm p-2 text-slate-900 focus:ring-teal-500 focus:border-teal-500 text-sm disabled:opacity-70"
+            >
+                {inboxes.length === 0 && <option>No inboxes connected</option>}
+                {inboxes.map(inbox => (
+                    <option key={inbox.id} value={inbox.id} disabled={inbox.status === 'error'}>
+                        {inbox.email}{inbox.status === 'error' ? ' (error)' : ''}
+                    </option>
+                ))}
+            </select>
+        </div>
+        <p className="text-xs text-slate-500">Test emails go to {session.user.email}, marked [TEST], and are not counted in campaign stats or inbox limits.</p>
       </div>
 
       {steps.map((step, index) => (
@@ -247,6 +341,14 @@ const SequenceBuilder = ({ session }: SequenceBuilderProps) => {
                        <WandSparklesIcon className="w-4 h-4"/>
                        {isGenerating === step.id ? 'Generating...' : 'Generate with AI'}
                     </button>
+                    <button
+                        onClick={() => handleSendTest(step.id)}
+                        disabled={sendingTestId === step.id || contacts.length === 0 || inboxes.length === 0}
+                        className="flex items-center gap-2 text-sm bg-slate-100 hover:bg-slate-200 text-slate-700 font-semibold py-1.5 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-wait"
+                    >
+                       <SendIcon className="w-4 h-4"/>
+                       {sendingTestId === step.id ? 'Sending...' : 'Send test'}
+                    </button>
                     {steps.length > 1 && (
                       <button onClick={() => removeStep(step.id)} className="text-slate-500 hover:text-red-500 p-1.5 rounded-md hover:bg-red-50">
                           <Trash2Icon className="w-5 h-5"/>
@@ -35,6 +35,18 @@ const MessageCircleReplyIcon = ({ className }: IconProps) => (
   </svg>
 );
 
+const AlertTriangleIcon = ({ className }: IconProps) => (
+  <svg className={className} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"></path><line x1="12" x2="12" y1="9" y2="13"></line><line x1="12" x2="12.01" y1="17" y2="17"></line>
+  </svg>
+);
+
+const BanIcon = ({ className }: IconProps) => (
+  <svg className={className} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10"></circle><path d="m4.9 4.9 14.2 14.2"></path>
+  </svg>
+);
+
 // FIX: Replaced `JSX.Element` with `React.ReactElement` to resolve the "Cannot find namespace 'JSX'" error by explicitly using the imported React type.
 const navItems: { path: string; label: string; icon: (props: IconProps) => React.ReactElement }[] = [
     { path: '/', label: 'Campaigns', icon: LayoutDashboardIcon },
@@ -44,6 +56,8 @@ const navItems: { path: string; label: string; icon: (props: IconProps) => React
     { path: '/infrastructure', label: 'Infrastructure', icon: GlobeIcon },
     { path: '/inboxes', label: 'Inboxes', icon: MessageCircleReplyIcon },
     { path: '/responses', label: 'Response Manager', icon: MessageCircleReplyIcon },
+    { path: '/failed-sends', label: 'Failed Sends', icon: AlertTriangleIcon },
+    { path: '/suppression', label: 'Suppression List', icon: BanIcon },
 ];
 
 const Sidebar = () => {
@@ -0,0 +1,312 @@
+import * as React from 'react';
+import { supabase } from '../supabase/client';
+import { SuppressionEntry, SuppressionEntryType } from '../types';
+import toast from 'react-hot-toast';
+import { z } from 'zod';
+import Spinner from './Spinner';
+
+const UploadIcon = ({ className }: {className?: string}) => (
+    <svg className={className} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line>
+    </svg>
+);
+
+const entryTypeLabels: Record<SuppressionEntryType, string> = {
+    email: 'Email',
+    domain: 'Domain',
+    pattern: 'Pattern',
+};
+
+const reasonLabels: Record<string, string> = {
+    manual: 'Added manually',
+    import: 'Imported',
+    opt_out: 'Opt-out reply',
+    unsubscribe: 'Unsubscribed',
+};
+
+const entryValueSchemas: Record<SuppressionEntryType, z.ZodString> = {
+    email: z.string().email({ message: "Please enter a valid email address." }),
+    domain: z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, { message: "Please enter a domain such as example.com." }),
+    pattern: z.string().regex(/[*?]/, { message: "Patterns need a * or ? wildcard, e.g. *@example.com." }),
+};
+
+// Values without a type column are classified by their shape
+const inferEntryType = (value: string): SuppressionEntryType =>
+    /[*?]/.test(value) ? 'pattern' : value.includes('@') ? 'email' : 'domain';
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/^@/, '');
+
+const SuppressionListView = () => {
+    const [entries, setEntries] = React.useState<SuppressionEntry[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [entryType, setEntryType] = React.useState<SuppressionEntryType>('email');
+    const [value, setValue] = React.useState('');
+    const [isAdding, setIsAdding] = React.useState(false);
+    const [isImporting, setIsImporting] = React.useState(false);
+    const [search, setSearch] = React.useState('');
+
+    const fetchEntries = async () => {
+        if (!supabase) return;
+        setLoading(true);
+        const { data, error } = await supabase
+            .from('suppression_entries')
+            .select('id, entry_type, value, reason, created_at')
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error("Error fetching suppression list:", error.message);
+            toast.error("Could not fetch the suppression list.");
+        } else {
+            setEntries((data || []).map((row: any) => ({
+                id: row.id,
+                entryType: row.entry_type,
+                value: row.value,
+                reason: row.reason,
+                createdAt: row.created_at,
+            })));
+        }
+        setLoading(false);
+    };
+
+    React.useEffect(() => {
+        fetchEntries();
+    }, []);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supabase) return;
+
+        const normalized = normalizeValue(value);
+        const validation = entryValueSchemas[entryType].safeParse(normalized);
+        if (!validation.success) {
+            toast.error(validation.error.issues[0].message);
+            return;
+        }
+
+        setIsAdding(true);
+        const { error } = await supabase
+            .from('suppression_entries')
+            .insert({ entry_type: entryType, value: normalized, reason: 'manual' });
+
+        if (error) {
+            console.error("Error adding suppression entry:", error.message);
+            toast.error(error.code === '23505' ? `${normalized} is already suppressed.` : 'Failed to add the entry.');
+        } else {
+            toast.success(`${normalized} will no longer be contacted.`);
+            setValue('');
+            await fetchEntries();
+        }
+        setIsAdding(false);
+    };
+
+    const handleDelete = async (entry: SuppressionEntry) => {
+        if (!supabase) return;
+        const { error } = await supabase.from('suppression_entries').delete().eq('id', entry.id);
+
+        if (error) {
+            console.error("Error deleting suppression entry:", error.message);
+            toast.error(`Could not remove ${entry.value}.`);
+        } else {
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+            toast.success(`${entry.value} removed from the suppression list.`);
+        }
+    };
+
+    // Accepts either a "type,value" CSV or a single column of addresses, domains and patterns
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file || !supabase) return;
+
+        setIsImporting(true);
+        const toastId = toast.loading(`Importing ${file.name}...`);
+
+        const reader = new FileReader();
+        reader.onload = async (e) => {
+            try {
+                const lines = ((e.target?.result as string) || '').trim().split(/\r\n|\n/).filter(line => line.trim());
+                const header = lines[0]?.toLowerCase().split(',').map(h => h.trim()) ?? [];
+                const hasHeader = header.includes('value');
+                const typeIndex = hasHeader ? header.indexOf('type') : -1;
+                const valueIndex = hasHeader ? header.indexOf('value') : 0;
+
+                const rows = new Map<string, { entry_type: SuppressionEntryType; value: string; reason: string }>();
+                let skipped = 0;
+                for (const line of hasHeader ? lines.slice(1) : lines) {
+                    const columns = line.split(',');
+                    const rowValue = normalizeValue(columns[valueIndex] ?? '');
+                    const declaredType = columns[typeIndex]?.trim().toLowerCase();
+                    const rowType = declaredType && declaredType in entryTypeLabels
+                        ? declaredType as SuppressionEntryType
+                        : inferEntryType(rowValue);
+
+                    if (!entryValueSchemas[rowType].safeParse(rowValue).success) {
+                        skipped++;
+                        continue;
+                    }
+                    rows.set(`${rowType}:${rowValue}`, { entry_type: rowType, value: rowValue, reason: 'import' });
+                }
+
+                if (rows.size === 0) {
+                    throw new Error("No valid emails, domains or patterns found in the file.");
+                }
+
+                const { error } = await supabase!
+                    .from('suppression_entries')
+                    .upsert([...rows.values()], { onConflict: 'user_id,entry_type,value', ignoreDuplicates: true });
+
+                if (error) {
+                    throw new Error(error.message);
+                }
+
+                toast.success(
+                    `${rows.size} entries imported${skipped ? `, ${skipped} invalid rows skipped` : ''}.`,
+                    { id: toastId }
+                );
+                await fetchEntries();
+            } catch (e: any) {
+                console.error("Import error:", e);
+                toast.error(`Import failed: ${e.message}`, { id: toastId });
+            } finally {
+                setIsImporting(false);
+            }
+        };
+
+        reader.onerror = () => {
+            toast.error("Failed to read the file.", { id: toastId });
+            setIsImporting(false);
+        };
+
+        reader.readAsText(file);
+    };
+
+    const handleExport = () => {
+        const csv = [
+            'type,value,reason,created_at',
+            ...entries.map(entry => [entry.entryType, entry.value, entry.reason, entry.createdAt].join(',')),
+        ].join('\n');
+
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `suppression-list-${new Date().toISOString().slice(0, 10)}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const filteredEntries = entries.filter(entry => entry.value.includes(search.trim().toLowerCase()));
+
+    const placeholders: Record<SuppressionEntryType, string> = {
+        email: 'jane@example.com',
+        domain: 'example.com',
+        pattern: '*@example.*',
+    };
+
+    return (
+        <div className="space-y-8">
+            <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-900">Suppression List</h2>
+                    <p className="text-slate-500 mt-1">Addresses, domains and patterns that will never be emailed by any campaign.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <label htmlFor="suppression-upload" className={`cursor-pointer bg-white hover:bg-slate-50 border border-slate-300 text-slate-700 font-semibold py-2 px-4 rounded-md inline-flex items-center transition-colors ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+                        <UploadIcon className="w-5 h-5 mr-2" />
+                        {isImporting ? 'Importing...' : 'Import CSV'}
+                    </label>
+                    <input id="suppression-upload" type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+                    <button
+                        onClick={handleExport}
+                        disabled={entries.length === 0}
+                        className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-400"
+                    >
+                        Export CSV
+                    </button>
+                </div>
+            </header>
+
+            <form onSubmit={handleAdd} className="bg-white rounded-lg border border-slate-200/80 p-6 flex flex-col md:flex-row gap-3">
+                <select
+                    value={entryType}
+                    onChange={(e) => setEntryType(e.target.value as SuppressionEntryType)}
+                    className="bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-slate-900 focus:outline-none focus:ring-teal-500 focus:border-teal-500 sm:text-sm"
+                >
+                    {Object.entries(entryTypeLabels).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={placeholders[entryType]}
+                    className="flex-1 bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-slate-900 focus:outline-none focus:ring-teal-500 focus:border-teal-500 sm:text-sm"
+                />
+                <button
+                    type="submit"
+                    disabled={isAdding}
+                    className="bg-teal-600 hover:bg-teal-500 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-slate-400"
+                >
+                    {isAdding ? 'Adding...' : 'Suppress'}
+                </button>
+            </form>
+
+            <div className="bg-white rounded-lg border border-slate-200/80">
+                <div className="p-4 border-b border-slate-200/80">
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search the suppression list..."
+                        className="w-full md:w-80 bg-white border border-slate-300 rounded-md py-2 px-3 text-sm text-slate-900 focus:outline-none focus:ring-teal-500 focus:border-teal-500"
+                    />
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-500">
+                        <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Value</th>
+                                <th scope="col" className="px-6 py-3">Type</th>
+                                <th scope="col" className="px-6 py-3">Source</th>
+                                <th scope="col" className="px-6 py-3">Added</th>
+                                <th scope="col" className="px-6 py-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={5} className="p-8 text-center"><Spinner /></td>
+                                </tr>
+                            ) : filteredEntries.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="p-8 text-center text-slate-500">
+                                        {entries.length === 0 ? 'Nobody is suppressed yet.' : 'No entries match your search.'}
+                                    </td>
+                                </tr>
+                            ) : (
+                                filteredEntries.map((entry) => (
+                                    <tr key={entry.id} className="bg-white border-b border-slate-200/80 hover:bg-slate-50">
+                                        <th scope="row" className="px-6 py-4 font-medium text-slate-900 font-mono">{entry.value}</th>
+                                        <td className="px-6 py-4">{entryTypeLabels[entry.entryType]}</td>
+                                        <td className="px-6 py-4">{reasonLabels[entry.reason] ?? entry.reason}</td>
+                                        <td className="px-6 py-4">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                                        <td className="px-6 py-4 text-right">
+                                            <button
+                                                onClick={() => handleDelete(entry)}
+                                                className="font-medium text-red-600 hover:text-red-500"
+                                            >
+                                                Remove
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SuppressionListView;
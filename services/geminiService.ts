@@ -1,4 +1,4 @@
-import { Contact, IntentType } from '../types';
+import { Contact, IntentType, CampaignPreviewRow } from '../types';
 import { supabase } from '../supabase/client';
 
 // Get the API base URL - use environment variable or default to current origin
@@ -20,6 +20,79 @@ export const startCampaign = async (campaignId: number): Promise<{ success: bool
   }
 };
 
+type CampaignControlRpc = 'pause_campaign' | 'resume_campaign' | 'stop_campaign';
+
+// Pause, resume and stop all take the campaign ID and return how many queued emails they affected
+const controlCampaign = async (rpc: CampaignControlRpc, campaignId: number): Promise<{ success: boolean; affected?: number; error?: string }> => {
+  try {
+    const argName = { pause_campaign: 'campaign_id_to_pause', resume_campaign: 'campaign_id_to_resume', stop_campaign: 'campaign_id_to_stop' }[rpc];
+    const { data, error } = await supabase.rpc(rpc, { [argName]: campaignId });
+
+    if (error) {
+      console.error(`Error calling ${rpc} RPC:`, error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, affected: data ?? 0 };
+  } catch (error: any) {
+    console.error(`Unexpected error calling ${rpc}:`, error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Pause an active campaign, holding every email it still has queued
+ */
+export const pauseCampaign = (campaignId: number) => controlCampaign('pause_campaign', campaignId);
+
+/**
+ * Resume a paused campaign. Emails that fell due while it was paused are spaced out again.
+ */
+export const resumeCampaign = (campaignId: number) => controlCampaign('resume_campaign', campaignId);
+
+/**
+ * Stop a campaign for good, cancelling everything it still has queued
+ */
+export const stopCampaign = (campaignId: number) => controlCampaign('stop_campaign', campaignId);
+
+/**
+ * Send the emails held for an inbox in error from the user's other healthy inboxes
+ */
+export const rerouteHeldEmails = async (inboxId: number): Promise<{ success: boolean; rerouted?: number; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('reroute_held_emails', { source_inbox_id: inboxId });
+
+    if (error) {
+      console.error('Error calling reroute_held_emails RPC:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, rerouted: data ?? 0 };
+  } catch (error: any) {
+    console.error('Unexpected error calling reroute_held_emails:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Dry-run a draft campaign: every step rendered for every contact, nothing enqueued
+ */
+export const previewCampaign = async (campaignId: number): Promise<{ success: boolean; rows?: CampaignPreviewRow[]; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('preview_campaign', { campaign_id_to_preview: campaignId });
+
+    if (error) {
+      console.error('Error calling preview_campaign RPC:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, rows: data || [] };
+  } catch (error: any) {
+    console.error('Unexpected error previewing campaign:', error);
+    return { success: false, error: error.message };
+  }
+};
+
 const getFallbackContent = (contact: Contact) => ({
     opener: "I was just looking into your company and was very impressed with your work in the industry.",
     subjectA: "Quick Question",
@@ -0,0 +1,116 @@
+// _shared/crypto.ts
+// Envelope encryption for credentials we store, such as inbox OAuth tokens. Each value
+// is encrypted with its own random AES-256-GCM data key, and the data key is wrapped
+// (AES-KW) with a master key from the `TOKEN_ENCRYPTION_KEYS` secret. The database only
+// ever sees the result:
+//   enc:v1:<master key id>:<wrapped data key>:<iv>:<ciphertext>
+//
+// `TOKEN_ENCRYPTION_KEYS` is a comma-separated list of `<id>:<base64 32-byte key>`.
+// The first key encrypts; every listed key can decrypt, so a new key can be put first
+// while values encrypted under the old one are still readable (see `needsReencryption`).
+
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+const PREFIX = "enc:v1:";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+let masterKeys: Promise<MasterKey[]> | undefined;
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return decodeBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+function loadMasterKeys(): Promise<MasterKey[]> {
+  masterKeys ??= (async () => {
+    const entries = (Deno.env.get("TOKEN_ENCRYPTION_KEYS") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    if (entries.length === 0) {
+      throw new Error("TOKEN_ENCRYPTION_KEYS is not configured.");
+    }
+
+    return Promise.all(entries.map(async (entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const raw = decodeBase64(entry.slice(separator + 1));
+      if (separator < 1 || raw.length !== 32) {
+        throw new Error("Each TOKEN_ENCRYPTION_KEYS entry must be <id>:<base64 32-byte key>.");
+      }
+      const key = await crypto.subtle.importKey("raw", raw, "AES-KW", false, ["wrapKey", "unwrapKey"]);
+      return { id, key };
+    }));
+  })();
+  return masterKeys;
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const [master] = await loadMasterKeys();
+
+  const dataKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, dataKey, textEncoder.encode(plaintext));
+  const wrappedKey = await crypto.subtle.wrapKey("raw", dataKey, master.key, "AES-KW");
+
+  return PREFIX + [
+    master.id,
+    toBase64Url(new Uint8Array(wrappedKey)),
+    toBase64Url(iv),
+    toBase64Url(new Uint8Array(ciphertext)),
+  ].join(":");
+}
+
+// Values stored before encryption was introduced are returned unchanged
+export async function decryptSecret(value: string): Promise<string> {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [keyId, wrappedKey, iv, ciphertext] = value.slice(PREFIX.length).split(":");
+  const master = (await loadMasterKeys()).find((candidate) => candidate.id === keyId);
+  if (!master) {
+    throw new Error(`Encryption key "${keyId}" is not in TOKEN_ENCRYPTION_KEYS.`);
+  }
+
+  const dataKey = await crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64Url(wrappedKey),
+    master.key,
+    "AES-KW",
+    "AES-GCM",
+    false,
+    ["decrypt"],
+  );
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64Url(iv) }, dataKey, fromBase64Url(ciphertext));
+  return textDecoder.decode(plaintext);
+}
+
+// True for plaintext values and for values encrypted under a key that is no longer the
+// current one; callers write these back re-encrypted
+export async function needsReencryption(value: string | null | undefined): Promise<boolean> {
+  if (!value) {
+    return false;
+  }
+  if (!isEncrypted(value)) {
+    return true;
+  }
+  const [current] = await loadMasterKeys();
+  return value.slice(PREFIX.length).split(":")[0] !== current.id;
+}
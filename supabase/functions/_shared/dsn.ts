@@ -0,0 +1,178 @@
+// _shared/dsn.ts
+// Recognises delivery failure notices (DSNs, RFC 3464) and the looser non-delivery
+// reports some servers send instead, such as Gmail's "Address not found" and Exchange's
+// "Undeliverable:" messages, and works out which email bounced and whether permanently.
+
+export interface InboundMessagePart {
+  mimeType: string;
+  content: string;
+}
+
+// A provider-neutral view of a received message
+export interface InboundMessage {
+  from: string;
+  subject: string;
+  // Header names in lower case
+  headers: Record<string, string>;
+  // Every leaf part, decoded, in document order
+  parts: InboundMessagePart[];
+}
+
+export type BounceKind = "hard" | "soft";
+
+export interface BounceReport {
+  kind: BounceKind;
+  // Enhanced status code (RFC 3463) such as "5.1.1", or the basic SMTP reply code
+  statusCode?: string;
+  diagnostic?: string;
+  recipient?: string;
+  // Message-ID of the email that bounced, including angle brackets
+  originalMessageId?: string;
+}
+
+const BOUNCE_SENDER = /^(mailer-daemon|postmaster|mail-daemon|mail delivery (subsystem|system))\b/i;
+const BOUNCE_SUBJECT = /delivery status notification \((failure|delay)\)|undeliverable|undelivered mail|mail delivery (failed|failure)|returned mail|delivery (has )?failed|failure notice|could not be delivered|address not found/i;
+
+const ENHANCED_STATUS = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const SMTP_REPLY = /\b([45]\d\d)[ -]/;
+const EMAIL_ADDRESS = /[A-Z0-9._%+'-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+
+// Permanent-looking codes that really mean "try again later": mailbox full (5.2.2)
+// and message too large for the mailbox right now (552)
+const SOFT_PERMANENT_CODES = new Set(["5.2.2", "552"]);
+
+function classify(statusCode: string | undefined, action?: string): BounceKind {
+  if (action?.toLowerCase() === "delayed") {
+    return "soft";
+  }
+  if (!statusCode || SOFT_PERMANENT_CODES.has(statusCode)) {
+    return "soft";
+  }
+  return statusCode.startsWith("5") ? "hard" : "soft";
+}
+
+// Parses "Name: value" fields, joining folded continuation lines (RFC 5322 2.2.3)
+function parseFields(block: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let current: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^\s/.test(line) && current) {
+      fields[current] += ` ${line.trim()}`;
+      continue;
+    }
+    const match = line.match(/^([A-Za-z0-9-]+):\s*(.*)$/);
+    if (match) {
+      current = match[1].toLowerCase();
+      // Per-recipient groups repeat fields; the first recipient is the one we sent to
+      if (!(current in fields)) {
+        fields[current] = match[2].trim();
+      } else {
+        current = null;
+      }
+    }
+  }
+  return fields;
+}
+
+// Strips the "rfc822;" / "smtp;" type prefixes used in DSN fields
+const stripType = (value: string | undefined) => value?.replace(/^[a-z0-9-]+;\s*/i, "").trim();
+
+function findOriginalMessageId(message: InboundMessage): string | undefined {
+  const original = message.parts.find((p) => /^(message\/rfc822|text\/rfc822-headers|message\/rfc822-headers)$/i.test(p.mimeType));
+  const headerBlock = original?.content.split(/\r?\n\r?\n/)[0];
+  const fromOriginal = headerBlock ? parseFields(headerBlock)["message-id"] : undefined;
+  if (fromOriginal) {
+    return fromOriginal.match(/<[^>]+>/)?.[0] ?? fromOriginal;
+  }
+
+  // Gmail threads its bounces as replies to the failed message
+  return message.headers["in-reply-to"]?.match(/<[^>]+>/)?.[0];
+}
+
+const isDeliveryStatusPart = (part: InboundMessagePart) => /^message\/(global-)?delivery-status$/i.test(part.mimeType);
+
+// The machine-readable part of a multipart/report (RFC 3464)
+function parseDeliveryStatus(message: InboundMessage): Omit<BounceReport, "originalMessageId"> | null {
+  const statusPart = message.parts.find(isDeliveryStatusPart);
+  if (!statusPart) {
+    return null;
+  }
+
+  // A per-message group comes first, then one group per recipient
+  const groups = statusPart.content.split(/\r?\n\s*\r?\n/).map(parseFields);
+  const recipientGroup = groups.find((g) => g["final-recipient"] || g["original-recipient"] || g["status"]) ?? {};
+
+  const action = recipientGroup["action"];
+  if (action && !/^(failed|delayed)$/i.test(action)) {
+    // "delivered", "relayed" and "expanded" reports are not failures
+    return null;
+  }
+
+  const statusCode = recipientGroup["status"]?.match(ENHANCED_STATUS)?.[0];
+  return {
+    kind: classify(statusCode, action),
+    statusCode,
+    diagnostic: stripType(recipientGroup["diagnostic-code"]),
+    recipient: stripType(recipientGroup["final-recipient"] ?? recipientGroup["original-recipient"]),
+  };
+}
+
+// Human-readable notices from servers that don't send a delivery-status part
+function parseNonDeliveryText(message: InboundMessage): Omit<BounceReport, "originalMessageId"> {
+  const text = message.parts
+    .filter((p) => /^text\//i.test(p.mimeType))
+    .map((p) => p.content.replace(/<[^>]+>/g, " "))
+    .join("\n");
+
+  const enhanced = text.match(ENHANCED_STATUS)?.[0];
+  const smtpReply = text.match(SMTP_REPLY)?.[1];
+  const statusCode = enhanced ?? smtpReply;
+
+  // Gmail: "Your message wasn't delivered to jane@example.com because the address couldn't be found"
+  // Exchange: "Your message to jane@example.com couldn't be delivered." /
+  //           "Delivery has failed to these recipients or groups: jane@example.com"
+  const recipient = message.headers["x-failed-recipients"]?.split(",")[0].trim() ??
+    text.match(/(?:wasn't delivered to|message to|failed to these recipients or groups:?)\s*<?([A-Z0-9._%+'-]+@[A-Z0-9.-]+\.[A-Z]{2,})/i)?.[1] ??
+    text.match(EMAIL_ADDRESS)?.[0];
+
+  // Gmail's wording for a nonexistent mailbox has no code in the text part
+  const isAddressNotFound = /address not found|couldn't be found|does not exist|no such user|user unknown|recipient address rejected/i.test(text);
+
+  const diagnosticLine = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => (statusCode && line.includes(statusCode)) || /remote server returned/i.test(line));
+
+  return {
+    kind: statusCode ? classify(statusCode) : isAddressNotFound ? "hard" : "soft",
+    statusCode,
+    diagnostic: diagnosticLine,
+    recipient,
+  };
+}
+
+// Returns the bounce described by the message, or null if it isn't a delivery failure
+export function parseBounce(message: InboundMessage): BounceReport | null {
+  const contentType = message.headers["content-type"] ?? "";
+  const isReport = /multipart\/report/i.test(contentType) && /report-type="?delivery-status/i.test(contentType);
+  const looksLikeBounce = BOUNCE_SENDER.test(message.from.replace(/^"|"$/g, "")) ||
+    BOUNCE_SENDER.test(message.from.match(/<([^>]+)>/)?.[1] ?? "") ||
+    BOUNCE_SUBJECT.test(message.subject) ||
+    "x-failed-recipients" in message.headers;
+
+  if (!isReport && !looksLikeBounce) {
+    return null;
+  }
+
+  // A delivery-status part is authoritative: success reports from mailer-daemon are
+  // not bounces, however the notice is worded
+  const report = message.parts.some(isDeliveryStatusPart)
+    ? parseDeliveryStatus(message)
+    : looksLikeBounce ? parseNonDeliveryText(message) : null;
+  if (!report) {
+    return null;
+  }
+
+  return { ...report, originalMessageId: findOriginalMessageId(message) };
+}
@@ -0,0 +1,155 @@
+// _shared/mime.ts
+// Renders an outgoing message into the raw RFC 5322 text handed to mail transports:
+// CRLF line endings, RFC 2047 encoded headers, UTF-8 bodies, and a multipart/alternative
+// body whose plain-text part is derived from the HTML when none is given.
+
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { OutgoingMessage } from "./transports/types.ts";
+
+const CRLF = "\r\n";
+
+export interface MimeMessage {
+  raw: string;
+  // The Message-ID header value, including angle brackets
+  messageId: string;
+}
+
+const textEncoder = new TextEncoder();
+
+export function base64EncodeUtf8(value: string): string {
+  return encodeBase64(textEncoder.encode(value));
+}
+
+// The URL-safe, unpadded base64 the Gmail API expects for `raw` messages
+export function base64UrlEncodeUtf8(value: string): string {
+  return base64EncodeUtf8(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Splits base64 output into 76-character lines (RFC 2045 6.8)
+function wrapBase64(value: string): string {
+  return value.match(/.{1,76}/g)?.join(CRLF) ?? "";
+}
+
+const isPrintableAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+// Encodes a header value as RFC 2047 encoded-words when it contains anything beyond
+// printable ASCII. Each word stays under the 75-character limit without splitting a
+// multi-byte character across words.
+export function encodeHeaderValue(value: string): string {
+  if (isPrintableAscii(value)) {
+    return value;
+  }
+
+  const maxBytesPerWord = 45; // 60 base64 characters + "=?UTF-8?B??=" = 72
+  const words: string[] = [];
+  let current = "";
+
+  for (const char of value) {
+    if (textEncoder.encode(current + char).length > maxBytesPerWord) {
+      words.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) {
+    words.push(current);
+  }
+
+  return words.map((word) => `=?UTF-8?B?${base64EncodeUtf8(word)}?=`).join(`${CRLF} `);
+}
+
+// Formats "Name <address>" (or a bare address) with an encoded or quoted display name
+export function formatAddress(address: string): string {
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return match ? match[2] : address.trim();
+  }
+
+  const [, name, email] = match;
+  if (!isPrintableAscii(name)) {
+    return `${encodeHeaderValue(name)} <${email}>`;
+  }
+  // Display names with specials such as "," or "." must be quoted (RFC 5322 3.4)
+  return /[()<>\[\]:;@\\,."]/.test(name)
+    ? `"${name.replace(/(["\\])/g, "\\$1")}" <${email}>`
+    : `${name} <${email}>`;
+}
+
+function addressDomain(address: string): string {
+  const email = address.match(/<([^>]+)>/)?.[1] ?? address;
+  return email.split("@")[1]?.trim() || "localhost";
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+};
+
+// Derives a readable plain-text version of an HTML body
+export function htmlToText(html: string): string {
+  return html
+    .replace(/\r\n?/g, "\n")
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href, text) => {
+      const label = text.replace(/<[^>]+>/g, "").trim();
+      return label && label !== href ? `${label} (${href})` : href;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// RFC 5322 date, e.g. "Tue, 10 Nov 2025 09:30:00 +0000"
+function formatDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, "+0000");
+}
+
+function bodyPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(base64EncodeUtf8(content.replace(/\r?\n/g, CRLF))),
+  ].join(CRLF);
+}
+
+export function buildMimeMessage(message: OutgoingMessage, date = new Date()): MimeMessage {
+  const messageId = `<${crypto.randomUUID()}@${addressDomain(message.from)}>`;
+  const boundary = `=_alt_${crypto.randomUUID().replace(/-/g, "")}`;
+  const text = message.text ?? htmlToText(message.html);
+
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${formatDate(date)}`,
+    `Message-ID: ${messageId}`,
+    ...(message.inReplyTo ? [`In-Reply-To: ${message.inReplyTo}`] : []),
+    ...(message.references?.length ? [`References: ${message.references.join(`${CRLF} `)}`] : []),
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const raw = [
+    ...headers,
+    "",
+    `--${boundary}`,
+    bodyPart("text/plain", text),
+    `--${boundary}`,
+    bodyPart("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+
+  return { raw, messageId };
+}
@@ -0,0 +1,145 @@
+// _shared/oauth.ts
+// Token refresh for the OAuth providers inboxes can be connected through, shared by
+// every function that calls a provider API on behalf of an inbox.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { isRetryableStatus, SendError } from "./transports/types.ts";
+import { decryptSecret, encryptSecret, needsReencryption } from "./crypto.ts";
+
+export type OAuthProvider = "google" | "microsoft";
+
+export interface RefreshedToken {
+  newAccessToken: string;
+  newExpiresAt: Date;
+  // Microsoft rotates refresh tokens; Google keeps the original one
+  newRefreshToken?: string;
+}
+
+const GOOGLE_CLIENT_ID = Deno.env.get("GOOGLE_CLIENT_ID");
+const GOOGLE_CLIENT_SECRET = Deno.env.get("GOOGLE_CLIENT_SECRET");
+const MICROSOFT_CLIENT_ID = Deno.env.get("MICROSOFT_CLIENT_ID");
+const MICROSOFT_CLIENT_SECRET = Deno.env.get("MICROSOFT_CLIENT_SECRET");
+const MICROSOFT_TENANT_ID = Deno.env.get("MICROSOFT_TENANT_ID") ?? "common";
+
+// The inbox's credentials were revoked or are unusable; only reconnecting it helps
+export class CredentialError extends SendError {
+  constructor(message: string, statusCode?: number) {
+    super(message, false, statusCode);
+    this.name = "CredentialError";
+  }
+}
+
+export const MICROSOFT_SCOPES = [
+  "offline_access",
+  "openid",
+  "email",
+  "https://graph.microsoft.com/User.Read",
+  "https://graph.microsoft.com/Mail.Send",
+];
+
+export const microsoftTokenUrl = `https://login.microsoftonline.com/${MICROSOFT_TENANT_ID}/oauth2/v2.0/token`;
+
+function tokenRequest(provider: OAuthProvider, refreshToken: string) {
+  if (provider === "google") {
+    if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
+      throw new SendError("Google OAuth client credentials are not configured.", false);
+    }
+    return {
+      url: "https://oauth2.googleapis.com/token",
+      params: {
+        client_id: GOOGLE_CLIENT_ID,
+        client_secret: GOOGLE_CLIENT_SECRET,
+        refresh_token: refreshToken,
+        grant_type: "refresh_token",
+      },
+    };
+  }
+
+  if (!MICROSOFT_CLIENT_ID || !MICROSOFT_CLIENT_SECRET) {
+    throw new SendError("Microsoft OAuth client credentials are not configured.", false);
+  }
+  return {
+    url: microsoftTokenUrl,
+    params: {
+      client_id: MICROSOFT_CLIENT_ID,
+      client_secret: MICROSOFT_CLIENT_SECRET,
+      refresh_token: refreshToken,
+      grant_type: "refresh_token",
+      scope: MICROSOFT_SCOPES.join(" "),
+    },
+  };
+}
+
+// Function to refresh an expired access token
+export async function refreshAccessToken(provider: OAuthProvider, refreshToken: string): Promise<RefreshedToken> {
+  const { url, params } = tokenRequest(provider, refreshToken);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error(`Error refreshing ${provider} access token:`, errorData);
+    const message = `Failed to refresh access token: ${errorData.error || response.status}`;
+    if (isRetryableStatus(response.status)) {
+      throw new SendError(message, true, response.status);
+    }
+    // `invalid_grant` means the user revoked access and the inbox must be reconnected
+    throw new CredentialError(message, response.status);
+  }
+
+  const { access_token, expires_in, refresh_token } = await response.json();
+  const expires_at = new Date(Date.now() + expires_in * 1000);
+
+  return { newAccessToken: access_token, newExpiresAt: expires_at, newRefreshToken: refresh_token };
+}
+
+// Returns a usable access token for an OAuth inbox, refreshing it if it has expired.
+// The inbox's tokens are stored encrypted (see _shared/crypto.ts); tokens stored before
+// encryption, or under a retired key, are written back re-encrypted.
+export async function getOAuthAccessToken(supabase: SupabaseClient, inboxId: number, inbox: any) {
+  let access_token = inbox.access_token ? await decryptSecret(inbox.access_token) : null;
+  let refresh_token = inbox.refresh_token ? await decryptSecret(inbox.refresh_token) : null;
+  let expires_at = inbox.expires_at;
+  let shouldSave = await needsReencryption(inbox.access_token) || await needsReencryption(inbox.refresh_token);
+  const expiresAtDate = new Date(expires_at);
+
+  if (new Date() > expiresAtDate) {
+    if (!refresh_token) {
+      throw new CredentialError("Access token expired and no refresh token is available.");
+    }
+
+    console.log(`Access token for ${inbox.email} expired. Refreshing...`);
+    const { newAccessToken, newExpiresAt, newRefreshToken } = await refreshAccessToken(
+      inbox.provider as OAuthProvider,
+      refresh_token,
+    );
+
+    access_token = newAccessToken;
+    expires_at = newExpiresAt.toISOString();
+    refresh_token = newRefreshToken ?? refresh_token;
+    shouldSave = true;
+  }
+
+  if (shouldSave) {
+    // Save the tokens, encrypted, with their expiry
+    const { error: updateError } = await supabase
+      .from("inboxes")
+      .update({
+        access_token: access_token ? await encryptSecret(access_token) : null,
+        refresh_token: refresh_token ? await encryptSecret(refresh_token) : null,
+        expires_at,
+      })
+      .eq("id", inboxId);
+
+    if (updateError) {
+      console.error("Failed to update new access token in database:", updateError.message);
+      // Continue with the new token anyway, but log the error
+    }
+  }
+
+  return access_token as string;
+}
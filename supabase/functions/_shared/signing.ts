@@ -0,0 +1,54 @@
+// _shared/signing.ts
+// HMAC-SHA256 signed tokens for links we put in outgoing emails (e.g. unsubscribe).
+// A token is `<base64url JSON payload>.<base64url signature>`; it is not encrypted,
+// so the payload must only contain IDs that are safe to expose.
+
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return decodeBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    textEncoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export async function createSignedToken(payload: Record<string, unknown>, secret: string): Promise<string> {
+  const body = toBase64Url(textEncoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), textEncoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the payload, or null when the token is malformed or its signature is wrong
+export async function verifySignedToken<T = Record<string, unknown>>(token: string, secret: string): Promise<T | null> {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(signature),
+      textEncoder.encode(body),
+    );
+    return isValid ? JSON.parse(textDecoder.decode(fromBase64Url(body))) as T : null;
+  } catch {
+    return null;
+  }
+}
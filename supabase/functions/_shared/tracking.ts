@@ -0,0 +1,90 @@
+// _shared/tracking.ts
+// Signed tracking URLs for engagement events, shared by send-email-worker (which adds
+// them to outgoing emails) and the tracking functions (which record the events).
+
+import { createSignedToken, verifySignedToken } from "./signing.ts";
+
+const TRACKING_SECRET = Deno.env.get("TRACKING_SECRET");
+const TRACKING_BASE_URL = Deno.env.get("TRACKING_BASE_URL") ??
+  `${Deno.env.get("SUPABASE_URL")}/functions/v1`;
+
+export interface TrackingTokenPayload {
+  queue_id: number;
+  // The original link, for click tracking
+  url?: string;
+}
+
+function requireSecret(): string {
+  if (!TRACKING_SECRET) {
+    throw new Error("TRACKING_SECRET is not configured.");
+  }
+  return TRACKING_SECRET;
+}
+
+export async function buildOpenPixelUrl(queueId: number): Promise<string> {
+  const url = new URL(`${TRACKING_BASE_URL}/track-open`);
+  url.searchParams.set("t", await createSignedToken({ queue_id: queueId }, requireSecret()));
+  return url.toString();
+}
+
+// Appends a 1x1 pixel at the end of the body (inside </body> when there is one)
+export async function addOpenPixel(html: string, queueId: number): Promise<string> {
+  const pixel = `<img src="${await buildOpenPixelUrl(queueId)}" width="1" height="1" alt="" style="display:none;border:0;width:1px;height:1px">`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${pixel}</body>`) : `${html}${pixel}`;
+}
+
+export async function buildClickUrl(queueId: number, targetUrl: string): Promise<string> {
+  const url = new URL(`${TRACKING_BASE_URL}/track-click`);
+  url.searchParams.set("t", await createSignedToken({ queue_id: queueId, url: targetUrl }, requireSecret()));
+  return url.toString();
+}
+
+const decodeHrefEntities = (href: string) =>
+  href.replace(/&amp;/g, "&").replace(/&#38;/g, "&").replace(/&quot;/g, "\"");
+
+// Points every http(s) link in the body at the click redirect. Placeholders such as
+// {{unsubscribe_link}} and mailto: links are left alone.
+export async function rewriteLinks(html: string, queueId: number): Promise<string> {
+  const hrefPattern = /(<a\s[^>]*?href\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi;
+
+  const trackedUrls = new Map<string, string>();
+  for (const [, , , href] of html.matchAll(hrefPattern)) {
+    if (!trackedUrls.has(href)) {
+      trackedUrls.set(href, await buildClickUrl(queueId, decodeHrefEntities(href)));
+    }
+  }
+
+  return html.replace(hrefPattern, (_, prefix, quote, href) => `${prefix}${quote}${trackedUrls.get(href)}${quote}`);
+}
+
+export function readTrackingToken(token: string): Promise<TrackingTokenPayload | null> {
+  return verifySignedToken<TrackingTokenPayload>(token, requireSecret());
+}
+
+// The client IP as forwarded by the Supabase edge gateway
+export function requestIp(req: Request): string | null {
+  return req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip");
+}
+
+// Apple's privacy proxy fetches from 17.0.0.0/8 with a bare "Mozilla/5.0" user agent
+const isAppleProxyIp = (ip: string | null) => !!ip && /^17\./.test(ip);
+const AUTOMATED_AGENT = /bot|crawler|spider|scanner|preview|barracuda|mimecast|proofpoint|symantec|messagelabs|forcepoint|python|curl|wget|java\/|go-http-client|headless/i;
+
+// Returns why a pixel load or click looks automated rather than made by a person, or null.
+// Image proxies that only fetch when the email is displayed (GoogleImageProxy, Yahoo)
+// are treated as human.
+export function detectAutomatedRequest(req: Request): string | null {
+  const userAgent = req.headers.get("user-agent")?.trim() ?? "";
+  const ip = requestIp(req);
+
+  if (!userAgent) {
+    return "No user agent";
+  }
+  if (isAppleProxyIp(ip) || userAgent === "Mozilla/5.0") {
+    return "Apple Mail Privacy Protection";
+  }
+  if (AUTOMATED_AGENT.test(userAgent)) {
+    return "Automated user agent";
+  }
+  return null;
+}
@@ -0,0 +1,45 @@
+// _shared/transports/gmail.ts
+// Sends through the Gmail API using an inbox's OAuth access token.
+
+import { base64UrlEncodeUtf8, buildMimeMessage } from "../mime.ts";
+import { isRetryableStatus, MailTransport, SendError } from "./types.ts";
+
+export function createGmailTransport(accessToken: string): MailTransport {
+  return {
+    name: "gmail",
+    async send(message) {
+      const { raw, messageId } = buildMimeMessage(message);
+
+      const response = await fetch("https://gmail.googleapis.com/gmail/v1/users/me/messages/send", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          raw: base64UrlEncodeUtf8(raw),
+          // Gmail only files the message into the thread if the subject matches too
+          ...(message.threadId && { threadId: message.threadId }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error("Error sending email via Gmail API:", errorData);
+        // Gmail reports per-user sending quotas as 403 rather than 429
+        const reasons: string[] = (errorData.error?.errors || []).map((e: { reason?: string }) => e.reason);
+        const isRateLimited = reasons.some((r) => r === "rateLimitExceeded" || r === "userRateLimitExceeded");
+        throw new SendError(
+          `Gmail API error: ${errorData.error?.message || 'Unknown error'}`,
+          isRetryableStatus(response.status) || isRateLimited,
+          response.status,
+          // A 5xx may come after the message was accepted
+          response.status < 500,
+        );
+      }
+
+      const { id, threadId } = await response.json();
+      return { providerMessageId: id, providerThreadId: threadId, messageId };
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// _shared/transports/index.ts
+export * from "./types.ts";
+export { createGmailTransport } from "./gmail.ts";
+export { createMicrosoftGraphTransport } from "./microsoft.ts";
+export { createSmtpTransport } from "./smtp.ts";
+export type { SmtpConfig, SmtpSecurity } from "./smtp.ts";
+export { createSinkTransport } from "./sink.ts";
+export type { SinkTransportOptions } from "./sink.ts";
@@ -0,0 +1,38 @@
+// _shared/transports/microsoft.ts
+// Sends through Microsoft Graph (`/me/sendMail`) using an inbox's OAuth access token.
+// The message is posted as base64 MIME so it carries exactly the headers we render.
+
+import { base64EncodeUtf8, buildMimeMessage } from "../mime.ts";
+import { isRetryableStatus, MailTransport, SendError } from "./types.ts";
+
+export function createMicrosoftGraphTransport(accessToken: string): MailTransport {
+  return {
+    name: "microsoft",
+    async send(message) {
+      const { raw, messageId } = buildMimeMessage(message);
+      const response = await fetch("https://graph.microsoft.com/v1.0/me/sendMail", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "text/plain",
+        },
+        body: base64EncodeUtf8(raw),
+      });
+
+      // Graph answers 202 Accepted with an empty body and no message ID
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error("Error sending email via Microsoft Graph:", errorData);
+        throw new SendError(
+          `Microsoft Graph error: ${errorData.error?.message || 'Unknown error'}`,
+          isRetryableStatus(response.status),
+          response.status,
+          // A 5xx may come after the message was accepted
+          response.status < 500,
+        );
+      }
+
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// _shared/transports/sink.ts
+// Captures fully rendered messages instead of delivering them, so staging and tests
+// can run whole campaigns without touching real mailboxes. Every message is stored in
+// `email_sink_messages`, and also written as an .eml file when EMAIL_SINK_DIR is set.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { buildMimeMessage } from "../mime.ts";
+import { MailTransport, SendError } from "./types.ts";
+
+export interface SinkTransportOptions {
+  userId: string;
+  inboxId: number;
+  queueId?: number;
+  directory?: string;
+}
+
+export function createSinkTransport(supabase: SupabaseClient, options: SinkTransportOptions): MailTransport {
+  return {
+    name: "sink",
+    async send(message) {
+      const { raw: rawMessage, messageId } = buildMimeMessage(message);
+
+      const { data, error } = await supabase
+        .from("email_sink_messages")
+        .insert({
+          user_id: options.userId,
+          inbox_id: options.inboxId,
+          email_queue_id: options.queueId ?? null,
+          mail_from: message.from,
+          rcpt_to: message.to,
+          subject: message.subject,
+          raw_message: rawMessage,
+        })
+        .select("id")
+        .single();
+
+      if (error || !data) {
+        throw new SendError(`Failed to store message in sink: ${error?.message}`, true);
+      }
+
+      if (options.directory) {
+        await Deno.writeTextFile(`${options.directory}/${data.id}.eml`, rawMessage);
+      }
+
+      return { providerMessageId: `sink-${data.id}`, messageId };
+    },
+  };
+}
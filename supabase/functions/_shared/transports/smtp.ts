@@ -0,0 +1,195 @@
+// _shared/transports/smtp.ts
+// A minimal SMTP client for sending through any mail server that accepts
+// authenticated submission (implicit TLS on 465, or STARTTLS on 587).
+
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { buildMimeMessage } from "../mime.ts";
+import { MailTransport, SendError } from "./types.ts";
+
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string;
+  password?: string;
+}
+
+// A stalled server fails the send instead of holding the inbox's dispatcher slot
+const CONNECT_TIMEOUT_MS = 10_000;
+const REPLY_TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Rejects with a retryable SendError when `operation` takes longer than `ms`
+async function withTimeout<T>(operation: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      operation,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new SendError(message, true)), ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function connect(config: SmtpConfig): Promise<Deno.Conn> {
+  const connecting: Promise<Deno.Conn> = config.security === "tls"
+    ? Deno.connectTls({ hostname: config.host, port: config.port })
+    : Deno.connect({ hostname: config.host, port: config.port });
+
+  try {
+    return await withTimeout(connecting, CONNECT_TIMEOUT_MS, `Could not connect to ${config.host}:${config.port} in time.`);
+  } catch (error) {
+    // A connection that opens after the timeout is closed straight away
+    connecting.then((conn) => conn.close(), () => {});
+    throw error;
+  }
+}
+
+class SmtpConnection {
+  private buffer = "";
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  constructor(private conn: Deno.Conn) {}
+
+  async upgradeToTls(hostname: string) {
+    this.conn = await withTimeout(
+      Deno.startTls(this.conn as Deno.TcpConn, { hostname }),
+      REPLY_TIMEOUT_MS,
+      "SMTP server did not complete the TLS handshake in time.",
+    );
+  }
+
+  // Reads one (possibly multi-line) reply: "250-first", "250-second", "250 last"
+  async readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    while (true) {
+      const newline = this.buffer.indexOf("\r\n");
+      if (newline === -1) {
+        const chunk = new Uint8Array(4096);
+        const read = await withTimeout(this.conn.read(chunk), REPLY_TIMEOUT_MS, "SMTP server did not answer in time.");
+        if (read === null) {
+          throw new SendError("SMTP server closed the connection.", true);
+        }
+        this.buffer += this.decoder.decode(chunk.subarray(0, read));
+        continue;
+      }
+
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+
+      if (line[3] !== "-") {
+        return { code: Number(line.slice(0, 3)), text: lines.join(" ") };
+      }
+    }
+  }
+
+  async write(data: string) {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await withTimeout(
+        this.conn.write(bytes.subarray(written)),
+        REPLY_TIMEOUT_MS,
+        "SMTP server stopped accepting data.",
+      );
+    }
+  }
+
+  // Sends a command and fails unless the server answers with one of the expected codes.
+  // 4xx replies are temporary by definition in SMTP, 5xx replies are permanent.
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    await this.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  async expect(expected: number[]): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new SendError(`SMTP error ${reply.code}: ${reply.text}`, reply.code < 500, reply.code, true);
+    }
+    return reply;
+  }
+
+  close() {
+    try {
+      this.conn.close();
+    } catch {
+      // Already closed by the server
+    }
+  }
+}
+
+// Normalizes line endings to CRLF and escapes lines starting with "." (RFC 5321 4.5.2)
+function toSmtpData(rawMessage: string) {
+  return rawMessage
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+}
+
+function addressOnly(address: string) {
+  const match = address.match(/<([^>]+)>/);
+  return match ? match[1] : address.trim();
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      if (!config.host || !config.port) {
+        throw new SendError("SMTP host and port are not configured for this inbox.", false);
+      }
+
+      const authenticate = Boolean(config.username && config.password);
+      if (authenticate && config.security === "none") {
+        throw new SendError("Refusing to send the SMTP password without TLS. Use SSL/TLS or STARTTLS for this inbox.", false);
+      }
+
+      const mailFrom = addressOnly(message.from);
+      const heloName = mailFrom.split("@")[1] || "localhost";
+
+      const smtp = new SmtpConnection(await connect(config));
+
+      try {
+        await smtp.expect([220]);
+        await smtp.command(`EHLO ${heloName}`, [250]);
+
+        if (config.security === "starttls") {
+          await smtp.command("STARTTLS", [220]);
+          await smtp.upgradeToTls(config.host);
+          await smtp.command(`EHLO ${heloName}`, [250]);
+        }
+
+        if (authenticate) {
+          const credentials = encodeBase64(new TextEncoder().encode(`\0${config.username}\0${config.password}`));
+          await smtp.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await smtp.command(`MAIL FROM:<${mailFrom}>`, [250]);
+        await smtp.command(`RCPT TO:<${addressOnly(message.to)}>`, [250, 251]);
+        const { raw, messageId } = buildMimeMessage(message);
+        await smtp.command("DATA", [354]);
+        const reply = await smtp.command(`${toSmtpData(raw.replace(/\r\n$/, ""))}\r\n.`, [250]);
+        await smtp.command("QUIT", [221]).catch(() => {});
+
+        // Most servers answer "250 2.0.0 Ok: queued as <id>"
+        const queuedAs = reply.text.match(/queued as (\S+)/i);
+        return { providerMessageId: queuedAs?.[1], messageId };
+      } finally {
+        smtp.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// _shared/transports/types.ts
+// The contract every mail transport (Gmail API, SMTP, local sink) implements.
+
+export interface OutgoingMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  // Plain-text alternative; derived from `html` when omitted
+  text?: string;
+  // Threading for follow-ups: the Message-ID being replied to, every earlier
+  // Message-ID in the conversation, and the provider's thread (Gmail `threadId`)
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  // Extra headers such as List-Unsubscribe, added verbatim
+  headers?: Record<string, string>;
+}
+
+export interface SendResult {
+  // The provider's ID for the sent message, when it returns one
+  providerMessageId?: string;
+  // The provider's conversation ID (Gmail `threadId`)
+  providerThreadId?: string;
+  // The Message-ID header of the message as sent
+  messageId?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+// A failed send, flagged with whether trying again later could succeed.
+// `record_send_failure` retries retryable failures with backoff and fails the rest.
+// `rejected` means the provider answered and turned the email down, so it certainly
+// wasn't sent; a dropped connection or a timeout leaves that unknown.
+export class SendError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly statusCode?: number,
+    readonly rejected = false,
+  ) {
+    super(message);
+    this.name = "SendError";
+  }
+}
+
+// Rate limits and provider-side errors are transient; other 4xx responses are not
+export function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
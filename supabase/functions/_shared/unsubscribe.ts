@@ -0,0 +1,33 @@
+// _shared/unsubscribe.ts
+// Signed per-recipient unsubscribe links, shared by send-email-worker (which puts them
+// in every email) and the unsubscribe function (which honours them).
+
+import { createSignedToken, verifySignedToken } from "./signing.ts";
+
+const UNSUBSCRIBE_SECRET = Deno.env.get("UNSUBSCRIBE_SECRET");
+// Supabase serves function responses on *.supabase.co as text/plain, so the
+// confirmation page only renders as HTML behind a custom domain or proxy.
+const UNSUBSCRIBE_BASE_URL = Deno.env.get("UNSUBSCRIBE_BASE_URL") ??
+  `${Deno.env.get("SUPABASE_URL")}/functions/v1/unsubscribe`;
+
+export interface UnsubscribeTokenPayload {
+  contact_id: number;
+  campaign_id?: number;
+}
+
+function requireSecret(): string {
+  if (!UNSUBSCRIBE_SECRET) {
+    throw new Error("UNSUBSCRIBE_SECRET is not configured.");
+  }
+  return UNSUBSCRIBE_SECRET;
+}
+
+export async function buildUnsubscribeUrl(payload: UnsubscribeTokenPayload): Promise<string> {
+  const url = new URL(UNSUBSCRIBE_BASE_URL);
+  url.searchParams.set("token", await createSignedToken({ ...payload }, requireSecret()));
+  return url.toString();
+}
+
+export function readUnsubscribeToken(token: string): Promise<UnsubscribeTokenPayload | null> {
+  return verifySignedToken<UnsubscribeTokenPayload>(token, requireSecret());
+}
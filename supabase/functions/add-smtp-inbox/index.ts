@@ -0,0 +1,89 @@
+// Supabase Edge Function: add-smtp-inbox
+// Adds an SMTP (or local sink) inbox for the calling user. The SMTP password is
+// encrypted here before it is stored (see `_shared/crypto.ts`), so it never reaches the
+// database, or the browser again, in plain text. `send-email-worker` decrypts it when
+// it connects to the server.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { encryptSecret } from "../_shared/crypto.ts";
+
+const SMTP_SECURITY = ["tls", "starttls", "none"];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { email, provider, host, port, security, username, password } = await req.json();
+
+    if (!email || (provider !== "smtp" && provider !== "sink")) {
+      return respond({ error: "Missing required fields" }, 400);
+    }
+    if (provider === "smtp" && (!host || !Number.isInteger(port) || !SMTP_SECURITY.includes(security))) {
+      return respond({ error: "Missing or invalid SMTP settings" }, 400);
+    }
+    // The SMTP transport never sends a password over an unencrypted connection
+    if (provider === "smtp" && password && security === "none") {
+      return respond({ error: "An SMTP password can only be used with SSL/TLS or STARTTLS." }, 400);
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return respond({ error: "User not authenticated" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data, error: insertError } = await supabase
+      .from("inboxes")
+      .insert({
+        user_id: user.id,
+        email,
+        provider,
+        is_connected: true,
+        ...(provider === "smtp" && {
+          smtp_host: host,
+          smtp_port: port,
+          smtp_security: security,
+          smtp_username: username || null,
+          smtp_password: password ? await encryptSecret(password) : null,
+        }),
+      })
+      .select("id, email")
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return respond({ error: "This inbox is already connected." }, 409);
+      }
+      throw new Error(insertError.message);
+    }
+
+    return respond({ inbox: data }, 200);
+  } catch (error) {
+    console.error("Add-smtp-inbox error:", error.message);
+    return respond({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,133 @@
+// email-dispatcher/dispatcher.ts
+// Sends the email queue in batches: claim a batch, send it, write the results back,
+// repeat until the queue is empty or the run's time budget is spent. Emails from
+// different inboxes go out concurrently; emails from the same inbox go out one at a
+// time, so no inbox bursts at its provider. Storage and sending are passed in, so the
+// loop can run against a local Postgres and a fake sender.
+
+// An email `prepare_email_batch` has claimed and cleared for sending
+export interface PreparedEmail {
+  queueId: number;
+  inboxId: number;
+  contactEmail: string;
+  subject: string;
+  body: string;
+  inReplyTo: string | null;
+  references: string | null;
+  threadId: string | null;
+  idempotencyKey: string;
+}
+
+// One send outcome, in the shape `record_email_batch_results` expects
+export interface DispatchResult {
+  queue_id: number;
+  ok: boolean;
+  // The worker found an earlier send of this email; it doesn't count towards the daily limit again
+  duplicate?: boolean;
+  provider_message_id?: string | null;
+  provider_thread_id?: string | null;
+  message_id?: string | null;
+  error?: string;
+  retryable?: boolean;
+  provider_status?: number | null;
+}
+
+export interface DispatchStore {
+  claimBatch(batchSize: number): Promise<PreparedEmail[]>;
+  recordResults(results: DispatchResult[]): Promise<void>;
+}
+
+export interface EmailSender {
+  // Never throws: failures come back as a result with `ok: false`
+  send(email: PreparedEmail): Promise<DispatchResult>;
+}
+
+export interface DispatchOptions {
+  batchSize?: number;
+  // How many inboxes send at the same time
+  maxConcurrentInboxes?: number;
+  // No new batch is claimed once this much time has passed
+  timeBudgetMs?: number;
+  now?: () => number;
+}
+
+export interface DispatchSummary {
+  batches: number;
+  sent: number;
+  failed: number;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_CONCURRENT_INBOXES = 10;
+// Leaves room for the last batch to finish well inside the one-minute cron interval
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+
+function groupByInbox(emails: PreparedEmail[]): PreparedEmail[][] {
+  const byInbox = new Map<number, PreparedEmail[]>();
+  for (const email of emails) {
+    const group = byInbox.get(email.inboxId);
+    if (group) {
+      group.push(email);
+    } else {
+      byInbox.set(email.inboxId, [email]);
+    }
+  }
+  return Array.from(byInbox.values());
+}
+
+// Sends a batch with at most `maxConcurrentInboxes` inboxes in flight, each inbox's
+// emails in order
+export async function sendBatch(
+  emails: PreparedEmail[],
+  sender: EmailSender,
+  maxConcurrentInboxes = DEFAULT_MAX_CONCURRENT_INBOXES,
+): Promise<DispatchResult[]> {
+  const pending = groupByInbox(emails);
+  const results: DispatchResult[] = [];
+
+  const drainInboxes = async () => {
+    let inboxEmails: PreparedEmail[] | undefined;
+    while ((inboxEmails = pending.shift())) {
+      for (const email of inboxEmails) {
+        results.push(await sender.send(email));
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(maxConcurrentInboxes, pending.length));
+  await Promise.all(Array.from({ length: lanes }, drainInboxes));
+  return results;
+}
+
+export async function dispatchQueue(
+  store: DispatchStore,
+  sender: EmailSender,
+  options: DispatchOptions = {},
+): Promise<DispatchSummary> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const summary: DispatchSummary = { batches: 0, sent: 0, failed: 0 };
+
+  while (now() - startedAt < timeBudgetMs) {
+    const emails = await store.claimBatch(batchSize);
+    if (emails.length === 0) {
+      break;
+    }
+
+    const results = await sendBatch(emails, sender, options.maxConcurrentInboxes);
+    await store.recordResults(results);
+
+    summary.batches += 1;
+    for (const result of results) {
+      if (result.ok) {
+        summary.sent += 1;
+      } else {
+        summary.failed += 1;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,138 @@
+// email-dispatcher/dispatcher_test.ts
+// Runs the dispatch loop against an in-memory queue and a fake sender.
+// Run with: deno test supabase/functions/email-dispatcher/dispatcher_test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { DispatchResult, DispatchStore, dispatchQueue, EmailSender, PreparedEmail, sendBatch } from "./dispatcher.ts";
+
+function email(queueId: number, inboxId: number): PreparedEmail {
+  return {
+    queueId,
+    inboxId,
+    contactEmail: `contact${queueId}@example.com`,
+    subject: "Hello",
+    body: "Hi there",
+    inReplyTo: null,
+    references: null,
+    threadId: null,
+    idempotencyKey: `key-${queueId}`,
+  };
+}
+
+// Hands out the queue `batchSize` emails at a time and keeps every recorded result
+function memoryStore(queue: PreparedEmail[]) {
+  const remaining = [...queue];
+  const recorded: DispatchResult[][] = [];
+  const store: DispatchStore = {
+    claimBatch: (batchSize) => Promise.resolve(remaining.splice(0, batchSize)),
+    recordResults: (results) => {
+      recorded.push(results);
+      return Promise.resolve();
+    },
+  };
+  return { store, recorded };
+}
+
+// Succeeds unless the email is listed in `failing`, and tracks how many sends overlap
+function fakeSender(failing: number[] = []) {
+  const sent: PreparedEmail[] = [];
+  const inFlight = new Set<number>();
+  let maxInFlight = 0;
+  let sameInboxOverlap = false;
+
+  const sender: EmailSender = {
+    async send(email) {
+      if (inFlight.has(email.inboxId)) {
+        sameInboxOverlap = true;
+      }
+      inFlight.add(email.inboxId);
+      maxInFlight = Math.max(maxInFlight, inFlight.size);
+
+      // Let the other lanes start before this send finishes
+      await new Promise((resolve) => setTimeout(resolve, 1));
+
+      inFlight.delete(email.inboxId);
+      sent.push(email);
+      return failing.includes(email.queueId)
+        ? { queue_id: email.queueId, ok: false, error: "Mailbox unavailable", retryable: false, provider_status: 550 }
+        : { queue_id: email.queueId, ok: true, provider_message_id: `provider-${email.queueId}` };
+    },
+  };
+
+  return {
+    sender,
+    sent,
+    get maxInFlight() {
+      return maxInFlight;
+    },
+    get sameInboxOverlap() {
+      return sameInboxOverlap;
+    },
+  };
+}
+
+Deno.test("dispatchQueue drains the queue in batches", async () => {
+  const queue = Array.from({ length: 5 }, (_, i) => email(i + 1, i + 1));
+  const { store, recorded } = memoryStore(queue);
+  const fake = fakeSender();
+
+  const summary = await dispatchQueue(store, fake.sender, { batchSize: 2 });
+
+  assertEquals(summary, { batches: 3, sent: 5, failed: 0 });
+  assertEquals(recorded.map((results) => results.length), [2, 2, 1]);
+  assertEquals(fake.sent.map((e) => e.queueId).sort(), [1, 2, 3, 4, 5]);
+});
+
+Deno.test("dispatchQueue records failed sends with their error", async () => {
+  const { store, recorded } = memoryStore([email(1, 1), email(2, 2), email(3, 3)]);
+  const fake = fakeSender([2]);
+
+  const summary = await dispatchQueue(store, fake.sender);
+
+  assertEquals(summary, { batches: 1, sent: 2, failed: 1 });
+  const failed = recorded.flat().find((result) => result.queue_id === 2);
+  assertEquals(failed, { queue_id: 2, ok: false, error: "Mailbox unavailable", retryable: false, provider_status: 550 });
+});
+
+Deno.test("dispatchQueue stops claiming once the time budget is spent", async () => {
+  const queue = Array.from({ length: 10 }, (_, i) => email(i + 1, 1));
+  const { store } = memoryStore(queue);
+  const fake = fakeSender();
+
+  // Each batch costs 20 seconds of fake time: the third one starts at 40s, the fourth would start at 60s
+  let clock = 0;
+  const recordResults = store.recordResults;
+  store.recordResults = (results) => {
+    clock += 20_000;
+    return recordResults(results);
+  };
+
+  const summary = await dispatchQueue(store, fake.sender, { batchSize: 2, timeBudgetMs: 45_000, now: () => clock });
+
+  assertEquals(summary, { batches: 3, sent: 6, failed: 0 });
+  assertEquals(fake.sent.length, 6);
+});
+
+Deno.test("sendBatch sends one email at a time per inbox, in order", async () => {
+  const emails = [email(1, 1), email(2, 2), email(3, 1), email(4, 2), email(5, 1)];
+  const fake = fakeSender();
+
+  const results = await sendBatch(emails, fake.sender);
+
+  assertEquals(results.length, 5);
+  assert(!fake.sameInboxOverlap, "two emails from one inbox were in flight together");
+  assertEquals(fake.maxInFlight, 2);
+  assertEquals(fake.sent.filter((e) => e.inboxId === 1).map((e) => e.queueId), [1, 3, 5]);
+  assertEquals(fake.sent.filter((e) => e.inboxId === 2).map((e) => e.queueId), [2, 4]);
+});
+
+Deno.test("sendBatch keeps at most maxConcurrentInboxes inboxes in flight", async () => {
+  const emails = Array.from({ length: 12 }, (_, i) => email(i + 1, (i % 6) + 1));
+  const fake = fakeSender();
+
+  const results = await sendBatch(emails, fake.sender, 3);
+
+  assertEquals(results.length, 12);
+  assertEquals(fake.maxInFlight, 3);
+  assert(!fake.sameInboxOverlap, "two emails from one inbox were in flight together");
+});
@@ -0,0 +1,54 @@
+// Supabase Edge Function: email-dispatcher
+// Sends every email in `email_queue` that is due: claims batches with
+// `prepare_email_batch`, sends them through `send-email-worker` (one email at a time
+// per inbox, several inboxes at once) and writes the outcomes back with
+// `record_email_batch_results`. Invoked every minute by the `dispatch-email-queue-job`
+// cron job.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { dispatchQueue } from "./dispatcher.ts";
+import { createPostgresDispatchStore, loadDispatchSettings } from "./store.ts";
+import { createWorkerSender } from "./sender.ts";
+
+// Enough connections for a claim and a write-back; sends don't hold one
+const pool = new Pool(Deno.env.get("SUPABASE_DB_URL")!, 2, true);
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const bearerToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearerToken || bearerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const settings = await loadDispatchSettings(pool);
+    const store = createPostgresDispatchStore(pool, settings.leaseDuration);
+    const sender = createWorkerSender(
+      `${settings.functionsUrl}/send-email-worker`,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      settings.leaseDuration,
+    );
+
+    const summary = await dispatchQueue(store, sender, settings.options);
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Email-dispatcher error:", error.message);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
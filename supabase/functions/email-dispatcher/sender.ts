@@ -0,0 +1,64 @@
+// email-dispatcher/sender.ts
+// Sends through `send-email-worker`, which owns inbox credentials, tracking and the
+// idempotency check. Its responses become the results `record_email_batch_results` records.
+
+import { DispatchResult, EmailSender, PreparedEmail } from "./dispatcher.ts";
+
+// `leaseDuration` is the lease emails are claimed with; the worker won't take over an
+// unfinished send of the same email before it runs out
+export function createWorkerSender(workerUrl: string, serviceRoleKey: string, leaseDuration: string): EmailSender {
+  return {
+    async send(email: PreparedEmail): Promise<DispatchResult> {
+      try {
+        const response = await fetch(workerUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${serviceRoleKey}`,
+          },
+          body: JSON.stringify({
+            queue_id: email.queueId,
+            inbox_id: email.inboxId,
+            contact_email: email.contactEmail,
+            subject: email.subject,
+            body: email.body,
+            in_reply_to: email.inReplyTo,
+            references: email.references,
+            thread_id: email.threadId,
+            idempotency_key: email.idempotencyKey,
+            lease_duration: leaseDuration,
+          }),
+        });
+        const content = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          return {
+            queue_id: email.queueId,
+            ok: false,
+            error: content.error || `HTTP ${response.status}`,
+            retryable: content.retryable ?? (response.status === 429 || response.status >= 500),
+            provider_status: content.provider_status ?? response.status,
+          };
+        }
+
+        return {
+          queue_id: email.queueId,
+          ok: true,
+          duplicate: content.duplicate === true,
+          provider_message_id: content.provider_message_id ?? null,
+          provider_thread_id: content.provider_thread_id ?? null,
+          message_id: content.message_id ?? null,
+        };
+      } catch (error) {
+        // The worker could not be reached at all, which is always transient
+        return {
+          queue_id: email.queueId,
+          ok: false,
+          error: `Edge function error: ${error.message}`,
+          retryable: true,
+          provider_status: null,
+        };
+      }
+    },
+  };
+}
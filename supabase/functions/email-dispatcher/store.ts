@@ -0,0 +1,107 @@
+// email-dispatcher/store.ts
+// Claims batches and records results with plain SQL, so the dispatcher needs nothing
+// but a connection string and can be pointed at a local Postgres.
+
+import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { DispatchOptions, DispatchResult, DispatchStore, PreparedEmail } from "./dispatcher.ts";
+
+interface PreparedEmailRow {
+  queue_id: bigint;
+  inbox_id: bigint;
+  contact_email: string;
+  subject: string;
+  body: string;
+  in_reply_to: string | null;
+  message_references: string | null;
+  thread_id: string | null;
+  idempotency_key: string;
+}
+
+export interface DispatchSettings {
+  options: DispatchOptions;
+  functionsUrl: string;
+  leaseDuration: string;
+}
+
+// Reads the dispatcher's configuration from `worker_settings`, so it can be tuned
+// without redeploying the function
+export async function loadDispatchSettings(pool: Pool): Promise<DispatchSettings> {
+  const connection = await pool.connect();
+  try {
+    const { rows } = await connection.queryObject<{ key: string; value: string }>(
+      "SELECT key, value FROM worker_settings",
+    );
+    const settings = new Map<string, string>(rows.map((row) => [row.key, row.value]));
+    // A value that isn't a positive whole number falls back to the dispatcher's default
+    const numberSetting = (key: string) => {
+      if (!settings.has(key)) {
+        return undefined;
+      }
+      const value = Number(settings.get(key));
+      if (!Number.isInteger(value) || value <= 0) {
+        console.error(`Ignoring worker setting ${key}: "${settings.get(key)}" is not a positive whole number.`);
+        return undefined;
+      }
+      return value;
+    };
+
+    return {
+      options: {
+        batchSize: numberSetting("dispatcher_batch_size"),
+        maxConcurrentInboxes: numberSetting("dispatcher_max_concurrent_inboxes"),
+        timeBudgetMs: numberSetting("dispatcher_time_budget_ms"),
+      },
+      functionsUrl: (settings.get("functions_url") ?? `${Deno.env.get("SUPABASE_URL")}/functions/v1`).replace(/\/+$/, ""),
+      leaseDuration: settings.get("send_lease") ?? "10 minutes",
+    };
+  } finally {
+    connection.release();
+  }
+}
+
+export function createPostgresDispatchStore(pool: Pool, leaseDuration = "10 minutes"): DispatchStore {
+  return {
+    async claimBatch(batchSize) {
+      const connection = await pool.connect();
+      try {
+        const { rows } = await connection.queryObject<PreparedEmailRow>(
+          "SELECT * FROM prepare_email_batch($1, $2::INTERVAL)",
+          [batchSize, leaseDuration],
+        );
+        return rows.map((row): PreparedEmail => ({
+          queueId: Number(row.queue_id),
+          inboxId: Number(row.inbox_id),
+          contactEmail: row.contact_email,
+          subject: row.subject,
+          body: row.body,
+          inReplyTo: row.in_reply_to,
+          references: row.message_references,
+          threadId: row.thread_id,
+          idempotencyKey: row.idempotency_key,
+        }));
+      } finally {
+        connection.release();
+      }
+    },
+
+    async recordResults(results: DispatchResult[]) {
+      if (results.length === 0) {
+        return;
+      }
+      const connection = await pool.connect();
+      try {
+        const { rows } = await connection.queryObject<{ queue_id: bigint; status: string }>(
+          "SELECT * FROM record_email_batch_results($1::JSONB)",
+          [JSON.stringify(results)],
+        );
+        for (const row of rows) {
+          if (row.status.startsWith("error")) {
+            console.error(`Could not record the result for email ${row.queue_id}: ${row.status}`);
+          }
+        }
+      } finally {
+        connection.release();
+      }
+    },
+  };
+}
@@ -1,9 +1,10 @@
 // Supabase Edge Function: google-auth-callback
 // This function handles the redirect from Google's OAuth 2.0 consent screen.
-// It exchanges the authorization code for access and refresh tokens and saves them.
+// It exchanges the authorization code for access and refresh tokens and saves them encrypted.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { encryptSecret } from "../_shared/crypto.ts";
 
 const GOOGLE_CLIENT_ID = Deno.env.get("GOOGLE_CLIENT_ID");
 const GOOGLE_CLIENT_SECRET = Deno.env.get("GOOGLE_CLIENT_SECRET");
@@ -120,20 +121,23 @@ serve(async (req) => {
           email: inboxEmail,
           provider: 'google',
           provider_id: providerId,
-          access_token: access_token,
-          refresh_token: refresh_token,
+          access_token: await encryptSecret(access_token),
+          refresh_token: refresh_token ? await encryptSecret(refresh_token) : undefined,
           expires_at: expires_at.toISOString(),
           is_connected: true,
         },
         { onConflict: 'user_id,email', ignoreDuplicates: false } // Update if inbox email already exists for this user
       )
-      .select();
+      .select("id");
 
     if (dbError) {
-      console.error("Error saving inbox credentials:", dbError);
+      console.error("Error saving inbox credentials:", dbError.message);
       throw new Error("Failed to save inbox credentials.");
     }
 
+    // A reconnected inbox that was in error goes back into rotation with its held emails
+    await supabaseAdmin.rpc("mark_inbox_healthy", { target_inbox_id: data[0].id });
+
     return new Response(null, {
       status: 302,
       headers: { Location: `${FRONTEND_URL}/inbox-connect?success=true&email=${inboxEmail}` },
@@ -40,6 +40,8 @@ async function handler(req: Request): Promise<Response> {
   authUrl.searchParams.set("response_type", "code");
   authUrl.searchParams.set("scope", [
     "https://www.googleapis.com/auth/gmail.send",
+    // Read access lets reply-sync-worker pick up replies to campaign emails
+    "https://www.googleapis.com/auth/gmail.readonly",
     "https://www.googleapis.com/auth/userinfo.email",
     "https://www.googleapis.com/auth/userinfo.profile",
   ].join(" "));
@@ -0,0 +1,153 @@
+// Supabase Edge Function: inbox-health-check
+// Checks every connected Google and Microsoft inbox: that its tokens still work (which
+// refreshes them when they have expired) and that they still grant permission to send
+// email. Inboxes that fail are put in `error` with the reason and their queued emails
+// are held (see `mark_inbox_unhealthy`); inboxes in error that pass again are released.
+// Provider outages and network errors don't count either way.
+// Invoked every 15 minutes by the `check-inbox-health-job` cron job.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { CredentialError, getOAuthAccessToken } from "../_shared/oauth.ts";
+import { isRetryableStatus } from "../_shared/transports/types.ts";
+
+const GMAIL_SEND_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.send",
+  "https://www.googleapis.com/auth/gmail.compose",
+  "https://mail.google.com/",
+];
+
+// The reason an inbox can't send, or null when it can
+type HealthCheckResult = string | null;
+
+async function checkGoogleToken(accessToken: string): Promise<HealthCheckResult> {
+  // Posted rather than put in the URL, so the token stays out of request logs
+  const response = await fetch("https://oauth2.googleapis.com/tokeninfo", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ access_token: accessToken }).toString(),
+  });
+  if (isRetryableStatus(response.status)) {
+    throw new Error(`Google token check failed with ${response.status}`);
+  }
+  if (!response.ok) {
+    return "Google no longer accepts this inbox's access. Reconnect it to keep sending.";
+  }
+
+  const { scope = "" } = await response.json();
+  const granted = scope.split(" ");
+  if (!GMAIL_SEND_SCOPES.some((required) => granted.includes(required))) {
+    return "This inbox no longer allows sending email. Reconnect it and grant permission to send.";
+  }
+  return null;
+}
+
+// Graph tokens for work accounts are JWTs listing their scopes in `scp`; tokens for
+// personal accounts are opaque, so only the profile call is checked for those
+function microsoftTokenScopes(accessToken: string): string[] | null {
+  const [, payload] = accessToken.split(".");
+  if (!payload) {
+    return null;
+  }
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(new TextDecoder().decode(decodeBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4))));
+    return typeof claims.scp === "string" ? claims.scp.split(" ") : null;
+  } catch {
+    return null;
+  }
+}
+
+async function checkMicrosoftToken(accessToken: string): Promise<HealthCheckResult> {
+  const response = await fetch("https://graph.microsoft.com/v1.0/me", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (isRetryableStatus(response.status)) {
+    throw new Error(`Microsoft Graph check failed with ${response.status}`);
+  }
+  if (!response.ok) {
+    return "Microsoft no longer accepts this inbox's access. Reconnect it to keep sending.";
+  }
+
+  const scopes = microsoftTokenScopes(accessToken);
+  if (scopes && !scopes.some((scope) => scope.toLowerCase() === "mail.send")) {
+    return "This inbox no longer allows sending email. Reconnect it and grant permission to send.";
+  }
+  return null;
+}
+
+async function checkInbox(supabase: SupabaseClient, inbox: any): Promise<HealthCheckResult> {
+  let accessToken: string;
+  try {
+    accessToken = await getOAuthAccessToken(supabase, inbox.id, inbox);
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return `${error.message} Reconnect this inbox to keep sending.`;
+    }
+    throw error;
+  }
+
+  return inbox.provider === "microsoft" ? checkMicrosoftToken(accessToken) : checkGoogleToken(accessToken);
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const bearerToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearerToken || bearerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: inboxes, error: fetchError } = await supabase
+    .from("inboxes")
+    .select("id, email, provider, access_token, refresh_token, expires_at")
+    .in("provider", ["google", "microsoft"])
+    .eq("is_connected", true);
+
+  if (fetchError) {
+    console.error("Inbox-health-check error:", fetchError.message);
+    return new Response(JSON.stringify({ error: fetchError.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const results = [];
+  for (const inbox of inboxes ?? []) {
+    try {
+      const failureReason = await checkInbox(supabase, inbox);
+      const { error: recordError } = await supabase.rpc("record_inbox_health_check", {
+        target_inbox_id: inbox.id,
+        is_healthy: failureReason === null,
+        failure_reason: failureReason,
+      });
+      if (recordError) {
+        throw new Error(recordError.message);
+      }
+      results.push({ inbox_id: inbox.id, healthy: failureReason === null, reason: failureReason });
+    } catch (error) {
+      // Not the inbox's fault (or not known to be), so its status is left alone
+      console.error(`Health check failed for ${inbox.email}:`, error.message);
+      results.push({ inbox_id: inbox.id, error: error.message });
+    }
+  }
+
+  return new Response(JSON.stringify({ inboxes: results }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+});
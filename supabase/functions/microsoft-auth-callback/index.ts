@@ -0,0 +1,156 @@
+// Supabase Edge Function: microsoft-auth-callback
+// This function handles the redirect from the Microsoft identity platform consent screen.
+// It exchanges the authorization code for access and refresh tokens and saves them encrypted.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { MICROSOFT_SCOPES, microsoftTokenUrl } from "../_shared/oauth.ts";
+import { encryptSecret } from "../_shared/crypto.ts";
+
+const MICROSOFT_CLIENT_ID = Deno.env.get("MICROSOFT_CLIENT_ID");
+const MICROSOFT_CLIENT_SECRET = Deno.env.get("MICROSOFT_CLIENT_SECRET");
+const MICROSOFT_REDIRECT_URI = Deno.env.get("MICROSOFT_REDIRECT_URI");
+const FRONTEND_URL = Deno.env.get("FRONTEND_URL"); // Your frontend URL for redirection
+
+serve(async (req) => {
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (!MICROSOFT_CLIENT_ID || !MICROSOFT_CLIENT_SECRET || !MICROSOFT_REDIRECT_URI || !FRONTEND_URL) {
+    return new Response(
+      JSON.stringify({ error: "Microsoft OAuth credentials or frontend URL are not configured." }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const url = new URL(req.url);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state"); // This should be the user_id
+  const errorParam = url.searchParams.get("error");
+
+  if (errorParam) {
+    console.error("Microsoft OAuth error:", errorParam, url.searchParams.get("error_description"));
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `${FRONTEND_URL}/inbox-connect?error=${errorParam}` },
+    });
+  }
+
+  if (!code || !state) {
+    return new Response(
+      JSON.stringify({ error: "Missing code or state parameter." }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // Initialize Supabase client with the user's auth token to validate the JWT
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: `Bearer ${state}` } } }
+  );
+
+  // Verify state (CSRF protection) - the state is the user's JWT
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    console.error("Authentication error:", userError?.message);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `${FRONTEND_URL}/inbox-connect?error=authentication_failed` },
+    });
+  }
+
+  // Now, create a service role client to perform admin tasks
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  try {
+    // Exchange authorization code for tokens
+    const tokenResponse = await fetch(microsoftTokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: MICROSOFT_CLIENT_ID,
+        client_secret: MICROSOFT_CLIENT_SECRET,
+        code: code,
+        redirect_uri: MICROSOFT_REDIRECT_URI,
+        grant_type: "authorization_code",
+        scope: MICROSOFT_SCOPES.join(" "),
+      }).toString(),
+    });
+
+    if (!tokenResponse.ok) {
+      const errorData = await tokenResponse.json();
+      console.error("Error exchanging code for tokens:", errorData);
+      throw new Error("Failed to exchange code for tokens.");
+    }
+
+    const { access_token, refresh_token, expires_in } = await tokenResponse.json();
+    const expires_at = new Date(Date.now() + expires_in * 1000);
+
+    // Get user info (email and profile)
+    const userInfoResponse = await fetch("https://graph.microsoft.com/v1.0/me?$select=id,mail,userPrincipalName", {
+      headers: { Authorization: `Bearer ${access_token}` },
+    });
+
+    if (!userInfoResponse.ok) {
+      const errorData = await userInfoResponse.json();
+      console.error("Error fetching user info:", errorData);
+      throw new Error("Failed to fetch user info.");
+    }
+
+    const userInfo = await userInfoResponse.json();
+    // `mail` is empty for some accounts; the sign-in name is then the mailbox address
+    const inboxEmail = userInfo.mail || userInfo.userPrincipalName;
+    const providerId = userInfo.id; // Microsoft Graph user ID
+
+    if (!inboxEmail) {
+      throw new Error("Could not retrieve email from Microsoft profile.");
+    }
+
+    // Save tokens and inbox info to the database
+    const { data, error: dbError } = await supabaseAdmin
+      .from("inboxes")
+      .upsert(
+        {
+          user_id: user.id,
+          email: inboxEmail,
+          provider: 'microsoft',
+          provider_id: providerId,
+          access_token: await encryptSecret(access_token),
+          refresh_token: refresh_token ? await encryptSecret(refresh_token) : undefined,
+          expires_at: expires_at.toISOString(),
+          is_connected: true,
+        },
+        { onConflict: 'user_id,email', ignoreDuplicates: false } // Update if inbox email already exists for this user
+      )
+      .select("id");
+
+    if (dbError) {
+      console.error("Error saving inbox credentials:", dbError.message);
+      throw new Error("Failed to save inbox credentials.");
+    }
+
+    // A reconnected inbox that was in error goes back into rotation with its held emails
+    await supabaseAdmin.rpc("mark_inbox_healthy", { target_inbox_id: data[0].id });
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `${FRONTEND_URL}/inbox-connect?success=true&email=${inboxEmail}` },
+    });
+
+  } catch (error) {
+    console.error("OAuth callback error:", error.message);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: `${FRONTEND_URL}/inbox-connect?error=${encodeURIComponent(error.message)}` },
+    });
+  }
+});
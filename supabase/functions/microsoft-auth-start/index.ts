@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { MICROSOFT_SCOPES } from "../_shared/oauth.ts";
+
+const MICROSOFT_CLIENT_ID = Deno.env.get("MICROSOFT_CLIENT_ID");
+const MICROSOFT_REDIRECT_URI = Deno.env.get("MICROSOFT_REDIRECT_URI");
+// 'common' accepts both work/school (Microsoft 365) and personal Outlook accounts
+const MICROSOFT_TENANT_ID = Deno.env.get("MICROSOFT_TENANT_ID") ?? "common";
+
+// The main logic of the function
+async function handler(req: Request): Promise<Response> {
+  // This is needed to invoke the function as a user
+  const client = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+  );
+
+  const { data: { user } } = await client.auth.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!MICROSOFT_CLIENT_ID || !MICROSOFT_REDIRECT_URI) {
+    return new Response(
+      JSON.stringify({ error: "Microsoft OAuth credentials are not configured." }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const authHeader = req.headers.get('Authorization')!;
+  const jwt = authHeader.replace('Bearer ', '');
+  const state = jwt; // Use user's JWT as state to prevent CSRF
+
+  const authUrl = new URL(`https://login.microsoftonline.com/${MICROSOFT_TENANT_ID}/oauth2/v2.0/authorize`);
+  authUrl.searchParams.set("client_id", MICROSOFT_CLIENT_ID);
+  authUrl.searchParams.set("redirect_uri", MICROSOFT_REDIRECT_URI);
+  authUrl.searchParams.set("response_type", "code");
+  authUrl.searchParams.set("response_mode", "query");
+  authUrl.searchParams.set("scope", MICROSOFT_SCOPES.join(" "));
+  authUrl.searchParams.set("prompt", "select_account");
+  authUrl.searchParams.set("state", state);
+
+  return new Response(JSON.stringify({ authUrl: authUrl.toString() }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Serve the handler with a CORS wrapper
+serve(async (req) => {
+  // Handle preflight OPTIONS request
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Handle the actual request
+    const response = await handler(req);
+    // Add CORS headers to the response
+    for (const [key, value] of Object.entries(corsHeaders)) {
+      response.headers.set(key, value);
+    }
+    return response;
+  } catch (e) {
+    // Add CORS headers to the error response
+    return new Response(JSON.stringify({ error: e.message }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    });
+  }
+});
@@ -0,0 +1,99 @@
+// Supabase Edge Function: reencrypt-credentials
+// Encrypts every stored inbox credential (OAuth tokens and SMTP passwords) that is still
+// in plain text or encrypted under a key that is no longer first in
+// `TOKEN_ENCRYPTION_KEYS`, so encryption at rest and key rotation don't wait for each
+// inbox to send or sync. Invoked daily by the `reencrypt-credentials-job` cron job, and
+// can be run by hand after rotating the key (see supabase/migrations/README.md).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { decryptSecret, encryptSecret, needsReencryption } from "../_shared/crypto.ts";
+
+const CREDENTIAL_COLUMNS = ["access_token", "refresh_token", "smtp_password"] as const;
+const PAGE_SIZE = 100;
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const bearerToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearerToken || bearerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  let checked = 0;
+  let reencrypted = 0;
+  const failures = [];
+  let lastId = 0;
+
+  while (true) {
+    const { data: inboxes, error: fetchError } = await supabase
+      .from("inboxes")
+      .select(`id, email, ${CREDENTIAL_COLUMNS.join(", ")}`)
+      .or(CREDENTIAL_COLUMNS.map((column) => `${column}.not.is.null`).join(","))
+      .gt("id", lastId)
+      .order("id")
+      .limit(PAGE_SIZE);
+
+    if (fetchError) {
+      console.error("Reencrypt-credentials error:", fetchError.message);
+      return new Response(JSON.stringify({ error: fetchError.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (!inboxes || inboxes.length === 0) {
+      break;
+    }
+
+    for (const inbox of inboxes as any[]) {
+      lastId = inbox.id;
+      checked++;
+
+      try {
+        const changes: Record<string, string> = {};
+        for (const column of CREDENTIAL_COLUMNS) {
+          if (await needsReencryption(inbox[column])) {
+            changes[column] = await encryptSecret(await decryptSecret(inbox[column]));
+          }
+        }
+        if (Object.keys(changes).length === 0) {
+          continue;
+        }
+
+        // Only overwrite values that haven't changed since they were read, e.g. by a
+        // token refresh in send-email-worker
+        let update = supabase.from("inboxes").update(changes).eq("id", inbox.id);
+        for (const column of Object.keys(changes)) {
+          update = update.eq(column, inbox[column]);
+        }
+        const { error: updateError } = await update;
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+        reencrypted++;
+      } catch (error) {
+        // e.g. encrypted under a key that has already been removed from the secret
+        console.error(`Could not re-encrypt the credentials of ${inbox.email}:`, error.message);
+        failures.push({ inbox_id: inbox.id, error: error.message });
+      }
+    }
+  }
+
+  return new Response(JSON.stringify({ checked, reencrypted, failures }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,278 @@
+// Supabase Edge Function: reply-sync-worker
+// Polls every connected Gmail inbox for new inbound messages and stores the ones that
+// answer campaign emails in `replies` (see `record_inbound_reply`). Delivery failure
+// notices are recorded as bounces instead (see `record_bounce`). Each run continues
+// from the inbox's last Gmail history ID; inboxes syncing for the first time, or whose
+// history ID has expired, are backfilled from recent inbox messages instead.
+// Invoked every five minutes by the `sync-inbox-replies-job` cron job.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { getOAuthAccessToken } from "../_shared/oauth.ts";
+import { InboundMessage, InboundMessagePart, parseBounce } from "../_shared/dsn.ts";
+
+const GMAIL_API_URL = "https://gmail.googleapis.com/gmail/v1/users/me";
+const BACKFILL_QUERY = "in:inbox newer_than:14d";
+const BACKFILL_LIMIT = 100;
+
+class GmailApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "GmailApiError";
+  }
+}
+
+async function gmailGet(accessToken: string, path: string, params: Record<string, string> = {}) {
+  const url = new URL(`${GMAIL_API_URL}${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new GmailApiError(`Gmail API error: ${errorData.error?.message || response.status}`, response.status);
+  }
+  return response.json();
+}
+
+interface GmailMessagePart {
+  mimeType?: string;
+  headers?: { name: string; value: string }[];
+  body?: { data?: string };
+  parts?: GmailMessagePart[];
+}
+
+function decodeBase64Url(data: string): string {
+  const base64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  return new TextDecoder().decode(decodeBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4)));
+}
+
+function findPart(part: GmailMessagePart, mimeType: string): GmailMessagePart | undefined {
+  if (part.mimeType === mimeType && part.body?.data) {
+    return part;
+  }
+  for (const child of part.parts ?? []) {
+    const found = findPart(child, mimeType);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// Prefers the plain-text body; ResponseManager sanitizes HTML bodies before showing them
+function extractBody(payload: GmailMessagePart): string {
+  const part = findPart(payload, "text/plain") ?? findPart(payload, "text/html");
+  return part?.body?.data ? decodeBase64Url(part.body.data) : "";
+}
+
+const getHeader = (payload: GmailMessagePart, name: string) =>
+  payload.headers?.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value ?? null;
+
+// Flattens the part tree for the bounce parser. Gmail unpacks attached messages
+// (message/rfc822) into parts of their own, so their headers are rebuilt as text.
+function collectParts(part: GmailMessagePart, parts: InboundMessagePart[] = []): InboundMessagePart[] {
+  if (part.mimeType === "message/rfc822" && !part.body?.data && part.parts?.[0]?.headers) {
+    const headerText = part.parts[0].headers.map((h) => `${h.name}: ${h.value}`).join("\n");
+    parts.push({ mimeType: "text/rfc822-headers", content: headerText });
+  } else if (part.body?.data) {
+    parts.push({ mimeType: part.mimeType ?? "text/plain", content: decodeBase64Url(part.body.data) });
+  }
+  for (const child of part.mimeType === "message/rfc822" ? [] : part.parts ?? []) {
+    collectParts(child, parts);
+  }
+  return parts;
+}
+
+function toInboundMessage(payload: GmailMessagePart): InboundMessage {
+  return {
+    from: getHeader(payload, "From") ?? "",
+    subject: getHeader(payload, "Subject") ?? "",
+    headers: Object.fromEntries((payload.headers ?? []).map((h) => [h.name.toLowerCase(), h.value])),
+    parts: collectParts(payload),
+  };
+}
+
+const addressOnly = (address: string) => (address.match(/<([^>]+)>/)?.[1] ?? address).trim().toLowerCase();
+
+// IDs of messages added to the inbox since the last sync, and the history ID to resume from
+async function listNewMessageIds(accessToken: string, lastHistoryId: string | null) {
+  if (lastHistoryId) {
+    try {
+      const ids = new Set<string>();
+      let historyId = lastHistoryId;
+      let pageToken: string | undefined;
+
+      do {
+        const page = await gmailGet(accessToken, "/history", {
+          startHistoryId: lastHistoryId,
+          historyTypes: "messageAdded",
+          labelId: "INBOX",
+          ...(pageToken && { pageToken }),
+        });
+        for (const entry of page.history ?? []) {
+          for (const added of entry.messagesAdded ?? []) {
+            ids.add(added.message.id);
+          }
+        }
+        historyId = page.historyId ?? historyId;
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+
+      return { ids: [...ids], historyId };
+    } catch (error) {
+      // Gmail only keeps about a week of history; older IDs return 404
+      if (!(error instanceof GmailApiError && error.status === 404)) {
+        throw error;
+      }
+      console.warn("Gmail history ID expired, backfilling recent messages.");
+    }
+  }
+
+  // Read the current history ID first so nothing arriving during the backfill is missed
+  const { historyId } = await gmailGet(accessToken, "/profile");
+  const { messages } = await gmailGet(accessToken, "/messages", {
+    q: BACKFILL_QUERY,
+    maxResults: String(BACKFILL_LIMIT),
+  });
+
+  return { ids: (messages ?? []).map((m: { id: string }) => m.id), historyId: String(historyId) };
+}
+
+async function syncInbox(supabase: SupabaseClient, inbox: any) {
+  const accessToken = await getOAuthAccessToken(supabase, inbox.id, inbox);
+  const { ids, historyId } = await listNewMessageIds(accessToken, inbox.gmail_history_id);
+
+  let stored = 0;
+  let bounced = 0;
+  for (const id of ids) {
+    let message;
+    try {
+      message = await gmailGet(accessToken, `/messages/${id}`, { format: "full" });
+    } catch (error) {
+      // Deleted since it showed up in the history; nothing left to store
+      if (error instanceof GmailApiError && error.status === 404) {
+        continue;
+      }
+      throw error;
+    }
+    const payload: GmailMessagePart = message.payload ?? {};
+    const from = getHeader(payload, "From") ?? "";
+
+    // Our own messages (campaign emails, manual replies) show up in the history too
+    const labelIds: string[] = message.labelIds ?? [];
+    if (labelIds.includes("SENT") || labelIds.includes("DRAFT") || addressOnly(from) === inbox.email.toLowerCase()) {
+      continue;
+    }
+
+    const bounce = parseBounce(toInboundMessage(payload));
+    if (bounce) {
+      const { data: bouncedQueueId, error } = await supabase.rpc("record_bounce", {
+        target_inbox_id: inbox.id,
+        notice_provider_message_id: message.id,
+        original_rfc_message_id: bounce.originalMessageId ?? null,
+        notice_thread_id: message.threadId,
+        bounced_recipient: bounce.recipient ?? null,
+        bounce_kind: bounce.kind,
+        bounce_status_code: bounce.statusCode ?? null,
+        bounce_diagnostic: bounce.diagnostic ?? null,
+      });
+
+      if (error) {
+        throw new Error(`Failed to record bounce ${message.id}: ${error.message}`);
+      }
+      if (bouncedQueueId) {
+        bounced++;
+      }
+      continue;
+    }
+
+    const { data: replyId, error } = await supabase.rpc("record_inbound_reply", {
+      target_inbox_id: inbox.id,
+      reply_provider_message_id: message.id,
+      reply_thread_id: message.threadId,
+      reply_rfc_message_id: getHeader(payload, "Message-ID"),
+      reply_in_reply_to: getHeader(payload, "In-Reply-To"),
+      reply_references: getHeader(payload, "References"),
+      reply_from_email: addressOnly(from),
+      reply_subject: getHeader(payload, "Subject"),
+      reply_body: extractBody(payload),
+      reply_received_at: new Date(Number(message.internalDate)).toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to store reply ${message.id}: ${error.message}`);
+    }
+    if (replyId) {
+      stored++;
+    }
+  }
+
+  // Only advance once every message is stored, so a failure is retried on the next run
+  await supabase
+    .from("inboxes")
+    .update({ gmail_history_id: historyId, replies_synced_at: new Date().toISOString(), reply_sync_error: null })
+    .eq("id", inbox.id);
+
+  return { stored, bounced };
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const bearerToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearerToken || bearerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: inboxes, error: fetchError } = await supabase
+    .from("inboxes")
+    .select("id, email, provider, access_token, refresh_token, expires_at, gmail_history_id")
+    .eq("provider", "google")
+    .eq("is_connected", true)
+    .neq("status", "error");
+
+  if (fetchError) {
+    console.error("Reply-sync-worker error:", fetchError.message);
+    return new Response(JSON.stringify({ error: fetchError.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const results = [];
+  for (const inbox of inboxes ?? []) {
+    try {
+      const { stored, bounced } = await syncInbox(supabase, inbox);
+      results.push({ inbox_id: inbox.id, replies: stored, bounces: bounced });
+    } catch (error) {
+      // Inboxes connected before read access was requested fail with 403 until reconnected
+      const message = error instanceof GmailApiError && error.status === 403
+        ? "Reconnect this inbox to allow reading replies."
+        : error.message;
+      console.error(`Reply sync failed for ${inbox.email}:`, error.message);
+      await supabase.from("inboxes").update({ reply_sync_error: message }).eq("id", inbox.id);
+      results.push({ inbox_id: inbox.id, error: message });
+    }
+  }
+
+  return new Response(JSON.stringify({ inboxes: results }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+});
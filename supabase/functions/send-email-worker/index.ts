@@ -1,81 +1,142 @@
 // Supabase Edge Function: send-email-worker
-// This function sends an email using the Google Workspace API and manages OAuth tokens.
+// This function sends an email through the inbox's mail transport (Gmail API, Microsoft
+// Graph, SMTP or the local sink) and manages OAuth tokens for Google and Microsoft inboxes.
+// `email-dispatcher` calls it with the service role key for queued emails. Users can
+// also call it with their own JWT and `test: true` to send a sequence step to themselves.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import {
+  createGmailTransport,
+  createMicrosoftGraphTransport,
+  createSinkTransport,
+  createSmtpTransport,
+  MailTransport,
+  SendError,
+} from "../_shared/transports/index.ts";
+import { CredentialError, getOAuthAccessToken } from "../_shared/oauth.ts";
+import { decryptSecret } from "../_shared/crypto.ts";
+import { buildUnsubscribeUrl } from "../_shared/unsubscribe.ts";
+import { addOpenPixel, rewriteLinks } from "../_shared/tracking.ts";
+import { corsHeaders } from "../_shared/cors.ts";
 
-const GOOGLE_CLIENT_ID = Deno.env.get("GOOGLE_CLIENT_ID");
-const GOOGLE_CLIENT_SECRET = Deno.env.get("GOOGLE_CLIENT_SECRET");
+const EMAIL_SINK_DIR = Deno.env.get("EMAIL_SINK_DIR");
 
-// Function to refresh an expired access token
-async function refreshAccessToken(refreshToken: string) {
-  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
-    throw new Error("Google OAuth client credentials are not configured.");
+const INBOX_COLUMNS = "user_id, email, provider, access_token, refresh_token, expires_at, smtp_host, smtp_port, smtp_security, smtp_username, smtp_password";
+
+// Picks the transport configured for the inbox (`inboxes.provider`)
+async function getTransportForInbox(
+  supabase: SupabaseClient,
+  inboxId: number,
+  inbox: any,
+  queueId?: number,
+): Promise<MailTransport> {
+  inbox.provider ??= "google";
+
+  switch (inbox.provider) {
+    case "google":
+      return createGmailTransport(await getOAuthAccessToken(supabase, inboxId, inbox));
+    case "microsoft":
+      return createMicrosoftGraphTransport(await getOAuthAccessToken(supabase, inboxId, inbox));
+    case "smtp":
+      return createSmtpTransport({
+        host: inbox.smtp_host,
+        port: inbox.smtp_port,
+        security: inbox.smtp_security ?? "starttls",
+        username: inbox.smtp_username ?? undefined,
+        password: inbox.smtp_password ? await decryptSecret(inbox.smtp_password) : undefined,
+      });
+    case "sink":
+      return createSinkTransport(supabase, {
+        userId: inbox.user_id,
+        inboxId,
+        queueId,
+        directory: EMAIL_SINK_DIR,
+      });
+    default:
+      throw new SendError(`Unsupported mail provider "${inbox.provider}" for inbox ${inboxId}.`, false);
   }
+}
 
-  const response = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: GOOGLE_CLIENT_ID,
-      client_secret: GOOGLE_CLIENT_SECRET,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    }).toString(),
-  });
+// Sends a sequence step, rendered against one of the user's contacts, to the user's own
+// address. Nothing is queued, tracked or counted towards the inbox's daily limit.
+async function sendTestEmail(req: Request, payload: any): Promise<Response> {
+  const respond = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error("Error refreshing access token:", errorData);
-    throw new Error("Failed to refresh access token.");
+  const { inbox_id, contact_id, subject, body, previous_subject } = payload;
+  if (!inbox_id || !contact_id || !body) {
+    return respond({ error: "Missing required fields" }, 400);
   }
 
-  const { access_token, expires_in } = await response.json();
-  const expires_at = new Date(Date.now() + expires_in * 1000);
+  // The user's own client, so RLS decides which inboxes and contacts they can use
+  const userClient = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+  );
 
-  return { newAccessToken: access_token, newExpiresAt: expires_at };
-}
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user?.email) {
+    return respond({ error: "User not authenticated" }, 401);
+  }
 
-// Function to send an email using the Gmail API
-async function sendEmailWithGmail(
-  accessToken: string,
-  from: string,
-  to: string,
-  subject: string,
-  body: string
-) {
-  const rawEmail = [
-    `From: ${from}`,
-    `To: ${to}`,
-    `Subject: ${subject}`,
-    "Content-Type: text/html; charset=utf-8",
-    "",
-    body,
-  ].join("\n");
-
-  const base64EncodedEmail = btoa(rawEmail).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-
-  const response = await fetch("https://gmail.googleapis.com/gmail/v1/users/me/messages/send", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      raw: base64EncodedEmail,
-    }),
-  });
+  const { data: ownedInbox } = await userClient.from("inboxes").select("id").eq("id", inbox_id).maybeSingle();
+  if (!ownedInbox) {
+    return respond({ error: `Could not find inbox with ID ${inbox_id}.` }, 404);
+  }
+
+  const { data: rendered, error: renderError } = await userClient
+    .rpc("render_test_email", {
+      subject_template: subject ?? "",
+      body_template: body,
+      sample_contact_id: contact_id,
+      previous_subject_template: previous_subject ?? null,
+    })
+    .single();
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error("Error sending email via Gmail API:", errorData);
-    throw new Error(`Gmail API error: ${errorData.error?.message || 'Unknown error'}`);
+  if (renderError || !rendered) {
+    return respond({ error: renderError?.message ?? "Could not render the email." }, 400);
   }
 
-  return await response.json();
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: inbox, error: fetchError } = await supabase
+    .from("inboxes")
+    .select(INBOX_COLUMNS)
+    .eq("id", inbox_id)
+    .single();
+
+  if (fetchError || !inbox) {
+    throw new SendError(`Could not find inbox with ID ${inbox_id}.`, false);
+  }
+
+  const transport = await getTransportForInbox(supabase, inbox_id, inbox);
+  const { providerMessageId } = await transport.send({
+    from: inbox.email,
+    to: user.email,
+    subject: `[TEST] ${rendered.subject}`,
+    html: rendered.body.replaceAll("{{unsubscribe_link}}", "#"),
+  });
+
+  return respond({
+    message: `Test email sent to ${user.email}`,
+    transport: transport.name,
+    provider_message_id: providerMessageId ?? null,
+  }, 200);
 }
 
 serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method not allowed' }), {
       status: 405,
@@ -84,12 +145,34 @@ serve(async (req) => {
   }
 
   try {
+    const payload = await req.json();
+    if (payload.test === true) {
+      return await sendTestEmail(req, payload);
+    }
+
+    // Queued emails are sent as any inbox to any address, so only the dispatcher and
+    // cron jobs (which hold the service role key) may ask for them
+    const bearerToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+    if (!bearerToken || bearerToken !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const {
+      queue_id,
       inbox_id,
       contact_email,
+      contact_name,
       subject,
       body,
-    } = await req.json();
+      in_reply_to,
+      references,
+      thread_id,
+      idempotency_key,
+      lease_duration,
+    } = payload;
 
     if (!inbox_id || !contact_email || !subject || !body) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), {
@@ -103,63 +186,161 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    // 1. Fetch inbox credentials
+    // 1. Fetch the inbox and its transport settings
     const { data: inbox, error: fetchError } = await supabase
       .from("inboxes")
-      .select("email, access_token, refresh_token, expires_at")
+      .select(INBOX_COLUMNS)
       .eq("id", inbox_id)
       .single();
 
     if (fetchError || !inbox) {
-      throw new Error(`Could not find inbox with ID ${inbox_id}.`);
+      throw new SendError(`Could not find inbox with ID ${inbox_id}.`, false);
+    }
+
+    // 2. Resolve the inbox's transport, refreshing OAuth tokens if needed. Revoked
+    //    credentials take the inbox out of rotation and hold its other queued emails;
+    //    this one is retried and held too when it comes round again.
+    let transport: MailTransport;
+    try {
+      transport = await getTransportForInbox(supabase, inbox_id, inbox, queue_id);
+    } catch (error) {
+      if (!(error instanceof CredentialError)) {
+        throw error;
+      }
+      await supabase.rpc("mark_inbox_unhealthy", { target_inbox_id: inbox_id, reason: error.message });
+      throw new SendError(`Inbox ${inbox.email} needs reconnecting: ${error.message}`, true, error.statusCode);
     }
 
-    let { access_token, refresh_token, expires_at } = inbox;
-    const expiresAtDate = new Date(expires_at);
+    // 3. Give queued emails a signed unsubscribe link, both in the body and as a
+    //    one-click List-Unsubscribe header (RFC 8058), an open tracking pixel and,
+    //    when the campaign tracks clicks, tracked links
+    let html = body;
+    let unsubscribeUrl: string | null = null;
+    if (queue_id) {
+      const { data: queued } = await supabase
+        .from("email_queue")
+        .select("contact_id, campaign_id, campaigns(track_clicks)")
+        .eq("id", queue_id)
+        .single();
 
-    // 2. Check if token is expired and refresh if needed
-    if (new Date() > expiresAtDate) {
-      if (!refresh_token) {
-        throw new Error("Access token expired and no refresh token is available.");
+      if (queued) {
+        unsubscribeUrl = await buildUnsubscribeUrl({
+          contact_id: queued.contact_id,
+          campaign_id: queued.campaign_id ?? undefined,
+        });
       }
 
-      console.log(`Access token for ${inbox.email} expired. Refreshing...`);
-      const { newAccessToken, newExpiresAt } = await refreshAccessToken(refresh_token);
-      
-      access_token = newAccessToken;
-      expires_at = newExpiresAt.toISOString();
-
-      // Update the inbox with the new token and expiry
-      const { error: updateError } = await supabase
-        .from("inboxes")
-        .update({ access_token, expires_at })
-        .eq("id", inbox_id);
-
-      if (updateError) {
-        console.error("Failed to update new access token in database:", updateError);
-        // Continue with the new token anyway, but log the error
+      if (queued?.campaigns?.track_clicks) {
+        html = await rewriteLinks(html, queue_id);
       }
+      html = await addOpenPixel(html, queue_id);
     }
 
-    // 3. Send the email
-    await sendEmailWithGmail(
-      access_token,
-      inbox.email,
-      contact_email,
-      subject,
-      body
-    );
+    // 4. Register the send under the email's idempotency key, so a queued email that a
+    //    recovered or overlapping run asks for again is never sent twice. An unfinished
+    //    dispatch is only taken over after the lease the email was claimed with.
+    if (queue_id && idempotency_key) {
+      const { data: dispatch, error: dispatchError } = await supabase
+        .rpc("begin_email_dispatch", {
+          target_queue_id: queue_id,
+          dispatch_key: idempotency_key,
+          ...(lease_duration && { lease_duration }),
+        })
+        .single();
+
+      if (dispatchError || !dispatch) {
+        throw new Error(`Could not register the send: ${dispatchError?.message ?? "no result"}`);
+      }
+
+      if (dispatch.state === "sent") {
+        return new Response(JSON.stringify({
+          message: "Email was already sent",
+          duplicate: true,
+          transport: transport.name,
+          provider_message_id: dispatch.provider_message_id,
+          provider_thread_id: dispatch.provider_thread_id,
+          message_id: dispatch.rfc_message_id,
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
-    return new Response(JSON.stringify({ message: "Email sent successfully" }), {
+      if (dispatch.state !== "acquired") {
+        const inProgress = dispatch.state === "in_progress";
+        return new Response(JSON.stringify({
+          error: inProgress ? "Email is already being sent" : "Idempotency key does not match this email",
+          retryable: inProgress,
+        }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // 5. Send the email
+    let sent;
+    try {
+      sent = await transport.send({
+        from: inbox.email,
+        to: contact_name ? `${contact_name} <${contact_email}>` : contact_email,
+        subject,
+        html: html.replaceAll("{{unsubscribe_link}}", unsubscribeUrl ?? "#"),
+        inReplyTo: in_reply_to ?? undefined,
+        references: references ? references.split(" ") : undefined,
+        threadId: thread_id ?? undefined,
+        headers: unsubscribeUrl
+          ? {
+            "List-Unsubscribe": `<${unsubscribeUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          }
+          : undefined,
+      });
+    } catch (error) {
+      // The provider turned the email down, so a retry may send it straight away.
+      // Anything else (e.g. a dropped connection after DATA) may have gone through and
+      // waits out the lease.
+      if (queue_id && idempotency_key && error instanceof SendError && error.rejected) {
+        await supabase.rpc("release_email_dispatch", { dispatch_key: idempotency_key });
+      }
+      throw error;
+    }
+    const { providerMessageId, providerThreadId, messageId } = sent;
+
+    if (queue_id && idempotency_key) {
+      const { error: completeError } = await supabase.rpc("complete_email_dispatch", {
+        dispatch_key: idempotency_key,
+        sent_provider_message_id: providerMessageId ?? null,
+        sent_provider_thread_id: providerThreadId ?? null,
+        sent_rfc_message_id: messageId ?? null,
+      });
+      if (completeError) {
+        console.error(`Could not complete the dispatch of email ${queue_id}:`, completeError.message);
+      }
+    }
+
+    return new Response(JSON.stringify({
+      message: "Email sent successfully",
+      transport: transport.name,
+      provider_message_id: providerMessageId ?? null,
+      provider_thread_id: providerThreadId ?? null,
+      message_id: messageId ?? null,
+    }), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
 
   } catch (error) {
     console.error("Send-email-worker error:", error.message);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
+    // Anything unclassified (network errors, timeouts) is assumed to be transient
+    const retryable = error instanceof SendError ? error.retryable : true;
+    return new Response(JSON.stringify({
+      error: error.message,
+      retryable,
+      provider_status: error instanceof SendError ? error.statusCode ?? null : null,
+    }), {
+      status: retryable ? 503 : 422,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
 });
\ No newline at end of file
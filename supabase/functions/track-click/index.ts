@@ -0,0 +1,66 @@
+// Supabase Edge Function: track-click
+// Redirect target for links rewritten by send-email-worker. Records a click for the
+// `email_queue` row in the signed token, then forwards to the original URL. Only URLs
+// inside a valid token are followed, so this can't be used as an open redirect.
+// Deploy with `--no-verify-jwt`, since recipients have no Supabase session.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { detectAutomatedRequest, readTrackingToken, requestIp, TrackingTokenPayload } from "../_shared/tracking.ts";
+
+serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let payload: TrackingTokenPayload | null = null;
+  try {
+    const token = new URL(req.url).searchParams.get("t");
+    payload = token ? await readTrackingToken(token) : null;
+  } catch (error) {
+    // e.g. TRACKING_SECRET isn't configured; an unverified link is never followed
+    console.error("Track-click error:", error.message);
+  }
+
+  if (!payload?.url || !/^https?:\/\//i.test(payload.url)) {
+    return new Response("This link is invalid.", {
+      status: 400,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  // A failure to record the click must never keep the recipient from their link
+  if (req.method === "GET") {
+    try {
+      const supabaseAdmin = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+      );
+
+      const { error } = await supabaseAdmin.rpc("record_email_click", {
+        target_queue_id: payload.queue_id,
+        clicked_url: payload.url,
+        click_user_agent: req.headers.get("user-agent"),
+        click_ip_address: requestIp(req),
+        machine_click_reason: detectAutomatedRequest(req),
+      });
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      console.error("Track-click error:", error.message);
+    }
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      "Location": payload.url,
+      "Cache-Control": "no-store",
+    },
+  });
+});
@@ -0,0 +1,61 @@
+// Supabase Edge Function: track-open
+// Serves the tracking pixel added to outgoing emails and records an open for the
+// `email_queue` row in its signed token. Always answers with the pixel, so a broken or
+// forged token never shows as a broken image.
+// Deploy with `--no-verify-jwt`, since mail clients load it without a Supabase session.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { detectAutomatedRequest, readTrackingToken, requestIp } from "../_shared/tracking.ts";
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  (c) => c.charCodeAt(0),
+);
+
+const pixelResponse = () =>
+  new Response(PIXEL, {
+    status: 200,
+    headers: {
+      "Content-Type": "image/gif",
+      // Every load has to reach us to be counted
+      "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0",
+    },
+  });
+
+serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("t");
+    const payload = token ? await readTrackingToken(token) : null;
+
+    if (payload && req.method === "GET") {
+      const supabaseAdmin = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+      );
+
+      const { error } = await supabaseAdmin.rpc("record_email_open", {
+        target_queue_id: payload.queue_id,
+        open_user_agent: req.headers.get("user-agent"),
+        open_ip_address: requestIp(req),
+        machine_open_reason: detectAutomatedRequest(req),
+      });
+
+      if (error) {
+        throw error;
+      }
+    }
+  } catch (error) {
+    console.error("Track-open error:", error.message);
+  }
+
+  return pixelResponse();
+});
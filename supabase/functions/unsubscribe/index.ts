@@ -0,0 +1,99 @@
+// Supabase Edge Function: unsubscribe
+// Public endpoint behind the unsubscribe link in every email. GET shows a confirmation
+// page (so link scanners that prefetch URLs can't unsubscribe anyone); POST performs
+// the unsubscribe, both from that page and from one-click `List-Unsubscribe-Post`
+// requests sent by mail clients (RFC 8058).
+// Deploy with `--no-verify-jwt`, since recipients have no Supabase session.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { readUnsubscribeToken } from "../_shared/unsubscribe.ts";
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+function page(title: string, content: string, status = 200) {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f8fafc; color: #0f172a; display: flex; justify-content: center; padding: 64px 16px; }
+    main { max-width: 420px; background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 32px; text-align: center; }
+    button { background: #0d9488; color: #fff; border: 0; border-radius: 6px; padding: 10px 20px; font-size: 15px; font-weight: 600; cursor: pointer; }
+    p { color: #475569; }
+  </style>
+</head>
+<body><main><h1>${escapeHtml(title)}</h1>${content}</main></body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+// Shows "j***@example.com" so recipients can confirm it's their address
+function maskEmail(email: string) {
+  const [local, domain] = email.split("@");
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get("token");
+  const payload = token ? await readUnsubscribeToken(token) : null;
+
+  if (!payload) {
+    return page("Invalid link", "<p>This unsubscribe link is invalid. Please use the link from the most recent email you received.</p>", 400);
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  if (req.method === "GET") {
+    const { data: contact } = await supabaseAdmin
+      .from("contacts")
+      .select("email, unsubscribed_at")
+      .eq("id", payload.contact_id)
+      .single();
+
+    if (contact?.unsubscribed_at) {
+      return page("You're unsubscribed", "<p>You won't receive any more emails from us.</p>");
+    }
+
+    const who = contact?.email ? ` for <strong>${escapeHtml(maskEmail(contact.email))}</strong>` : "";
+    // An empty action posts back to the URL the recipient opened; `req.url` lacks the
+    // `/functions/v1/` prefix the gateway strips
+    return page(
+      "Unsubscribe",
+      `<p>Confirm that you no longer want to receive these emails${who}.</p>
+       <form method="POST" action="">
+         <button type="submit">Unsubscribe</button>
+       </form>`,
+    );
+  }
+
+  try {
+    const { error } = await supabaseAdmin.rpc("unsubscribe_contact", { target_contact_id: payload.contact_id });
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error("Unsubscribe error:", error.message);
+    return page("Something went wrong", "<p>We couldn't process your request. Please try again in a few minutes.</p>", 500);
+  }
+
+  return page("You're unsubscribed", "<p>You won't receive any more emails from us.</p>");
+});
@@ -0,0 +1,41 @@
+// verify-domain/dns.ts
+// TXT lookups for domain verification. The checks only see a `TxtResolver`, so they can
+// run against Deno's resolver, a local DNS stub (set `DNS_NAMESERVER=127.0.0.1:5353`) or
+// a fake in memory.
+
+export interface TxtResolver {
+  // Every TXT record at `name`, with each record's strings joined; [] when there are none
+  resolveTxt(name: string): Promise<string[]>;
+}
+
+// Parses `host`, `host:port` or `[ipv6]:port`, e.g. `127.0.0.1:5353`; the port defaults to 53
+export function parseNameServer(value: string): { ipAddr: string; port: number } {
+  const match = value.match(/^\[(.+)\](?::(\d+))?$/) ?? value.match(/^([^:]+)(?::(\d+))?$/);
+  if (!match) {
+    // A bare IPv6 address
+    return { ipAddr: value, port: 53 };
+  }
+  const port = match[2] ? Number(match[2]) : 53;
+  if (port <= 0 || port > 65535) {
+    throw new Error(`Invalid DNS_NAMESERVER port in "${value}".`);
+  }
+  return { ipAddr: match[1], port };
+}
+
+export function createDenoResolver(nameServer?: { ipAddr: string; port: number }): TxtResolver {
+  return {
+    async resolveTxt(name: string): Promise<string[]> {
+      try {
+        const records = await Deno.resolveDns(name, "TXT", nameServer ? { nameServer } : undefined);
+        // Long records arrive split into 255-byte strings, which make up one value
+        return records.map((chunks: string[]) => chunks.join(""));
+      } catch (error) {
+        // NXDOMAIN and "no TXT records" both mean the record hasn't been added
+        if (error instanceof Deno.errors.NotFound) {
+          return [];
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// Supabase Edge Function: verify-domain
+// Looks up a domain's SPF, DKIM and DMARC TXT records and checks them against the records
+// `DomainRecordsModal` asks users to add. Each record's outcome, with what was found and
+// why it failed, is stored with `record_domain_dns_checks`. Called by the user from
+// Infrastructure with `{ domain_id }`.
+//
+// Lookups go to the system resolver, or to `DNS_NAMESERVER` (`host:port`) when it's set,
+// e.g. a local DNS stub while testing.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.42.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDenoResolver, parseNameServer } from "./dns.ts";
+import { verifyDomain } from "./verify.ts";
+
+const nameServer = Deno.env.get("DNS_NAMESERVER");
+const resolver = createDenoResolver(nameServer ? parseNameServer(nameServer) : undefined);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { domain_id } = await req.json();
+    if (!domain_id) {
+      return respond({ error: "Missing required fields" }, 400);
+    }
+
+    // The user's own client, so RLS decides which domains they can verify
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return respond({ error: "User not authenticated" }, 401);
+    }
+
+    const { data: domain } = await userClient.from("domains").select("id, name").eq("id", domain_id).maybeSingle();
+    if (!domain) {
+      return respond({ error: `Could not find domain with ID ${domain_id}.` }, 404);
+    }
+
+    const checks = await verifyDomain(resolver, domain.name);
+
+    // Results are written with the service role so users can't record their own
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: updatedDomain, error: recordError } = await supabase
+      .rpc("record_domain_dns_checks", { target_domain_id: domain.id, checks })
+      .single();
+
+    if (recordError) {
+      throw new Error(recordError.message);
+    }
+
+    return respond({ domain: updatedDomain, checks }, 200);
+  } catch (error) {
+    console.error("Verify-domain error:", error.message);
+    return respond({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,170 @@
+// verify-domain/verify.ts
+// Checks a domain's SPF, DKIM and DMARC records against the ones `DomainRecordsModal`
+// tells users to add: an SPF record that includes Google's servers, Google's DKIM key at
+// the `google` selector, and a DMARC record with a policy. Each check reports what it
+// found and, when it fails, what to change.
+
+import { TxtResolver } from "./dns.ts";
+
+export type DnsRecordType = "spf" | "dkim" | "dmarc";
+
+// One record's outcome, in the shape `record_domain_dns_checks` expects
+export interface DnsCheckResult {
+  record_type: DnsRecordType;
+  host: string;
+  passed: boolean;
+  // The matching TXT record(s) as published, one per line
+  observed_value: string | null;
+  error: string | null;
+}
+
+export const SPF_INCLUDE = "include:_spf.google.com";
+export const DKIM_SELECTOR = "google";
+
+// Splits `k=v; k=v` into lowercase tag names and trimmed values
+function parseTags(record: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const part of record.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    tags.set(part.slice(0, separator).trim().toLowerCase(), part.slice(separator + 1).trim());
+  }
+  return tags;
+}
+
+function result(
+  record_type: DnsRecordType,
+  host: string,
+  records: string[],
+  error: string | null,
+): DnsCheckResult {
+  return {
+    record_type,
+    host,
+    passed: error === null,
+    observed_value: records.length > 0 ? records.join("\n") : null,
+    error,
+  };
+}
+
+export function checkSpf(domain: string, records: string[]): DnsCheckResult {
+  const spf = records.filter((record) => /^v=spf1(\s|$)/i.test(record.trim()));
+  const report = (error: string | null) => result("spf", domain, spf, error);
+
+  if (spf.length === 0) {
+    return report(`No SPF record found at ${domain}. Add a TXT record at @ with the value "v=spf1 ${SPF_INCLUDE} ~all".`);
+  }
+  if (spf.length > 1) {
+    return report(`${domain} has ${spf.length} SPF records. Receivers treat more than one as an SPF failure, so merge them into a single record.`);
+  }
+
+  const terms = spf[0].trim().toLowerCase().split(/\s+/).slice(1);
+  if (!terms.some((term) => term.replace(/^\+/, "") === SPF_INCLUDE)) {
+    return report(`The SPF record doesn't include _spf.google.com, so email sent through Google fails SPF. Add "${SPF_INCLUDE}" before the "all" term.`);
+  }
+
+  const allTerm = terms.find((term) => /^[+?~-]?all$/.test(term));
+  if (allTerm === "all" || allTerm === "+all") {
+    return report(`The SPF record ends with "${allTerm}", which lets any server send as ${domain}. Use "~all" or "-all" instead.`);
+  }
+
+  return report(null);
+}
+
+export function checkDkim(domain: string, records: string[]): DnsCheckResult {
+  const host = `${DKIM_SELECTOR}._domainkey.${domain}`;
+  const dkim = records.filter((record) => /^v=DKIM1\s*(;|$)/i.test(record.trim()) || parseTags(record).has("p"));
+  const report = (error: string | null) => result("dkim", host, dkim, error);
+
+  if (dkim.length === 0) {
+    return report(`No DKIM record found at ${host}. Generate a DKIM key in the Google Admin console (Apps → Google Workspace → Gmail → Authenticate email) and add it as a TXT record at ${DKIM_SELECTOR}._domainkey.`);
+  }
+  if (dkim.length > 1) {
+    return report(`${host} has ${dkim.length} DKIM records. Keep only the one the Google Admin console generated.`);
+  }
+
+  const tags = parseTags(dkim[0]);
+  const keyType = tags.get("k");
+  if (keyType !== undefined && keyType.toLowerCase() !== "rsa") {
+    return report(`The DKIM record's key type is "k=${keyType}", but Google signs with RSA keys ("k=rsa").`);
+  }
+
+  const publicKey = tags.get("p")?.replace(/\s+/g, "");
+  if (publicKey === undefined) {
+    return report("The DKIM record has no public key (p=). Copy the full record from the Google Admin console.");
+  }
+  if (publicKey === "") {
+    return report("The DKIM record's public key is empty, which tells receivers the key has been revoked. Copy the current key from the Google Admin console.");
+  }
+  if (publicKey.includes("...")) {
+    return report("The DKIM record still has the shortened example key from the setup instructions. Copy the full key from the Google Admin console.");
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(publicKey)) {
+    return report("The DKIM public key isn't valid base64. Check that it was copied completely, without quotes or line breaks.");
+  }
+  // A 1024-bit RSA key is over 200 characters of base64
+  if (publicKey.length < 200) {
+    return report(`The DKIM public key is only ${publicKey.length} characters long, so it looks cut off. Copy the full key from the Google Admin console.`);
+  }
+
+  return report(null);
+}
+
+export function checkDmarc(domain: string, records: string[]): DnsCheckResult {
+  const host = `_dmarc.${domain}`;
+  const dmarc = records.filter((record) => /^v=DMARC1\s*(;|$)/i.test(record.trim()));
+
+  if (dmarc.length === 0) {
+    // Show what's there instead, e.g. a record with a typo in its version tag
+    return result("dmarc", host, records, records.length > 0
+      ? `The TXT record at ${host} doesn't start with "v=DMARC1", so receivers ignore it.`
+      : `No DMARC record found at ${host}. Add a TXT record at _dmarc with the value "v=DMARC1; p=none; rua=mailto:dmarc-reports@${domain}".`);
+  }
+
+  const report = (error: string | null) => result("dmarc", host, dmarc, error);
+  if (dmarc.length > 1) {
+    return report(`${host} has ${dmarc.length} DMARC records. Receivers ignore DMARC when there is more than one, so keep a single record.`);
+  }
+
+  const tags = parseTags(dmarc[0]);
+  const policy = tags.get("p");
+  if (policy === undefined || policy === "") {
+    return report(`The DMARC record has no policy. Add "p=none", "p=quarantine" or "p=reject".`);
+  }
+  if (!["none", "quarantine", "reject"].includes(policy.toLowerCase())) {
+    return report(`The DMARC policy "p=${policy}" isn't valid. Use "none", "quarantine" or "reject".`);
+  }
+
+  const invalidReportAddress = (tags.get("rua") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .find((address) => address !== "" && !address.toLowerCase().startsWith("mailto:"));
+  if (invalidReportAddress) {
+    return report(`The DMARC report address "${invalidReportAddress}" must be a mailto: address, e.g. "mailto:dmarc-reports@${domain}".`);
+  }
+
+  return report(null);
+}
+
+const CHECKS: { type: DnsRecordType; host: (domain: string) => string; check: (domain: string, records: string[]) => DnsCheckResult }[] = [
+  { type: "spf", host: (domain) => domain, check: checkSpf },
+  { type: "dkim", host: (domain) => `${DKIM_SELECTOR}._domainkey.${domain}`, check: checkDkim },
+  { type: "dmarc", host: (domain) => `_dmarc.${domain}`, check: checkDmarc },
+];
+
+export async function verifyDomain(resolver: TxtResolver, domainName: string): Promise<DnsCheckResult[]> {
+  const domain = domainName.trim().toLowerCase().replace(/\.$/, "");
+
+  return Promise.all(CHECKS.map(async ({ type, host, check }) => {
+    let records: string[];
+    try {
+      records = await resolver.resolveTxt(host(domain));
+    } catch (error) {
+      // SERVFAIL, timeouts and the like say nothing about whether the record is right
+      return result(type, host(domain), [], `Couldn't look up ${host(domain)}: ${error.message}. Try again in a few minutes.`);
+    }
+    return check(domain, records);
+  }));
+}
@@ -0,0 +1,106 @@
+// verify-domain/verify_test.ts
+// Runs the record checks against TXT records held in memory.
+// Run with: deno test supabase/functions/verify-domain/verify_test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { TxtResolver } from "./dns.ts";
+import { checkDkim, checkDmarc, checkSpf, verifyDomain } from "./verify.ts";
+
+// A 2048-bit key is about 400 characters of base64; the checks only look at its shape
+const DKIM_KEY = "MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA" + "A".repeat(340) + "IDAQAB";
+const DKIM_RECORD = `v=DKIM1; k=rsa; p=${DKIM_KEY}`;
+
+// Answers from `records`; a host mapped to an Error fails the lookup
+function memoryResolver(records: Record<string, string[] | Error>): TxtResolver {
+  return {
+    resolveTxt(name) {
+      const answer = records[name] ?? [];
+      return answer instanceof Error ? Promise.reject(answer) : Promise.resolve(answer);
+    },
+  };
+}
+
+Deno.test("checkSpf passes a record that includes Google with a soft fail", () => {
+  const result = checkSpf("example.com", ["google-site-verification=abc", "v=spf1 include:_spf.google.com ~all"]);
+
+  assertEquals(result, {
+    record_type: "spf",
+    host: "example.com",
+    passed: true,
+    observed_value: "v=spf1 include:_spf.google.com ~all",
+    error: null,
+  });
+});
+
+Deno.test("checkSpf fails a missing record, two records, a missing include and +all", () => {
+  assertEquals(checkSpf("example.com", ["google-site-verification=abc"]).observed_value, null);
+  assert(checkSpf("example.com", []).error!.startsWith("No SPF record found at example.com."));
+  assert(checkSpf("example.com", ["v=spf1 include:_spf.google.com ~all", "v=spf1 mx -all"]).error!.includes("has 2 SPF records"));
+  assert(checkSpf("example.com", ["v=spf1 include:mailgun.org ~all"]).error!.includes("doesn't include _spf.google.com"));
+  assert(checkSpf("example.com", ["v=spf1 include:_spf.google.com +all"]).error!.includes(`ends with "+all"`));
+});
+
+Deno.test("checkDkim passes Google's RSA key at the google selector", () => {
+  const result = checkDkim("example.com", [DKIM_RECORD]);
+
+  assertEquals(result.host, "google._domainkey.example.com");
+  assertEquals(result.error, null);
+  assert(result.passed);
+});
+
+Deno.test("checkDkim fails a missing, revoked, placeholder or truncated key", () => {
+  assert(checkDkim("example.com", []).error!.startsWith("No DKIM record found at google._domainkey.example.com."));
+  assert(checkDkim("example.com", ["v=DKIM1; k=rsa; p="]).error!.includes("has been revoked"));
+  assert(checkDkim("example.com", ["v=DKIM1; k=rsa; p=MIIBIjANBgkqh..."]).error!.includes("shortened example key"));
+  assert(checkDkim("example.com", ["v=DKIM1; k=rsa; p=MIIBIjANBgkqhkiG9w0B"]).error!.includes("looks cut off"));
+  assert(checkDkim("example.com", [`v=DKIM1; k=ed25519; p=${DKIM_KEY}`]).error!.includes(`"k=ed25519"`));
+});
+
+Deno.test("checkDmarc passes a record with a policy and a mailto report address", () => {
+  const result = checkDmarc("example.com", ["v=DMARC1; p=none; rua=mailto:dmarc-reports@example.com"]);
+
+  assertEquals(result.host, "_dmarc.example.com");
+  assertEquals(result.error, null);
+  assert(result.passed);
+});
+
+Deno.test("checkDmarc fails a mistyped version, a missing or unknown policy and a non-mailto report address", () => {
+  const mistyped = checkDmarc("example.com", ["v=DMARC; p=none"]);
+  assertEquals(mistyped.observed_value, "v=DMARC; p=none");
+  assert(mistyped.error!.includes(`doesn't start with "v=DMARC1"`));
+
+  assert(checkDmarc("example.com", ["v=DMARC1; rua=mailto:d@example.com"]).error!.includes("has no policy"));
+  assert(checkDmarc("example.com", ["v=DMARC1; p=monitor"]).error!.includes(`"p=monitor" isn't valid`));
+  assert(checkDmarc("example.com", ["v=DMARC1; p=reject; rua=https://example.com/dmarc"]).error!.includes("must be a mailto: address"));
+});
+
+Deno.test("verifyDomain looks up each record at its own host", async () => {
+  const resolver = memoryResolver({
+    "example.com": ["v=spf1 include:_spf.google.com -all"],
+    "google._domainkey.example.com": [DKIM_RECORD],
+    "_dmarc.example.com": ["v=DMARC1; p=quarantine"],
+  });
+
+  // Users paste names with capitals and a trailing dot
+  const results = await verifyDomain(resolver, " Example.COM. ");
+
+  assertEquals(results.map((r) => [r.record_type, r.host, r.passed]), [
+    ["spf", "example.com", true],
+    ["dkim", "google._domainkey.example.com", true],
+    ["dmarc", "_dmarc.example.com", true],
+  ]);
+});
+
+Deno.test("verifyDomain reports a failed lookup without failing the other checks", async () => {
+  const resolver = memoryResolver({
+    "example.com": ["v=spf1 include:_spf.google.com ~all"],
+    "google._domainkey.example.com": new Error("SERVFAIL"),
+  });
+
+  const [spf, dkim, dmarc] = await verifyDomain(resolver, "example.com");
+
+  assert(spf.passed);
+  assertEquals(dkim.observed_value, null);
+  assertEquals(dkim.error, "Couldn't look up google._domainkey.example.com: SERVFAIL. Try again in a few minutes.");
+  assert(dmarc.error!.startsWith("No DMARC record found at _dmarc.example.com."));
+});
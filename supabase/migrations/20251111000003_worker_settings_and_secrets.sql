@@ -0,0 +1,127 @@
+-- Migration: Worker Settings and Secrets
+-- This migration takes the worker configuration out of function bodies. Functions that
+-- call an edge function from Postgres used to carry the project's functions URL and a
+-- literal service role key, so rotating the key meant writing a new migration (and the
+-- old one stayed in git history). Settings such as the functions URL now live in
+-- `worker_settings`, and credentials live in Supabase Vault. Both are read at runtime,
+-- so they can be changed with `set_worker_setting` and `set_worker_secret` without
+-- redeploying any SQL. Every later migration that invokes a function reads them.
+--
+-- After applying this migration, store the service role key once (see "Worker
+-- Configuration" in supabase/migrations/README.md for the rotation procedure):
+--   SELECT set_worker_secret('service_role_key', '<service role key>');
+
+-- Step 1: Settings
+-- Values are text and cast where they are used. RLS with no policies keeps the table
+-- to the service role and the cron jobs.
+CREATE TABLE IF NOT EXISTS worker_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    description TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE worker_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO worker_settings (key, value, description) VALUES
+    ('functions_url', 'https://ypxntquggvgjbukgzkjw.supabase.co/functions/v1', 'Base URL of the project''s edge functions'),
+    ('function_timeout_ms', '120000', 'How long cron jobs wait for an edge function to answer')
+ON CONFLICT (key) DO NOTHING;
+
+
+-- Step 2: Reading and changing settings
+CREATE OR REPLACE FUNCTION worker_setting(setting_key TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    setting_value TEXT;
+BEGIN
+    SELECT value INTO setting_value FROM worker_settings WHERE key = setting_key;
+
+    IF setting_value IS NULL THEN
+        RAISE EXCEPTION 'Worker setting % is not set.', setting_key;
+    END IF;
+
+    RETURN setting_value;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION set_worker_setting(setting_key TEXT, setting_value TEXT)
+RETURNS VOID AS $$
+    INSERT INTO worker_settings (key, value, updated_at)
+    VALUES (setting_key, setting_value, NOW())
+    ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW();
+$$ LANGUAGE sql;
+
+-- The URL of one edge function
+CREATE OR REPLACE FUNCTION worker_function_url(function_name TEXT)
+RETURNS TEXT AS $$
+    SELECT rtrim(worker_setting('functions_url'), '/') || '/' || function_name;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION worker_setting(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION worker_setting(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION set_worker_setting(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_worker_setting(TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION worker_function_url(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION worker_function_url(TEXT) TO service_role;
+
+
+-- Step 3: Secrets, kept encrypted in Vault under a `worker_` prefix
+CREATE OR REPLACE FUNCTION worker_secret(secret_name TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    secret_value TEXT;
+BEGIN
+    SELECT decrypted_secret INTO secret_value
+    FROM vault.decrypted_secrets
+    WHERE name = 'worker_' || secret_name;
+
+    IF secret_value IS NULL THEN
+        RAISE EXCEPTION 'Worker secret % is not set. Store it with set_worker_secret.', secret_name;
+    END IF;
+
+    RETURN secret_value;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Creates the secret, or replaces its value when it already exists
+CREATE OR REPLACE FUNCTION set_worker_secret(secret_name TEXT, secret_value TEXT)
+RETURNS VOID AS $$
+DECLARE
+    existing_secret_id UUID;
+BEGIN
+    SELECT id INTO existing_secret_id FROM vault.secrets WHERE name = 'worker_' || secret_name;
+
+    IF existing_secret_id IS NULL THEN
+        PERFORM vault.create_secret(secret_value, 'worker_' || secret_name, 'Used by worker functions and cron jobs');
+    ELSE
+        PERFORM vault.update_secret(existing_secret_id, secret_value);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION worker_secret(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION worker_secret(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION set_worker_secret(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_worker_secret(TEXT, TEXT) TO service_role;
+
+
+-- Step 4: Invoke an edge function from a cron job
+-- Fire and forget, authenticated with the service role key from Vault.
+CREATE OR REPLACE FUNCTION invoke_worker_function(function_name TEXT, request_body JSONB DEFAULT '{}'::JSONB)
+RETURNS BIGINT AS $$
+BEGIN
+    RETURN net.http_post(
+        url := worker_function_url(function_name),
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || worker_secret('service_role_key')
+        ),
+        body := request_body,
+        timeout_milliseconds := worker_setting('function_timeout_ms')::INT
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION invoke_worker_function(TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION invoke_worker_function(TEXT, JSONB) TO service_role;
@@ -0,0 +1,416 @@
+-- Migration: Multi-Step Follow-Up Scheduling
+-- This migration teaches the sending engine to walk through every step of a sequence.
+-- `start_campaign` still only enqueues the first step; each later step is enqueued by
+-- `process_email_queue` once the previous step has actually been sent, and a contact's
+-- remaining steps are cancelled as soon as they reply, opt out or bounce.
+
+-- Step 1: New terminal states for queued emails
+ALTER TYPE email_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE email_status ADD VALUE IF NOT EXISTS 'bounced';
+
+-- Step 2: Track when a queued email was actually sent
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'sent_at'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN sent_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS email_queue_contact_id_idx ON email_queue(contact_id);
+
+
+-- Step 3: Shared personalization helpers
+-- Renders the merge tags offered by the SequenceBuilder against a contact.
+CREATE OR REPLACE FUNCTION render_email_template(template TEXT, contact_record contacts)
+RETURNS TEXT AS $$
+DECLARE
+    rendered TEXT := template;
+BEGIN
+    rendered := REPLACE(rendered, '{{firstName}}', COALESCE(contact_record.first_name, ''));
+    rendered := REPLACE(rendered, '{{companyName}}', COALESCE(contact_record.company_name, ''));
+    rendered := REPLACE(rendered, '{{industry}}', COALESCE(contact_record.industry, ''));
+    rendered := REPLACE(rendered, '{{city}}', COALESCE(contact_record.city, ''));
+    RETURN rendered;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Renders a step body and appends the CAN-SPAM footer.
+CREATE OR REPLACE FUNCTION build_email_body(template TEXT, contact_record contacts)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN render_email_template(template, contact_record)
+        || '\n\n---\nOur Company Inc.\n123 Street, City, State 12345\n<a href="{{unsubscribe_link}}">Unsubscribe</a>';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 4: Enqueue the step that follows a sent email
+-- Returns the id of the new queue row, or NULL when the sequence is finished
+-- or the contact has stopped it (replied or bounced).
+CREATE OR REPLACE FUNCTION schedule_next_step(sent_queue_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+    sent_email RECORD;
+    current_step RECORD;
+    next_step RECORD;
+    contact_record contacts%ROWTYPE;
+    next_send_time TIMESTAMPTZ;
+    new_queue_id BIGINT;
+BEGIN
+    SELECT * INTO sent_email FROM email_queue WHERE id = sent_queue_id;
+
+    IF sent_email IS NULL OR sent_email.status <> 'sent' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO current_step FROM email_steps WHERE id = sent_email.email_step_id;
+
+    SELECT es.*
+    INTO next_step
+    FROM email_steps es
+    WHERE es.sequence_id = sent_email.sequence_id
+      AND es.step_number > current_step.step_number
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF next_step IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Never schedule a follow-up for a contact who has replied to this campaign or bounced
+    IF contact_has_stopped_sequence(sent_email.contact_id, sent_email.campaign_id) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Only one queued row per step and contact
+    IF EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE campaign_id = sent_email.campaign_id
+          AND contact_id = sent_email.contact_id
+          AND email_step_id = next_step.id
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO contact_record FROM contacts WHERE id = sent_email.contact_id;
+
+    -- The delay is measured from the moment the previous step went out,
+    -- with the same randomized 90-300s jitter used when the campaign starts.
+    next_send_time := COALESCE(sent_email.sent_at, NOW())
+        + (COALESCE(next_step.send_delay_days, 0) * INTERVAL '1 day')
+        + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second');
+
+    INSERT INTO email_queue (
+        user_id,
+        campaign_id,
+        contact_id,
+        inbox_id,
+        sequence_id,
+        email_step_id,
+        subject,
+        body,
+        send_at
+    )
+    VALUES (
+        sent_email.user_id,
+        sent_email.campaign_id,
+        sent_email.contact_id,
+        sent_email.inbox_id, -- Follow-ups go out from the same mailbox as the previous step
+        sent_email.sequence_id,
+        next_step.id,
+        render_email_template(next_step.subject, contact_record),
+        build_email_body(next_step.body, contact_record),
+        next_send_time
+    )
+    RETURNING id INTO new_queue_id;
+
+    RETURN new_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 5: Stopping a contact's sequence
+-- A contact has stopped a campaign's sequence once they replied after it started
+-- or any email to them has bounced.
+CREATE OR REPLACE FUNCTION contact_has_stopped_sequence(target_contact_id BIGINT, target_campaign_id BIGINT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE contact_id = target_contact_id AND status = 'bounced'
+    ) OR EXISTS (
+        SELECT 1 FROM replies r
+        WHERE r.contact_id = target_contact_id
+          AND r.received_at >= (
+              SELECT MIN(eq.created_at) FROM email_queue eq
+              WHERE eq.campaign_id = target_campaign_id AND eq.contact_id = target_contact_id
+          )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Cancels every email still waiting to go out to a contact, across all campaigns.
+CREATE OR REPLACE FUNCTION cancel_contact_sequence(target_contact_id BIGINT, reason TEXT)
+RETURNS INT AS $$
+DECLARE
+    cancelled_count INT;
+BEGIN
+    UPDATE email_queue
+    SET
+        status = 'cancelled',
+        error_message = reason,
+        updated_at = NOW()
+    WHERE contact_id = target_contact_id
+      AND status IN ('queued', 'rescheduled');
+
+    GET DIAGNOSTICS cancelled_count = ROW_COUNT;
+    RETURN cancelled_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger: any reply stops the sequence, an opt-out classification is recorded as the reason
+CREATE OR REPLACE FUNCTION cancel_sequence_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.contact_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.intent = 'Opt-out' THEN
+        PERFORM cancel_contact_sequence(NEW.contact_id, 'Contact opted out');
+    ELSE
+        PERFORM cancel_contact_sequence(NEW.contact_id, 'Contact replied');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS replies_cancel_sequence ON replies;
+CREATE TRIGGER replies_cancel_sequence
+AFTER INSERT OR UPDATE OF intent ON replies
+FOR EACH ROW
+EXECUTE FUNCTION cancel_sequence_on_reply();
+
+-- Trigger: a bounced email stops every remaining step for that contact
+CREATE OR REPLACE FUNCTION cancel_sequence_on_bounce()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'bounced' AND OLD.status IS DISTINCT FROM 'bounced' THEN
+        PERFORM cancel_contact_sequence(NEW.contact_id, 'Contact bounced');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS email_queue_cancel_sequence_on_bounce ON email_queue;
+CREATE TRIGGER email_queue_cancel_sequence_on_bounce
+AFTER UPDATE OF status ON email_queue
+FOR EACH ROW
+EXECUTE FUNCTION cancel_sequence_on_bounce();
+
+
+-- Step 6: Use the shared helpers when a campaign starts
+CREATE OR REPLACE FUNCTION start_campaign(campaign_id_to_start BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+    first_step RECORD;
+    -- This is a placeholder. In a real app, this would be dynamically generated
+    -- per contact, likely by calling the /api/generate-email endpoint from the frontend
+    -- before calling this function. For this implementation, we'll use the template from the step.
+    personalized_subject TEXT;
+    personalized_body TEXT;
+    -- Placeholder for sending window (e.g., 9 AM to 5 PM in user's timezone)
+    send_window_start TIME := '09:00:00';
+    send_window_end TIME := '17:00:00';
+    -- Randomized delay between 90 and 300 seconds
+    random_delay_seconds INT;
+    current_send_time TIMESTAMPTZ := NOW();
+BEGIN
+    -- 1. Find the first step of the sequence for this campaign.
+    -- Later steps are enqueued by schedule_next_step() once the previous one is sent.
+    SELECT es.*
+    INTO first_step
+    FROM campaigns c
+    JOIN sequences s ON c.sequence_id = s.id
+    JOIN email_steps es ON es.sequence_id = s.id
+    WHERE c.id = campaign_id_to_start
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF first_step IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no email steps in its sequence.', campaign_id_to_start;
+    END IF;
+
+    -- 2. Loop through all contacts in the campaign's contact list
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_start
+    LOOP
+        -- 3. Personalize the subject and body and add the CAN-SPAM footer
+        personalized_subject := render_email_template(first_step.subject, contact_record);
+        personalized_body := build_email_body(first_step.body, contact_record);
+
+        -- 4. Calculate the send time with a random delay
+        random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+        current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+
+        -- TODO: Add timezone and sending window logic here.
+        -- This is a simplified version. A robust implementation would handle user timezones.
+
+        -- 5. Insert into the email queue
+        INSERT INTO email_queue (
+            user_id,
+            campaign_id,
+            contact_id,
+            inbox_id, -- TODO: Implement inbox rotation/selection logic
+            sequence_id,
+            email_step_id,
+            subject,
+            body,
+            send_at
+        )
+        VALUES (
+            (SELECT user_id FROM campaigns WHERE id = campaign_id_to_start),
+            campaign_id_to_start,
+            contact_record.id,
+            (SELECT id FROM inboxes WHERE user_id = (SELECT user_id FROM campaigns WHERE id = campaign_id_to_start) LIMIT 1), -- Placeholder: just picks the first inbox
+            first_step.sequence_id,
+            first_step.id,
+            personalized_subject,
+            personalized_body,
+            current_send_time
+        );
+    END LOOP;
+
+    -- 6. Update the campaign status to 'active'
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_start;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 7: Enqueue the next step as soon as an email is sent
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    inbox_record RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    daily_limit_per_inbox INT := 40;
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status = 'queued' AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get inbox and contact details
+        SELECT * INTO inbox_record FROM inboxes WHERE id = email_to_send.inbox_id;
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Check daily send limit for the inbox
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= daily_limit_per_inbox THEN
+            -- Reschedule for the next day
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = send_at + INTERVAL '1 day',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 4. Invoke the Edge Function to send the email
+        DECLARE
+            response_body JSONB;
+            error_message TEXT;
+        BEGIN
+            SELECT content INTO response_body
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'inbox_email', inbox_record.email,
+                    'access_token', inbox_record.access_token, -- Assuming you store this securely
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body
+                )
+            );
+
+            -- 5. Update status based on response
+            UPDATE email_queue SET status = 'sent', sent_at = NOW(), updated_at = NOW() WHERE id = email_to_send.id;
+
+            -- 6. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 7. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                UPDATE email_queue
+                SET
+                    status = 'failed',
+                    error_message = 'Edge function error: ' || error_message,
+                    updated_at = NOW()
+                WHERE id = email_to_send.id;
+
+                queue_id := email_to_send.id;
+                status := 'failed';
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
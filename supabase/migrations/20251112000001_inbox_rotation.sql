@@ -0,0 +1,259 @@
+-- Migration: Inbox Rotation and Weighted Sender Selection
+-- This migration lets a campaign send from a chosen set of inboxes instead of
+-- always using the user's first inbox. Senders are picked round-robin or weighted by
+-- remaining daily capacity, inboxes in `error` are skipped, `warming` inboxes are
+-- throttled, and a contact stays pinned to the same sender for every follow-up step.
+
+-- Step 1: Inbox status, matching the `Inbox.status` values shown in the UI
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'inbox_status') THEN
+        CREATE TYPE inbox_status AS ENUM ('warming', 'active', 'error');
+    END IF;
+END$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'status'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN status inbox_status DEFAULT 'active';
+    END IF;
+END$$;
+
+-- Step 2: Rotation strategy per campaign
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'inbox_rotation_strategy') THEN
+        CREATE TYPE inbox_rotation_strategy AS ENUM ('round_robin', 'weighted');
+    END IF;
+END$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaigns' AND column_name = 'inbox_rotation'
+    ) THEN
+        ALTER TABLE campaigns ADD COLUMN inbox_rotation inbox_rotation_strategy DEFAULT 'round_robin';
+    END IF;
+END$$;
+
+-- Step 3: The set of inboxes a campaign may send from
+CREATE TABLE IF NOT EXISTS campaign_inboxes (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    campaign_id BIGINT REFERENCES campaigns(id) ON DELETE CASCADE NOT NULL,
+    inbox_id BIGINT REFERENCES inboxes(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (campaign_id, inbox_id)
+);
+
+CREATE INDEX IF NOT EXISTS campaign_inboxes_user_id_idx ON campaign_inboxes(user_id);
+CREATE INDEX IF NOT EXISTS campaign_inboxes_inbox_id_idx ON campaign_inboxes(inbox_id);
+
+ALTER TABLE campaign_inboxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own campaign inboxes"
+ON campaign_inboxes FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own campaign inboxes"
+ON campaign_inboxes FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own campaign inboxes"
+ON campaign_inboxes FOR DELETE
+USING (auth.uid() = user_id);
+
+GRANT ALL ON campaign_inboxes TO authenticated;
+
+
+-- Step 4: Daily capacity helpers
+-- The number of emails an inbox may send per day. Warming inboxes only get a
+-- fraction of their configured limit.
+CREATE OR REPLACE FUNCTION inbox_effective_daily_limit(target_inbox_id BIGINT)
+RETURNS INT AS $$
+DECLARE
+    inbox_record RECORD;
+    warming_limit_ratio NUMERIC := 0.25;
+BEGIN
+    SELECT status, daily_send_limit INTO inbox_record FROM inboxes WHERE id = target_inbox_id;
+
+    IF inbox_record IS NULL OR inbox_record.status = 'error' THEN
+        RETURN 0;
+    END IF;
+
+    IF inbox_record.status = 'warming' THEN
+        RETURN GREATEST(1, floor(COALESCE(inbox_record.daily_send_limit, 40) * warming_limit_ratio))::INT;
+    END IF;
+
+    RETURN COALESCE(inbox_record.daily_send_limit, 40);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Remaining sends for an inbox on a given day, counting everything already sent
+-- or still scheduled to go out from it that day.
+CREATE OR REPLACE FUNCTION inbox_remaining_capacity(target_inbox_id BIGINT, on_date DATE)
+RETURNS INT AS $$
+DECLARE
+    scheduled_count INT;
+BEGIN
+    SELECT COUNT(*) INTO scheduled_count
+    FROM email_queue
+    WHERE inbox_id = target_inbox_id
+      AND send_at::DATE = on_date
+      AND status IN ('queued', 'rescheduled', 'sending', 'sent');
+
+    RETURN inbox_effective_daily_limit(target_inbox_id) - scheduled_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 5: Choose the sending inbox for a contact
+CREATE OR REPLACE FUNCTION select_campaign_inbox(
+    target_campaign_id BIGINT,
+    target_contact_id BIGINT,
+    on_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS BIGINT AS $$
+DECLARE
+    campaign_record RECORD;
+    pinned_inbox_id BIGINT;
+    selected_inbox_id BIGINT;
+BEGIN
+    -- 1. A contact keeps the sender that emailed them first in this campaign
+    SELECT inbox_id INTO pinned_inbox_id
+    FROM email_queue
+    WHERE campaign_id = target_campaign_id AND contact_id = target_contact_id
+    ORDER BY id ASC
+    LIMIT 1;
+
+    IF pinned_inbox_id IS NOT NULL THEN
+        RETURN pinned_inbox_id;
+    END IF;
+
+    SELECT id, user_id, inbox_rotation INTO campaign_record FROM campaigns WHERE id = target_campaign_id;
+
+    -- 2. Candidate inboxes are the campaign's chosen set, or every inbox of the user
+    --    for campaigns created before rotation existed. Inboxes in error are skipped.
+    -- 3. Inboxes with capacity left that day come first. Among them, weighted
+    --    campaigns draw at random proportionally to remaining capacity, round-robin
+    --    campaigns take the inbox with the fewest contacts so far. When every inbox
+    --    is full the least loaded one is used and process_email_queue pushes the
+    --    email to the next day.
+    SELECT candidate.inbox_id
+    INTO selected_inbox_id
+    FROM (
+        SELECT
+            i.id AS inbox_id,
+            inbox_remaining_capacity(i.id, on_date) AS remaining,
+            (SELECT COUNT(DISTINCT eq.contact_id) FROM email_queue eq
+             WHERE eq.campaign_id = target_campaign_id AND eq.inbox_id = i.id) AS assigned
+        FROM inboxes i
+        WHERE i.user_id = campaign_record.user_id
+          AND i.status IS DISTINCT FROM 'error'
+          AND (
+              i.id IN (SELECT ci.inbox_id FROM campaign_inboxes ci WHERE ci.campaign_id = target_campaign_id)
+              OR NOT EXISTS (SELECT 1 FROM campaign_inboxes ci WHERE ci.campaign_id = target_campaign_id)
+          )
+    ) candidate
+    ORDER BY
+        (candidate.remaining > 0) DESC,
+        CASE
+            WHEN campaign_record.inbox_rotation = 'weighted' AND candidate.remaining > 0
+            THEN -ln(1.0 - random()) / candidate.remaining
+        END ASC NULLS LAST,
+        candidate.assigned ASC,
+        candidate.inbox_id ASC
+    LIMIT 1;
+
+    IF selected_inbox_id IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no healthy inboxes to send from.', target_campaign_id;
+    END IF;
+
+    RETURN selected_inbox_id;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 6: Rotate senders when a campaign starts
+CREATE OR REPLACE FUNCTION start_campaign(campaign_id_to_start BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+    first_step RECORD;
+    -- This is a placeholder. In a real app, this would be dynamically generated
+    -- per contact, likely by calling the /api/generate-email endpoint from the frontend
+    -- before calling this function. For this implementation, we'll use the template from the step.
+    personalized_subject TEXT;
+    personalized_body TEXT;
+    -- Placeholder for sending window (e.g., 9 AM to 5 PM in user's timezone)
+    send_window_start TIME := '09:00:00';
+    send_window_end TIME := '17:00:00';
+    -- Randomized delay between 90 and 300 seconds
+    random_delay_seconds INT;
+    current_send_time TIMESTAMPTZ := NOW();
+BEGIN
+    -- 1. Find the first step of the sequence for this campaign.
+    -- Later steps are enqueued by schedule_next_step() once the previous one is sent.
+    SELECT es.*
+    INTO first_step
+    FROM campaigns c
+    JOIN sequences s ON c.sequence_id = s.id
+    JOIN email_steps es ON es.sequence_id = s.id
+    WHERE c.id = campaign_id_to_start
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF first_step IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no email steps in its sequence.', campaign_id_to_start;
+    END IF;
+
+    -- 2. Loop through all contacts in the campaign's contact list
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_start
+    LOOP
+        -- 3. Personalize the subject and body and add the CAN-SPAM footer
+        personalized_subject := render_email_template(first_step.subject, contact_record);
+        personalized_body := build_email_body(first_step.body, contact_record);
+
+        -- 4. Calculate the send time with a random delay
+        random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+        current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+
+        -- TODO: Add timezone and sending window logic here.
+        -- This is a simplified version. A robust implementation would handle user timezones.
+
+        -- 5. Insert into the email queue
+        INSERT INTO email_queue (
+            user_id,
+            campaign_id,
+            contact_id,
+            inbox_id,
+            sequence_id,
+            email_step_id,
+            subject,
+            body,
+            send_at
+        )
+        VALUES (
+            (SELECT user_id FROM campaigns WHERE id = campaign_id_to_start),
+            campaign_id_to_start,
+            contact_record.id,
+            select_campaign_inbox(campaign_id_to_start, contact_record.id, current_send_time::DATE),
+            first_step.sequence_id,
+            first_step.id,
+            personalized_subject,
+            personalized_body,
+            current_send_time
+        );
+    END LOOP;
+
+    -- 6. Update the campaign status to 'active'
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_start;
+END;
+$$ LANGUAGE plpgsql;
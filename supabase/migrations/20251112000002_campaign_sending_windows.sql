@@ -0,0 +1,469 @@
+-- Migration: Timezone-Aware Sending Windows
+-- This migration adds campaign-level sending schedules (allowed weekdays, hours and a
+-- timezone) and places every queued email inside the recipient's local window. The
+-- contact's timezone is used when known, then the sending inbox's, then the schedule's.
+-- `process_email_queue` pushes anything that falls outside the window to the next valid slot.
+
+-- Step 1: Contacts can carry their own timezone, e.g. 'America/New_York'
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'contacts' AND column_name = 'timezone'
+    ) THEN
+        ALTER TABLE contacts ADD COLUMN timezone TEXT;
+    END IF;
+END$$;
+
+-- Step 2: One sending schedule per campaign
+CREATE TABLE IF NOT EXISTS campaign_schedules (
+    campaign_id BIGINT PRIMARY KEY REFERENCES campaigns(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    -- When false, the schedule's timezone is used for every recipient
+    use_recipient_timezone BOOLEAN NOT NULL DEFAULT TRUE,
+    -- ISO weekdays, 1 = Monday ... 7 = Sunday
+    send_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+    send_window_start TIME NOT NULL DEFAULT '09:00:00',
+    send_window_end TIME NOT NULL DEFAULT '17:00:00',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (send_window_start < send_window_end),
+    CHECK (cardinality(send_days) > 0 AND send_days <@ '{1,2,3,4,5,6,7}'::SMALLINT[])
+);
+
+CREATE INDEX IF NOT EXISTS campaign_schedules_user_id_idx ON campaign_schedules(user_id);
+
+-- The schedule's timezone is the last fallback, so it has to be one Postgres recognises
+CREATE OR REPLACE FUNCTION check_campaign_schedule_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS campaign_schedules_check_timezone ON campaign_schedules;
+CREATE TRIGGER campaign_schedules_check_timezone
+BEFORE INSERT OR UPDATE OF timezone ON campaign_schedules
+FOR EACH ROW
+EXECUTE FUNCTION check_campaign_schedule_timezone();
+
+ALTER TABLE campaign_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own campaign schedules"
+ON campaign_schedules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own campaign schedules"
+ON campaign_schedules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own campaign schedules"
+ON campaign_schedules FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own campaign schedules"
+ON campaign_schedules FOR DELETE
+USING (auth.uid() = user_id);
+
+GRANT ALL ON campaign_schedules TO authenticated;
+
+
+-- Step 3: Resolve the timezone a queued email is scheduled in
+CREATE OR REPLACE FUNCTION resolve_send_timezone(
+    target_campaign_id BIGINT,
+    target_contact_id BIGINT,
+    target_inbox_id BIGINT
+)
+RETURNS TEXT AS $$
+DECLARE
+    schedule_record RECORD;
+    candidate TEXT;
+BEGIN
+    SELECT timezone, use_recipient_timezone INTO schedule_record
+    FROM campaign_schedules WHERE campaign_id = target_campaign_id;
+
+    IF schedule_record IS NULL OR schedule_record.use_recipient_timezone THEN
+        FOREACH candidate IN ARRAY ARRAY[
+            (SELECT timezone FROM contacts WHERE id = target_contact_id),
+            (SELECT timezone FROM inboxes WHERE id = target_inbox_id)
+        ]
+        LOOP
+            -- Ignore anything Postgres does not recognise as a timezone
+            IF candidate IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = candidate) THEN
+                RETURN candidate;
+            END IF;
+        END LOOP;
+    END IF;
+
+    RETURN COALESCE(schedule_record.timezone, 'UTC');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Step 4: The earliest moment at or after `candidate` that falls inside the window.
+-- Campaigns without a schedule use weekdays from 9 AM to 5 PM.
+CREATE OR REPLACE FUNCTION next_send_slot(
+    candidate TIMESTAMPTZ,
+    target_campaign_id BIGINT,
+    target_contact_id BIGINT,
+    target_inbox_id BIGINT
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    schedule_record RECORD;
+    send_days SMALLINT[] := '{1,2,3,4,5}';
+    send_window_start TIME := '09:00:00';
+    send_window_end TIME := '17:00:00';
+    tz TEXT;
+    local_time TIMESTAMP;
+    day_offset INT;
+BEGIN
+    SELECT * INTO schedule_record FROM campaign_schedules WHERE campaign_id = target_campaign_id;
+
+    IF schedule_record IS NOT NULL THEN
+        send_days := schedule_record.send_days;
+        send_window_start := schedule_record.send_window_start;
+        send_window_end := schedule_record.send_window_end;
+    END IF;
+
+    tz := resolve_send_timezone(target_campaign_id, target_contact_id, target_inbox_id);
+    local_time := candidate AT TIME ZONE tz;
+
+    -- A week ahead always contains an allowed weekday
+    FOR day_offset IN 0..7 LOOP
+        IF EXTRACT(ISODOW FROM local_time)::SMALLINT = ANY(send_days) THEN
+            IF local_time::TIME < send_window_start THEN
+                RETURN (local_time::DATE + send_window_start) AT TIME ZONE tz;
+            ELSIF local_time::TIME < send_window_end THEN
+                RETURN local_time AT TIME ZONE tz;
+            END IF;
+        END IF;
+
+        -- Move to midnight of the next local day
+        local_time := (local_time::DATE + 1)::TIMESTAMP;
+    END LOOP;
+
+    RETURN candidate;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 5: Place the first step inside each recipient's window
+CREATE OR REPLACE FUNCTION start_campaign(campaign_id_to_start BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+    first_step RECORD;
+    -- This is a placeholder. In a real app, this would be dynamically generated
+    -- per contact, likely by calling the /api/generate-email endpoint from the frontend
+    -- before calling this function. For this implementation, we'll use the template from the step.
+    personalized_subject TEXT;
+    personalized_body TEXT;
+    -- Randomized delay between 90 and 300 seconds
+    random_delay_seconds INT;
+    campaign_start_time TIMESTAMPTZ := NOW();
+    current_send_time TIMESTAMPTZ := NOW();
+    selected_inbox_id BIGINT;
+    scheduled_send_time TIMESTAMPTZ;
+BEGIN
+    -- 1. Find the first step of the sequence for this campaign.
+    -- Later steps are enqueued by schedule_next_step() once the previous one is sent.
+    SELECT es.*
+    INTO first_step
+    FROM campaigns c
+    JOIN sequences s ON c.sequence_id = s.id
+    JOIN email_steps es ON es.sequence_id = s.id
+    WHERE c.id = campaign_id_to_start
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF first_step IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no email steps in its sequence.', campaign_id_to_start;
+    END IF;
+
+    -- 2. Loop through all contacts in the campaign's contact list
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_start
+    LOOP
+        -- 3. Personalize the subject and body and add the CAN-SPAM footer
+        personalized_subject := render_email_template(first_step.subject, contact_record);
+        personalized_body := build_email_body(first_step.body, contact_record);
+
+        -- 4. Calculate the send time with a random delay
+        random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+        current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+        selected_inbox_id := select_campaign_inbox(campaign_id_to_start, contact_record.id, current_send_time::DATE);
+
+        -- 5. Move the send time into the recipient's local sending window. Recipients
+        --    whose window is closed keep their spacing from the moment it opens.
+        scheduled_send_time := next_send_slot(current_send_time, campaign_id_to_start, contact_record.id, selected_inbox_id);
+        IF scheduled_send_time > current_send_time THEN
+            scheduled_send_time := next_send_slot(
+                scheduled_send_time + (current_send_time - campaign_start_time),
+                campaign_id_to_start,
+                contact_record.id,
+                selected_inbox_id
+            );
+        END IF;
+
+        -- 6. Insert into the email queue
+        INSERT INTO email_queue (
+            user_id,
+            campaign_id,
+            contact_id,
+            inbox_id,
+            sequence_id,
+            email_step_id,
+            subject,
+            body,
+            send_at
+        )
+        VALUES (
+            (SELECT user_id FROM campaigns WHERE id = campaign_id_to_start),
+            campaign_id_to_start,
+            contact_record.id,
+            selected_inbox_id,
+            first_step.sequence_id,
+            first_step.id,
+            personalized_subject,
+            personalized_body,
+            scheduled_send_time
+        );
+    END LOOP;
+
+    -- 7. Update the campaign status to 'active'
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_start;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 6: Follow-ups also land inside the recipient's window
+CREATE OR REPLACE FUNCTION schedule_next_step(sent_queue_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+    sent_email RECORD;
+    current_step RECORD;
+    next_step RECORD;
+    contact_record contacts%ROWTYPE;
+    next_send_time TIMESTAMPTZ;
+    new_queue_id BIGINT;
+BEGIN
+    SELECT * INTO sent_email FROM email_queue WHERE id = sent_queue_id;
+
+    IF sent_email IS NULL OR sent_email.status <> 'sent' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO current_step FROM email_steps WHERE id = sent_email.email_step_id;
+
+    SELECT es.*
+    INTO next_step
+    FROM email_steps es
+    WHERE es.sequence_id = sent_email.sequence_id
+      AND es.step_number > current_step.step_number
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF next_step IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Never schedule a follow-up for a contact who has replied to this campaign or bounced
+    IF contact_has_stopped_sequence(sent_email.contact_id, sent_email.campaign_id) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Only one queued row per step and contact
+    IF EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE campaign_id = sent_email.campaign_id
+          AND contact_id = sent_email.contact_id
+          AND email_step_id = next_step.id
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO contact_record FROM contacts WHERE id = sent_email.contact_id;
+
+    -- The delay is measured from the moment the previous step went out,
+    -- with the same randomized 90-300s jitter used when the campaign starts,
+    -- then moved into the recipient's sending window.
+    next_send_time := COALESCE(sent_email.sent_at, NOW())
+        + (COALESCE(next_step.send_delay_days, 0) * INTERVAL '1 day')
+        + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second');
+    next_send_time := next_send_slot(next_send_time, sent_email.campaign_id, sent_email.contact_id, sent_email.inbox_id);
+
+    INSERT INTO email_queue (
+        user_id,
+        campaign_id,
+        contact_id,
+        inbox_id,
+        sequence_id,
+        email_step_id,
+        subject,
+        body,
+        send_at
+    )
+    VALUES (
+        sent_email.user_id,
+        sent_email.campaign_id,
+        sent_email.contact_id,
+        sent_email.inbox_id, -- Follow-ups go out from the same mailbox as the previous step
+        sent_email.sequence_id,
+        next_step.id,
+        render_email_template(next_step.subject, contact_record),
+        build_email_body(next_step.body, contact_record),
+        next_send_time
+    )
+    RETURNING id INTO new_queue_id;
+
+    RETURN new_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 7: Re-check the window right before sending
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    inbox_record RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    daily_limit_per_inbox INT := 40;
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get inbox and contact details
+        SELECT * INTO inbox_record FROM inboxes WHERE id = email_to_send.inbox_id;
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Check daily send limit for the inbox
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= daily_limit_per_inbox THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 5. Invoke the Edge Function to send the email
+        DECLARE
+            response_body JSONB;
+            error_message TEXT;
+        BEGIN
+            SELECT content INTO response_body
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'inbox_email', inbox_record.email,
+                    'access_token', inbox_record.access_token, -- Assuming you store this securely
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body
+                )
+            );
+
+            -- 6. Update status based on response
+            UPDATE email_queue SET status = 'sent', sent_at = NOW(), updated_at = NOW() WHERE id = email_to_send.id;
+
+            -- 7. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 8. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                UPDATE email_queue
+                SET
+                    status = 'failed',
+                    error_message = 'Edge function error: ' || error_message,
+                    updated_at = NOW()
+                WHERE id = email_to_send.id;
+
+                queue_id := email_to_send.id;
+                status := 'failed';
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
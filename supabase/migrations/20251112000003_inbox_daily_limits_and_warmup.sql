@@ -0,0 +1,319 @@
+-- Migration: Per-Inbox Daily Limits and Warm-Up Ramps
+-- This migration replaces the hard-coded limit of 40 emails per inbox in
+-- `process_email_queue` with each inbox's configured `daily_send_limit`. Inboxes in
+-- `warming` status follow a ramp (starting volume, daily increment, target) and are
+-- promoted to `active` automatically once the target is reached.
+
+-- Step 1: Warm-up ramp schedules, one per inbox
+CREATE TABLE IF NOT EXISTS inbox_warmup_schedules (
+    inbox_id BIGINT PRIMARY KEY REFERENCES inboxes(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    start_volume INT NOT NULL DEFAULT 5 CHECK (start_volume > 0),
+    daily_increment INT NOT NULL DEFAULT 2 CHECK (daily_increment >= 0),
+    target_volume INT NOT NULL DEFAULT 40 CHECK (target_volume > 0),
+    started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS inbox_warmup_schedules_user_id_idx ON inbox_warmup_schedules(user_id);
+
+ALTER TABLE inbox_warmup_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own warm-up schedules"
+ON inbox_warmup_schedules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own warm-up schedules"
+ON inbox_warmup_schedules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own warm-up schedules"
+ON inbox_warmup_schedules FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own warm-up schedules"
+ON inbox_warmup_schedules FOR DELETE
+USING (auth.uid() = user_id);
+
+GRANT ALL ON inbox_warmup_schedules TO authenticated;
+
+
+-- Step 2: Every warming inbox gets a ramp
+-- Inboxes entering `warming` get the default ramp up to their daily limit, so
+-- `advance_inbox_warmups` can promote them. An inbox that warms up again keeps the ramp
+-- the user set, but starts it over from today.
+CREATE OR REPLACE FUNCTION create_default_warmup_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO inbox_warmup_schedules (inbox_id, user_id, target_volume)
+    VALUES (NEW.id, NEW.user_id, COALESCE(NEW.daily_send_limit, 40))
+    ON CONFLICT (inbox_id) DO UPDATE
+    SET started_on = CURRENT_DATE,
+        completed_at = NULL,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS inboxes_create_warmup_schedule ON inboxes;
+CREATE TRIGGER inboxes_create_warmup_schedule
+AFTER INSERT OR UPDATE OF status ON inboxes
+FOR EACH ROW
+WHEN (NEW.status = 'warming' AND NEW.user_id IS NOT NULL)
+EXECUTE FUNCTION create_default_warmup_schedule();
+
+-- Inboxes already warming before this migration start their ramp today
+INSERT INTO inbox_warmup_schedules (inbox_id, user_id, target_volume)
+SELECT id, user_id, COALESCE(daily_send_limit, 40)
+FROM inboxes
+WHERE status = 'warming' AND user_id IS NOT NULL
+ON CONFLICT (inbox_id) DO NOTHING;
+
+
+-- Step 3: Effective daily limit, now following the warm-up ramp
+-- A warming inbox sends `start_volume` on its first day and `daily_increment` more each
+-- day after, never exceeding its target or its configured daily limit. Warming inboxes
+-- without a schedule use the table defaults.
+DROP FUNCTION IF EXISTS inbox_effective_daily_limit(BIGINT);
+
+CREATE OR REPLACE FUNCTION inbox_effective_daily_limit(target_inbox_id BIGINT, on_date DATE DEFAULT CURRENT_DATE)
+RETURNS INT AS $$
+DECLARE
+    inbox_record RECORD;
+    configured_limit INT;
+    ramp_start INT;
+    ramp_increment INT;
+    ramp_target INT;
+    ramp_started_on DATE;
+BEGIN
+    SELECT status, daily_send_limit INTO inbox_record FROM inboxes WHERE id = target_inbox_id;
+
+    IF inbox_record IS NULL OR inbox_record.status = 'error' THEN
+        RETURN 0;
+    END IF;
+
+    configured_limit := COALESCE(inbox_record.daily_send_limit, 40);
+
+    IF inbox_record.status <> 'warming' THEN
+        RETURN configured_limit;
+    END IF;
+
+    SELECT start_volume, daily_increment, target_volume, started_on
+    INTO ramp_start, ramp_increment, ramp_target, ramp_started_on
+    FROM inbox_warmup_schedules
+    WHERE inbox_id = target_inbox_id;
+
+    IF NOT FOUND THEN
+        ramp_start := 5;
+        ramp_increment := 2;
+        ramp_target := configured_limit;
+        ramp_started_on := on_date;
+    END IF;
+
+    RETURN LEAST(
+        ramp_start + ramp_increment * GREATEST(on_date - ramp_started_on, 0),
+        ramp_target,
+        configured_limit
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION inbox_remaining_capacity(target_inbox_id BIGINT, on_date DATE)
+RETURNS INT AS $$
+DECLARE
+    scheduled_count INT;
+BEGIN
+    SELECT COUNT(*) INTO scheduled_count
+    FROM email_queue
+    WHERE inbox_id = target_inbox_id
+      AND send_at::DATE = on_date
+      AND status IN ('queued', 'rescheduled', 'sending', 'sent');
+
+    RETURN inbox_effective_daily_limit(target_inbox_id, on_date) - scheduled_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 4: Promote inboxes that have reached their warm-up target
+CREATE OR REPLACE FUNCTION advance_inbox_warmups()
+RETURNS INT AS $$
+DECLARE
+    promoted_count INT;
+BEGIN
+    WITH finished AS (
+        UPDATE inbox_warmup_schedules w
+        SET completed_at = NOW(), updated_at = NOW()
+        FROM inboxes i
+        WHERE i.id = w.inbox_id
+          AND i.status = 'warming'
+          AND w.completed_at IS NULL
+          AND w.start_volume + w.daily_increment * GREATEST(CURRENT_DATE - w.started_on, 0) >= w.target_volume
+        RETURNING w.inbox_id
+    )
+    UPDATE inboxes
+    SET status = 'active', updated_at = NOW()
+    WHERE id IN (SELECT inbox_id FROM finished);
+
+    GET DIAGNOSTICS promoted_count = ROW_COUNT;
+    RETURN promoted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run shortly after midnight, when each ramp moves up a step
+SELECT cron.schedule(
+    'advance-inbox-warmups-job',
+    '5 0 * * *', -- Every day at 00:05
+    $$ SELECT advance_inbox_warmups(); $$
+);
+
+-- To unschedule the job:
+-- SELECT cron.unschedule('advance-inbox-warmups-job');
+
+
+-- Step 5: Enforce each inbox's own limit when sending
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    inbox_record RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get inbox and contact details
+        SELECT * INTO inbox_record FROM inboxes WHERE id = email_to_send.inbox_id;
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 5. Invoke the Edge Function to send the email
+        DECLARE
+            response_body JSONB;
+            error_message TEXT;
+        BEGIN
+            SELECT content INTO response_body
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'inbox_email', inbox_record.email,
+                    'access_token', inbox_record.access_token, -- Assuming you store this securely
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body
+                )
+            );
+
+            -- 6. Update status based on response
+            UPDATE email_queue SET status = 'sent', sent_at = NOW(), updated_at = NOW() WHERE id = email_to_send.id;
+
+            -- 7. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 8. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                UPDATE email_queue
+                SET
+                    status = 'failed',
+                    error_message = 'Edge function error: ' || error_message,
+                    updated_at = NOW()
+                WHERE id = email_to_send.id;
+
+                queue_id := email_to_send.id;
+                status := 'failed';
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,343 @@
+-- Migration: Send Retries with Backoff and Dead-Letter Handling
+-- This migration stops `process_email_queue` from failing an email permanently on the
+-- first error. Each send attempt is recorded, transient failures (rate limits, provider
+-- 5xx, token refresh hiccups) are retried with exponential backoff, and emails that run
+-- out of attempts are moved to `dead_letter` where users can inspect and requeue them.
+--
+-- The retry classification only takes effect on the `email-dispatcher` path
+-- (20251112000018_email_dispatcher.sql), which reads each worker response and passes it
+-- to `record_send_failure`. `process_email_queue` reads the response in the statement
+-- that sends the request, but pg_net is asynchronous: `net.http_post` only queues the
+-- request and returns its id, so Step 6 never sees the worker's answer.
+
+-- Step 1: Terminal state for emails that exhausted their retries
+ALTER TYPE email_status ADD VALUE IF NOT EXISTS 'dead_letter';
+
+-- Step 2: Attempt counters on the queue
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'attempt_count'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN attempt_count INT NOT NULL DEFAULT 0;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'max_attempts'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN max_attempts INT NOT NULL DEFAULT 5;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'last_attempt_at'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN last_attempt_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+-- Step 3: Attempt history
+CREATE TABLE IF NOT EXISTS email_send_attempts (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    email_queue_id BIGINT REFERENCES email_queue(id) ON DELETE CASCADE NOT NULL,
+    attempt_number INT NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('sent', 'retry', 'failed', 'dead_letter')),
+    retryable BOOLEAN,
+    status_code INT,
+    error_message TEXT,
+    attempted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_send_attempts_email_queue_id_idx ON email_send_attempts(email_queue_id);
+CREATE INDEX IF NOT EXISTS email_send_attempts_user_id_idx ON email_send_attempts(user_id);
+
+ALTER TABLE email_send_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are written by the queue processor only
+CREATE POLICY "Users can view their own send attempts"
+ON email_send_attempts FOR SELECT
+USING (auth.uid() = user_id);
+
+GRANT SELECT ON email_send_attempts TO authenticated;
+
+
+-- Step 4: Record the outcome of a send attempt
+CREATE OR REPLACE FUNCTION record_send_success(target_queue_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    attempt INT;
+BEGIN
+    UPDATE email_queue
+    SET
+        status = 'sent',
+        sent_at = NOW(),
+        attempt_count = attempt_count + 1,
+        last_attempt_at = NOW(),
+        error_message = NULL,
+        updated_at = NOW()
+    WHERE id = target_queue_id
+    RETURNING attempt_count INTO attempt;
+
+    INSERT INTO email_send_attempts (user_id, email_queue_id, attempt_number, outcome)
+    SELECT user_id, id, attempt, 'sent' FROM email_queue WHERE id = target_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retryable failures are pushed back by 5 minutes, doubling with each attempt up to
+-- 4 hours, plus up to a minute of jitter so a provider outage doesn't release every
+-- retry at once. Returns the email's new status.
+CREATE OR REPLACE FUNCTION record_send_failure(
+    target_queue_id BIGINT,
+    failure_message TEXT,
+    is_retryable BOOLEAN,
+    provider_status_code INT
+)
+RETURNS TEXT AS $$
+DECLARE
+    queued_email RECORD;
+    base_backoff INTERVAL := INTERVAL '5 minutes';
+    max_backoff INTERVAL := INTERVAL '4 hours';
+    backoff INTERVAL;
+    new_status TEXT;
+BEGIN
+    UPDATE email_queue
+    SET
+        attempt_count = attempt_count + 1,
+        last_attempt_at = NOW()
+    WHERE id = target_queue_id
+    RETURNING * INTO queued_email;
+
+    IF NOT is_retryable THEN
+        new_status := 'failed';
+    ELSIF queued_email.attempt_count >= queued_email.max_attempts THEN
+        new_status := 'dead_letter';
+    ELSE
+        new_status := 'rescheduled';
+    END IF;
+
+    IF new_status = 'rescheduled' THEN
+        backoff := LEAST(base_backoff * power(2, queued_email.attempt_count - 1), max_backoff)
+            + floor(random() * 60) * INTERVAL '1 second';
+
+        UPDATE email_queue
+        SET
+            status = 'rescheduled',
+            send_at = next_send_slot(NOW() + backoff, campaign_id, contact_id, inbox_id),
+            error_message = failure_message,
+            updated_at = NOW()
+        WHERE id = target_queue_id;
+    ELSE
+        UPDATE email_queue
+        SET
+            status = new_status::email_status,
+            error_message = failure_message,
+            updated_at = NOW()
+        WHERE id = target_queue_id;
+    END IF;
+
+    INSERT INTO email_send_attempts (user_id, email_queue_id, attempt_number, outcome, retryable, status_code, error_message)
+    VALUES (
+        queued_email.user_id,
+        target_queue_id,
+        queued_email.attempt_count,
+        CASE new_status WHEN 'rescheduled' THEN 'retry' ELSE new_status END,
+        is_retryable,
+        provider_status_code,
+        failure_message
+    );
+
+    RETURN new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 5: Let users put a failed or dead-lettered email back in the queue
+-- Runs with the caller's permissions, so RLS limits it to their own emails.
+CREATE OR REPLACE FUNCTION requeue_email(target_queue_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    queued_email RECORD;
+BEGIN
+    SELECT * INTO queued_email
+    FROM email_queue
+    WHERE id = target_queue_id AND status IN ('failed', 'dead_letter');
+
+    IF queued_email IS NULL THEN
+        RAISE EXCEPTION 'Email % is not failed or dead-lettered.', target_queue_id;
+    END IF;
+
+    IF contact_has_stopped_sequence(queued_email.contact_id, queued_email.campaign_id) THEN
+        RAISE EXCEPTION 'The contact has replied or bounced, so email % will not be resent.', target_queue_id;
+    END IF;
+
+    UPDATE email_queue
+    SET
+        status = 'queued',
+        attempt_count = 0,
+        error_message = NULL,
+        send_at = next_send_slot(NOW(), campaign_id, contact_id, inbox_id),
+        updated_at = NOW()
+    WHERE id = target_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION requeue_email(BIGINT) TO authenticated;
+
+
+-- Step 6: Classify send failures in the queue processor
+-- Only reached where the request runs synchronously; see the note at the top
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get contact details
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 5. Invoke the Edge Function to send the email
+        DECLARE
+            http_response RECORD;
+            error_message TEXT;
+            failure_status TEXT;
+        BEGIN
+            -- The body comes back as text; cast it so the worker's fields can be read
+            SELECT status_code, content::JSONB AS content INTO http_response
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'queue_id', email_to_send.id,
+                    'inbox_id', email_to_send.inbox_id,
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body
+                )
+            );
+
+            -- 6. The worker reports whether a failed send is worth retrying
+            IF http_response.status_code NOT BETWEEN 200 AND 299 THEN
+                error_message := COALESCE(http_response.content->>'error', 'HTTP ' || http_response.status_code);
+                failure_status := record_send_failure(
+                    email_to_send.id,
+                    error_message,
+                    COALESCE(
+                        (http_response.content->>'retryable')::BOOLEAN,
+                        http_response.status_code = 429 OR http_response.status_code >= 500
+                    ),
+                    COALESCE((http_response.content->>'provider_status')::INT, http_response.status_code)
+                );
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+                CONTINUE;
+            END IF;
+
+            -- 7. Update status based on response
+            PERFORM record_send_success(email_to_send.id);
+
+            -- 8. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 9. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- The edge function could not be reached at all, which is always transient
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                failure_status := record_send_failure(email_to_send.id, 'Edge function error: ' || error_message, TRUE, NULL);
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,75 @@
+-- Migration: Pluggable Mail Transports
+-- This migration lets each inbox choose how `send-email-worker` delivers its mail
+-- through `inboxes.provider`: 'google' (Gmail API, the default), 'smtp' (any SMTP
+-- server) or 'sink' (no delivery; the rendered message is captured for staging and
+-- tests in `email_sink_messages`).
+
+-- Step 1: SMTP connection settings per inbox
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'smtp_host'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN smtp_host TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'smtp_port'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN smtp_port INT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'smtp_security'
+    ) THEN
+        -- 'tls' (implicit TLS, port 465), 'starttls' (port 587) or 'none'
+        ALTER TABLE inboxes ADD COLUMN smtp_security TEXT DEFAULT 'starttls'
+            CHECK (smtp_security IN ('tls', 'starttls', 'none'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'smtp_username'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN smtp_username TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'smtp_password'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN smtp_password TEXT; -- Encrypted by the add-smtp-inbox edge function
+    END IF;
+END$$;
+
+-- Step 2: Messages captured by the sink transport
+CREATE TABLE IF NOT EXISTS email_sink_messages (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    inbox_id BIGINT REFERENCES inboxes(id) ON DELETE CASCADE NOT NULL,
+    email_queue_id BIGINT REFERENCES email_queue(id) ON DELETE SET NULL,
+    mail_from TEXT NOT NULL,
+    rcpt_to TEXT NOT NULL,
+    subject TEXT,
+    raw_message TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_sink_messages_user_id_idx ON email_sink_messages(user_id);
+CREATE INDEX IF NOT EXISTS email_sink_messages_inbox_id_idx ON email_sink_messages(inbox_id);
+
+ALTER TABLE email_sink_messages ENABLE ROW LEVEL SECURITY;
+
+-- Messages are written by send-email-worker with the service role
+CREATE POLICY "Users can view their own sink messages"
+ON email_sink_messages FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sink messages"
+ON email_sink_messages FOR DELETE
+USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON email_sink_messages TO authenticated;
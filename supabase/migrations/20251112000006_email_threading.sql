@@ -0,0 +1,363 @@
+-- Migration: Email Threading for Follow-Up Steps
+-- This migration keeps every step of a sequence in one conversation. The IDs a
+-- provider returns for each sent email (Gmail message and thread IDs, and the RFC 5322
+-- `Message-ID`) are stored on its `email_queue` row, and follow-ups are sent with
+-- `In-Reply-To`/`References` headers and the Gmail `threadId` of the previous step.
+
+-- Step 1: Message identifiers of sent emails and the email each follow-up replies to
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'provider_message_id'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN provider_message_id TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'provider_thread_id'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN provider_thread_id TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'rfc_message_id'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN rfc_message_id TEXT; -- Including angle brackets
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'in_reply_to_queue_id'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN in_reply_to_queue_id BIGINT REFERENCES email_queue(id) ON DELETE SET NULL;
+    END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS email_queue_rfc_message_id_idx ON email_queue(rfc_message_id);
+
+
+-- Step 2: Store the identifiers returned by the worker
+DROP FUNCTION IF EXISTS record_send_success(BIGINT);
+
+CREATE OR REPLACE FUNCTION record_send_success(
+    target_queue_id BIGINT,
+    sent_provider_message_id TEXT DEFAULT NULL,
+    sent_provider_thread_id TEXT DEFAULT NULL,
+    sent_rfc_message_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    attempt INT;
+BEGIN
+    UPDATE email_queue
+    SET
+        status = 'sent',
+        sent_at = NOW(),
+        attempt_count = attempt_count + 1,
+        last_attempt_at = NOW(),
+        error_message = NULL,
+        provider_message_id = sent_provider_message_id,
+        provider_thread_id = sent_provider_thread_id,
+        rfc_message_id = sent_rfc_message_id,
+        updated_at = NOW()
+    WHERE id = target_queue_id
+    RETURNING attempt_count INTO attempt;
+
+    INSERT INTO email_send_attempts (user_id, email_queue_id, attempt_number, outcome)
+    SELECT user_id, id, attempt, 'sent' FROM email_queue WHERE id = target_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 3: Threading headers for a queued email
+-- `In-Reply-To` is the previous step's Message-ID and `References` lists every earlier
+-- Message-ID in the conversation, oldest first (RFC 5322 3.6.4).
+CREATE OR REPLACE FUNCTION email_thread_headers(target_queue_id BIGINT)
+RETURNS TABLE (
+    in_reply_to TEXT,
+    message_references TEXT,
+    provider_thread_id TEXT
+) AS $$
+    WITH RECURSIVE ancestors AS (
+        SELECT parent.id, parent.in_reply_to_queue_id, parent.rfc_message_id, parent.provider_thread_id, 1 AS depth
+        FROM email_queue child
+        JOIN email_queue parent ON parent.id = child.in_reply_to_queue_id
+        WHERE child.id = target_queue_id
+        UNION ALL
+        SELECT parent.id, parent.in_reply_to_queue_id, parent.rfc_message_id, parent.provider_thread_id, ancestors.depth + 1
+        FROM ancestors
+        JOIN email_queue parent ON parent.id = ancestors.in_reply_to_queue_id
+    )
+    SELECT
+        (SELECT a.rfc_message_id FROM ancestors a WHERE a.depth = 1),
+        (SELECT string_agg(a.rfc_message_id, ' ' ORDER BY a.depth DESC) FROM ancestors a WHERE a.rfc_message_id IS NOT NULL),
+        (SELECT a.provider_thread_id FROM ancestors a WHERE a.provider_thread_id IS NOT NULL ORDER BY a.depth ASC LIMIT 1);
+$$ LANGUAGE sql STABLE;
+
+
+-- Step 4: Link each follow-up to the email it replies to
+CREATE OR REPLACE FUNCTION schedule_next_step(sent_queue_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+    sent_email RECORD;
+    current_step RECORD;
+    next_step RECORD;
+    contact_record contacts%ROWTYPE;
+    next_subject TEXT;
+    next_send_time TIMESTAMPTZ;
+    new_queue_id BIGINT;
+BEGIN
+    SELECT * INTO sent_email FROM email_queue WHERE id = sent_queue_id;
+
+    IF sent_email IS NULL OR sent_email.status <> 'sent' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO current_step FROM email_steps WHERE id = sent_email.email_step_id;
+
+    SELECT es.*
+    INTO next_step
+    FROM email_steps es
+    WHERE es.sequence_id = sent_email.sequence_id
+      AND es.step_number > current_step.step_number
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF next_step IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Never schedule a follow-up for a contact who has replied to this campaign or bounced
+    IF contact_has_stopped_sequence(sent_email.contact_id, sent_email.campaign_id) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Only one queued row per step and contact
+    IF EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE campaign_id = sent_email.campaign_id
+          AND contact_id = sent_email.contact_id
+          AND email_step_id = next_step.id
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO contact_record FROM contacts WHERE id = sent_email.contact_id;
+
+    -- Follow-ups without a subject of their own (blank, or the "Re: Previous Email"
+    -- placeholder from the sequence builder) reply to the subject of the previous email,
+    -- which providers require to keep the message in the same thread.
+    next_subject := render_email_template(next_step.subject, contact_record);
+    IF COALESCE(btrim(next_subject), '') = '' OR next_subject = 'Re: Previous Email' THEN
+        next_subject := 'Re: ' || regexp_replace(sent_email.subject, '^(\s*re:\s*)+', '', 'i');
+    END IF;
+
+    -- The delay is measured from the moment the previous step went out,
+    -- with the same randomized 90-300s jitter used when the campaign starts,
+    -- then moved into the recipient's sending window.
+    next_send_time := COALESCE(sent_email.sent_at, NOW())
+        + (COALESCE(next_step.send_delay_days, 0) * INTERVAL '1 day')
+        + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second');
+    next_send_time := next_send_slot(next_send_time, sent_email.campaign_id, sent_email.contact_id, sent_email.inbox_id);
+
+    INSERT INTO email_queue (
+        user_id,
+        campaign_id,
+        contact_id,
+        inbox_id,
+        sequence_id,
+        email_step_id,
+        subject,
+        body,
+        send_at,
+        in_reply_to_queue_id
+    )
+    VALUES (
+        sent_email.user_id,
+        sent_email.campaign_id,
+        sent_email.contact_id,
+        sent_email.inbox_id, -- Follow-ups go out from the same mailbox as the previous step
+        sent_email.sequence_id,
+        next_step.id,
+        next_subject,
+        build_email_body(next_step.body, contact_record),
+        next_send_time,
+        sent_email.id
+    )
+    RETURNING id INTO new_queue_id;
+
+    RETURN new_queue_id;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 5: Send follow-ups with threading headers
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get contact details
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 5. Invoke the Edge Function to send the email
+        DECLARE
+            http_response RECORD;
+            error_message TEXT;
+            failure_status TEXT;
+            thread_record RECORD;
+        BEGIN
+            -- Follow-ups reply to the previous email so they land in the same thread
+            SELECT * INTO thread_record FROM email_thread_headers(email_to_send.id);
+
+            -- The body comes back as text; cast it so the worker's fields can be read
+            SELECT status_code, content::JSONB AS content INTO http_response
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'queue_id', email_to_send.id,
+                    'inbox_id', email_to_send.inbox_id,
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body,
+                    'in_reply_to', thread_record.in_reply_to,
+                    'references', thread_record.message_references,
+                    'thread_id', thread_record.provider_thread_id
+                )
+            );
+
+            -- 6. The worker reports whether a failed send is worth retrying
+            IF http_response.status_code NOT BETWEEN 200 AND 299 THEN
+                error_message := COALESCE(http_response.content->>'error', 'HTTP ' || http_response.status_code);
+                failure_status := record_send_failure(
+                    email_to_send.id,
+                    error_message,
+                    COALESCE(
+                        (http_response.content->>'retryable')::BOOLEAN,
+                        http_response.status_code = 429 OR http_response.status_code >= 500
+                    ),
+                    COALESCE((http_response.content->>'provider_status')::INT, http_response.status_code)
+                );
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+                CONTINUE;
+            END IF;
+
+            -- 7. Update status based on response, keeping the IDs needed to thread follow-ups
+            PERFORM record_send_success(
+                email_to_send.id,
+                http_response.content->>'provider_message_id',
+                http_response.content->>'provider_thread_id',
+                http_response.content->>'message_id'
+            );
+
+            -- 8. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 9. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- The edge function could not be reached at all, which is always transient
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                failure_status := record_send_failure(email_to_send.id, 'Edge function error: ' || error_message, TRUE, NULL);
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,151 @@
+-- Migration: Unsubscribe Links
+-- This migration records unsubscribes on the contact. `send-email-worker` fills the
+-- `{{unsubscribe_link}}` placeholder with a signed per-recipient link to the
+-- `unsubscribe` edge function, which verifies the token (from the confirmation page or a
+-- one-click `List-Unsubscribe-Post` request) and calls `unsubscribe_contact`. That
+-- immediately cancels the contact's queued emails.
+
+-- Step 1: When a contact unsubscribed
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'contacts' AND column_name = 'unsubscribed_at'
+    ) THEN
+        ALTER TABLE contacts ADD COLUMN unsubscribed_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+
+-- Step 2: Unsubscribe a contact and stop everything still queued for them
+-- Called by the unsubscribe edge function with the service role after it has verified
+-- the token. Returns the number of cancelled emails.
+CREATE OR REPLACE FUNCTION unsubscribe_contact(target_contact_id BIGINT)
+RETURNS INT AS $$
+BEGIN
+    UPDATE contacts
+    SET unsubscribed_at = COALESCE(unsubscribed_at, NOW())
+    WHERE id = target_contact_id;
+
+    RETURN cancel_contact_sequence(target_contact_id, 'Contact unsubscribed');
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION unsubscribe_contact(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION unsubscribe_contact(BIGINT) TO service_role;
+
+
+-- Step 3: Unsubscribed contacts never get follow-ups or requeued emails
+CREATE OR REPLACE FUNCTION contact_has_stopped_sequence(target_contact_id BIGINT, target_campaign_id BIGINT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM contacts
+        WHERE id = target_contact_id AND unsubscribed_at IS NOT NULL
+    ) OR EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE contact_id = target_contact_id AND status = 'bounced'
+    ) OR EXISTS (
+        SELECT 1 FROM replies r
+        WHERE r.contact_id = target_contact_id
+          AND r.received_at >= (
+              SELECT MIN(eq.created_at) FROM email_queue eq
+              WHERE eq.campaign_id = target_campaign_id AND eq.contact_id = target_contact_id
+          )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 4: Unsubscribed contacts are left out when a campaign starts
+CREATE OR REPLACE FUNCTION start_campaign(campaign_id_to_start BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+    first_step RECORD;
+    -- This is a placeholder. In a real app, this would be dynamically generated
+    -- per contact, likely by calling the /api/generate-email endpoint from the frontend
+    -- before calling this function. For this implementation, we'll use the template from the step.
+    personalized_subject TEXT;
+    personalized_body TEXT;
+    -- Randomized delay between 90 and 300 seconds
+    random_delay_seconds INT;
+    campaign_start_time TIMESTAMPTZ := NOW();
+    current_send_time TIMESTAMPTZ := NOW();
+    selected_inbox_id BIGINT;
+    scheduled_send_time TIMESTAMPTZ;
+BEGIN
+    -- 1. Find the first step of the sequence for this campaign.
+    -- Later steps are enqueued by schedule_next_step() once the previous one is sent.
+    SELECT es.*
+    INTO first_step
+    FROM campaigns c
+    JOIN sequences s ON c.sequence_id = s.id
+    JOIN email_steps es ON es.sequence_id = s.id
+    WHERE c.id = campaign_id_to_start
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF first_step IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no email steps in its sequence.', campaign_id_to_start;
+    END IF;
+
+    -- 2. Loop through all contacts in the campaign's contact list, skipping anyone
+    --    who has unsubscribed
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_start
+          AND ct.unsubscribed_at IS NULL
+    LOOP
+        -- 3. Personalize the subject and body and add the CAN-SPAM footer
+        personalized_subject := render_email_template(first_step.subject, contact_record);
+        personalized_body := build_email_body(first_step.body, contact_record);
+
+        -- 4. Calculate the send time with a random delay
+        random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+        current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+        selected_inbox_id := select_campaign_inbox(campaign_id_to_start, contact_record.id, current_send_time::DATE);
+
+        -- 5. Move the send time into the recipient's local sending window. Recipients
+        --    whose window is closed keep their spacing from the moment it opens.
+        scheduled_send_time := next_send_slot(current_send_time, campaign_id_to_start, contact_record.id, selected_inbox_id);
+        IF scheduled_send_time > current_send_time THEN
+            scheduled_send_time := next_send_slot(
+                scheduled_send_time + (current_send_time - campaign_start_time),
+                campaign_id_to_start,
+                contact_record.id,
+                selected_inbox_id
+            );
+        END IF;
+
+        -- 6. Insert into the email queue
+        INSERT INTO email_queue (
+            user_id,
+            campaign_id,
+            contact_id,
+            inbox_id,
+            sequence_id,
+            email_step_id,
+            subject,
+            body,
+            send_at
+        )
+        VALUES (
+            (SELECT user_id FROM campaigns WHERE id = campaign_id_to_start),
+            campaign_id_to_start,
+            contact_record.id,
+            selected_inbox_id,
+            first_step.sequence_id,
+            first_step.id,
+            personalized_subject,
+            personalized_body,
+            scheduled_send_time
+        );
+    END LOOP;
+
+    -- 7. Update the campaign status to 'active'
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_start;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,401 @@
+-- Migration: Suppression List
+-- This migration adds a per-account do-not-contact list. Entries match a single email
+-- address, a whole domain (including its subdomains) or a wildcard pattern such as
+-- `*@competitor.com` or `info@*`. Suppressed contacts are never enqueued by
+-- `start_campaign`, and `process_email_queue` checks the list again right before each
+-- send so that entries added after a campaign started still take effect. Opt-out
+-- replies and unsubscribes add the contact's address automatically.
+
+-- Step 1: Suppression entries
+CREATE TABLE IF NOT EXISTS suppression_entries (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('email', 'domain', 'pattern')),
+    -- Stored lowercase; patterns use `*` for any run of characters and `?` for one
+    value TEXT NOT NULL CHECK (value = lower(btrim(value)) AND value <> ''),
+    reason TEXT NOT NULL DEFAULT 'manual', -- 'manual', 'import', 'opt_out' or 'unsubscribe'
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, entry_type, value)
+);
+
+CREATE INDEX IF NOT EXISTS suppression_entries_user_id_idx ON suppression_entries(user_id);
+
+ALTER TABLE suppression_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppression entries"
+ON suppression_entries FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own suppression entries"
+ON suppression_entries FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own suppression entries"
+ON suppression_entries FOR DELETE
+USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, DELETE ON suppression_entries TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE suppression_entries_id_seq TO authenticated;
+
+
+-- Step 2: Check an address against an account's suppression list
+CREATE OR REPLACE FUNCTION is_suppressed(target_user_id UUID, target_email TEXT)
+RETURNS BOOLEAN AS $$
+    WITH address AS (
+        SELECT
+            lower(btrim(target_email)) AS email,
+            split_part(lower(btrim(target_email)), '@', 2) AS domain
+    )
+    SELECT EXISTS (
+        SELECT 1
+        FROM suppression_entries s, address a
+        WHERE s.user_id = target_user_id
+          AND CASE s.entry_type
+              WHEN 'email' THEN a.email = s.value
+              WHEN 'domain' THEN a.domain = s.value OR right(a.domain, length(s.value) + 1) = '.' || s.value
+              -- Escape LIKE's own wildcards before translating `*` and `?`
+              WHEN 'pattern' THEN a.email LIKE replace(replace(
+                  replace(replace(replace(s.value, '\', '\\'), '%', '\%'), '_', '\_'),
+                  '*', '%'), '?', '_')
+              ELSE FALSE
+          END
+    );
+$$ LANGUAGE sql STABLE;
+
+
+-- Step 3: Suppress a contact's address and stop everything still queued for them
+CREATE OR REPLACE FUNCTION suppress_contact(target_contact_id BIGINT, suppression_reason TEXT)
+RETURNS INT AS $$
+BEGIN
+    INSERT INTO suppression_entries (user_id, entry_type, value, reason)
+    SELECT user_id, 'email', lower(btrim(email)), suppression_reason
+    FROM contacts
+    WHERE id = target_contact_id AND user_id IS NOT NULL
+    ON CONFLICT (user_id, entry_type, value) DO NOTHING;
+
+    RETURN cancel_contact_sequence(
+        target_contact_id,
+        CASE suppression_reason
+            WHEN 'opt_out' THEN 'Contact opted out'
+            WHEN 'unsubscribe' THEN 'Contact unsubscribed'
+            ELSE 'Contact suppressed'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION suppress_contact(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION suppress_contact(BIGINT, TEXT) TO service_role;
+
+
+-- Step 4: Opt-out replies and unsubscribes suppress the address
+CREATE OR REPLACE FUNCTION cancel_sequence_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.contact_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.intent = 'Opt-out' THEN
+        PERFORM suppress_contact(NEW.contact_id, 'opt_out');
+    ELSE
+        PERFORM cancel_contact_sequence(NEW.contact_id, 'Contact replied');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION unsubscribe_contact(target_contact_id BIGINT)
+RETURNS INT AS $$
+BEGIN
+    UPDATE contacts
+    SET unsubscribed_at = COALESCE(unsubscribed_at, NOW())
+    WHERE id = target_contact_id;
+
+    RETURN suppress_contact(target_contact_id, 'unsubscribe');
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 5: Suppressed contacts are left out when a campaign starts
+CREATE OR REPLACE FUNCTION start_campaign(campaign_id_to_start BIGINT)
+RETURNS VOID AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+    first_step RECORD;
+    -- This is a placeholder. In a real app, this would be dynamically generated
+    -- per contact, likely by calling the /api/generate-email endpoint from the frontend
+    -- before calling this function. For this implementation, we'll use the template from the step.
+    personalized_subject TEXT;
+    personalized_body TEXT;
+    -- Randomized delay between 90 and 300 seconds
+    random_delay_seconds INT;
+    campaign_start_time TIMESTAMPTZ := NOW();
+    current_send_time TIMESTAMPTZ := NOW();
+    selected_inbox_id BIGINT;
+    scheduled_send_time TIMESTAMPTZ;
+    campaign_user_id UUID;
+BEGIN
+    -- 1. Find the first step of the sequence for this campaign.
+    -- Later steps are enqueued by schedule_next_step() once the previous one is sent.
+    SELECT es.*
+    INTO first_step
+    FROM campaigns c
+    JOIN sequences s ON c.sequence_id = s.id
+    JOIN email_steps es ON es.sequence_id = s.id
+    WHERE c.id = campaign_id_to_start
+    ORDER BY es.step_number ASC
+    LIMIT 1;
+
+    IF first_step IS NULL THEN
+        RAISE EXCEPTION 'Campaign % has no email steps in its sequence.', campaign_id_to_start;
+    END IF;
+
+    SELECT user_id INTO campaign_user_id FROM campaigns WHERE id = campaign_id_to_start;
+
+    -- 2. Loop through all contacts in the campaign's contact list, skipping anyone
+    --    who has unsubscribed or is on the account's suppression list
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_start
+          AND ct.unsubscribed_at IS NULL
+          AND NOT is_suppressed(campaign_user_id, ct.email)
+    LOOP
+        -- 3. Personalize the subject and body and add the CAN-SPAM footer
+        personalized_subject := render_email_template(first_step.subject, contact_record);
+        personalized_body := build_email_body(first_step.body, contact_record);
+
+        -- 4. Calculate the send time with a random delay
+        random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+        current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+        selected_inbox_id := select_campaign_inbox(campaign_id_to_start, contact_record.id, current_send_time::DATE);
+
+        -- 5. Move the send time into the recipient's local sending window. Recipients
+        --    whose window is closed keep their spacing from the moment it opens.
+        scheduled_send_time := next_send_slot(current_send_time, campaign_id_to_start, contact_record.id, selected_inbox_id);
+        IF scheduled_send_time > current_send_time THEN
+            scheduled_send_time := next_send_slot(
+                scheduled_send_time + (current_send_time - campaign_start_time),
+                campaign_id_to_start,
+                contact_record.id,
+                selected_inbox_id
+            );
+        END IF;
+
+        -- 6. Insert into the email queue
+        INSERT INTO email_queue (
+            user_id,
+            campaign_id,
+            contact_id,
+            inbox_id,
+            sequence_id,
+            email_step_id,
+            subject,
+            body,
+            send_at
+        )
+        VALUES (
+            campaign_user_id,
+            campaign_id_to_start,
+            contact_record.id,
+            selected_inbox_id,
+            first_step.sequence_id,
+            first_step.id,
+            personalized_subject,
+            personalized_body,
+            scheduled_send_time
+        );
+    END LOOP;
+
+    -- 7. Update the campaign status to 'active'
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_start;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 6: Check the suppression list again right before sending
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    contact_record RECORD;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get contact details
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Never send to a suppressed address, even one added after the email was queued
+        IF is_suppressed(email_to_send.user_id, contact_record.email) THEN
+            UPDATE email_queue
+            SET
+                status = 'cancelled',
+                error_message = 'Recipient is on the suppression list',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'cancelled';
+            message := 'Recipient is suppressed';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 5. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 6. Invoke the Edge Function to send the email
+        DECLARE
+            http_response RECORD;
+            error_message TEXT;
+            failure_status TEXT;
+            thread_record RECORD;
+        BEGIN
+            -- Follow-ups reply to the previous email so they land in the same thread
+            SELECT * INTO thread_record FROM email_thread_headers(email_to_send.id);
+
+            -- The body comes back as text; cast it so the worker's fields can be read
+            SELECT status_code, content::JSONB AS content INTO http_response
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'queue_id', email_to_send.id,
+                    'inbox_id', email_to_send.inbox_id,
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body,
+                    'in_reply_to', thread_record.in_reply_to,
+                    'references', thread_record.message_references,
+                    'thread_id', thread_record.provider_thread_id
+                )
+            );
+
+            -- 7. The worker reports whether a failed send is worth retrying
+            IF http_response.status_code NOT BETWEEN 200 AND 299 THEN
+                error_message := COALESCE(http_response.content->>'error', 'HTTP ' || http_response.status_code);
+                failure_status := record_send_failure(
+                    email_to_send.id,
+                    error_message,
+                    COALESCE(
+                        (http_response.content->>'retryable')::BOOLEAN,
+                        http_response.status_code = 429 OR http_response.status_code >= 500
+                    ),
+                    COALESCE((http_response.content->>'provider_status')::INT, http_response.status_code)
+                );
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+                CONTINUE;
+            END IF;
+
+            -- 8. Update status based on response, keeping the IDs needed to thread follow-ups
+            PERFORM record_send_success(
+                email_to_send.id,
+                http_response.content->>'provider_message_id',
+                http_response.content->>'provider_thread_id',
+                http_response.content->>'message_id'
+            );
+
+            -- 9. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 10. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- The edge function could not be reached at all, which is always transient
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                failure_status := record_send_failure(email_to_send.id, 'Edge function error: ' || error_message, TRUE, NULL);
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
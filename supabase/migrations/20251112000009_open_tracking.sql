@@ -0,0 +1,177 @@
+-- Migration: Open Tracking
+-- This migration records email opens. `send-email-worker` adds a per-message tracking
+-- pixel to every queued email, and the public `track-open` edge function calls
+-- `record_email_open` whenever it is loaded. Opens that look automated (mail privacy
+-- proxies, security scanners, pixels fetched seconds after delivery) are kept but
+-- flagged, and `get_campaign_stats` now reports real unique and total open counts
+-- from the remaining human opens.
+
+-- Step 1: Engagement events for sent emails
+CREATE TABLE IF NOT EXISTS email_events (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    email_queue_id BIGINT REFERENCES email_queue(id) ON DELETE CASCADE NOT NULL,
+    campaign_id BIGINT REFERENCES campaigns(id) ON DELETE CASCADE,
+    contact_id BIGINT REFERENCES contacts(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('open')),
+    -- Likely automated (e.g. Apple Mail Privacy Protection); excluded from stats
+    is_machine BOOLEAN NOT NULL DEFAULT FALSE,
+    machine_reason TEXT,
+    user_agent TEXT,
+    ip_address TEXT,
+    occurred_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_events_email_queue_id_idx ON email_events(email_queue_id);
+CREATE INDEX IF NOT EXISTS email_events_campaign_id_idx ON email_events(campaign_id, event_type);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the tracking edge functions with the service role
+CREATE POLICY "Users can view their own email events"
+ON email_events FOR SELECT
+USING (auth.uid() = user_id);
+
+GRANT SELECT ON email_events TO authenticated;
+
+
+-- Step 2: Record an open from the tracking pixel
+-- The edge function flags opens it can recognise from the request (user agent, IP);
+-- opens arriving within a minute of the send are flagged here, since only automated
+-- prefetching is that fast.
+CREATE OR REPLACE FUNCTION record_email_open(
+    target_queue_id BIGINT,
+    open_user_agent TEXT DEFAULT NULL,
+    open_ip_address TEXT DEFAULT NULL,
+    machine_open_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    sent_email RECORD;
+    detected_reason TEXT := machine_open_reason;
+BEGIN
+    SELECT id, user_id, campaign_id, contact_id, sent_at
+    INTO sent_email
+    FROM email_queue
+    WHERE id = target_queue_id AND status = 'sent';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF detected_reason IS NULL AND sent_email.sent_at > NOW() - INTERVAL '1 minute' THEN
+        detected_reason := 'Opened within a minute of sending';
+    END IF;
+
+    INSERT INTO email_events (
+        user_id,
+        email_queue_id,
+        campaign_id,
+        contact_id,
+        event_type,
+        is_machine,
+        machine_reason,
+        user_agent,
+        ip_address
+    )
+    VALUES (
+        sent_email.user_id,
+        sent_email.id,
+        sent_email.campaign_id,
+        sent_email.contact_id,
+        'open',
+        detected_reason IS NOT NULL,
+        detected_reason,
+        open_user_agent,
+        open_ip_address
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_email_open(BIGINT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_email_open(BIGINT, TEXT, TEXT, TEXT) TO service_role;
+
+
+-- Step 3: Real open rates in the campaign stats
+-- The return type changes, so the function has to be dropped first. Open rate is the
+-- share of contacts who received at least one email and opened one of them.
+-- Replies are matched to campaigns through the email they answer.
+DROP FUNCTION IF EXISTS get_campaign_stats();
+
+CREATE OR REPLACE FUNCTION get_campaign_stats()
+RETURNS TABLE (
+    id BIGINT,
+    name TEXT,
+    status campaign_status,
+    contacts BIGINT,
+    sent BIGINT,
+    unique_opens BIGINT,
+    total_opens BIGINT,
+    open_rate NUMERIC,
+    reply_rate NUMERIC
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH sends AS (
+        SELECT
+            eq.campaign_id,
+            COUNT(*) AS sent,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached
+        FROM email_queue eq
+        WHERE eq.status = 'sent'
+        GROUP BY eq.campaign_id
+    ),
+    opens AS (
+        SELECT
+            ev.campaign_id,
+            COUNT(DISTINCT ev.contact_id) AS unique_opens,
+            COUNT(*) AS total_opens
+        FROM email_events ev
+        WHERE ev.event_type = 'open' AND NOT ev.is_machine
+        GROUP BY ev.campaign_id
+    )
+    SELECT
+        c.id,
+        c.name,
+        c.status,
+        (SELECT COUNT(*) FROM campaign_contacts cc WHERE cc.campaign_id = c.id) as contacts,
+        COALESCE(s.sent, 0) as sent,
+        COALESCE(o.unique_opens, 0) as unique_opens,
+        COALESCE(o.total_opens, 0) as total_opens,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(o.unique_opens, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as open_rate,
+        (
+            SELECT
+                CASE
+                    WHEN (SELECT COUNT(*) FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id) > 0
+                    THEN (
+                        (SELECT COUNT(DISTINCT r.contact_id)::NUMERIC
+                         FROM replies r
+                         JOIN email_queue req ON req.id = r.email_queue_id
+                         WHERE req.campaign_id = c.id) /
+                        (SELECT COUNT(*)::NUMERIC FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id)
+                    ) * 100
+                    ELSE 0
+                END
+        ) as reply_rate
+    FROM
+        campaigns c
+    LEFT JOIN sends s ON s.campaign_id = c.id
+    LEFT JOIN opens o ON o.campaign_id = c.id
+    WHERE
+        c.user_id = auth.uid()
+    ORDER BY
+        c.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION get_campaign_stats() SET search_path = public;
+
+GRANT EXECUTE
+ON FUNCTION public.get_campaign_stats()
+TO authenticated;
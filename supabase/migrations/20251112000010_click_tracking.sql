@@ -0,0 +1,208 @@
+-- Migration: Click Tracking
+-- This migration records link clicks. For campaigns with `track_clicks` enabled,
+-- `send-email-worker` rewrites every http(s) link in the body to a signed URL on the
+-- public `track-click` edge function, which calls `record_email_click` and redirects to
+-- the original link. `get_campaign_stats` gains click counts and click-through rate,
+-- plus open and click numbers for each step of the sequence in `step_stats`.
+
+-- Step 1: Link rewriting is opt-in per campaign
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaigns' AND column_name = 'track_clicks'
+    ) THEN
+        ALTER TABLE campaigns ADD COLUMN track_clicks BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_events' AND column_name = 'url'
+    ) THEN
+        ALTER TABLE email_events ADD COLUMN url TEXT; -- The original link, for clicks
+    END IF;
+END$$;
+
+ALTER TABLE email_events DROP CONSTRAINT IF EXISTS email_events_event_type_check;
+ALTER TABLE email_events ADD CONSTRAINT email_events_event_type_check CHECK (event_type IN ('open', 'click'));
+
+
+-- Step 2: Record a click from the redirect endpoint
+-- Link-scanning mail gateways follow every link as soon as an email arrives, so clicks
+-- within a minute of the send are flagged like machine opens.
+CREATE OR REPLACE FUNCTION record_email_click(
+    target_queue_id BIGINT,
+    clicked_url TEXT,
+    click_user_agent TEXT DEFAULT NULL,
+    click_ip_address TEXT DEFAULT NULL,
+    machine_click_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    sent_email RECORD;
+    detected_reason TEXT := machine_click_reason;
+BEGIN
+    SELECT id, user_id, campaign_id, contact_id, sent_at
+    INTO sent_email
+    FROM email_queue
+    WHERE id = target_queue_id AND status = 'sent';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF detected_reason IS NULL AND sent_email.sent_at > NOW() - INTERVAL '1 minute' THEN
+        detected_reason := 'Clicked within a minute of sending';
+    END IF;
+
+    INSERT INTO email_events (
+        user_id,
+        email_queue_id,
+        campaign_id,
+        contact_id,
+        event_type,
+        url,
+        is_machine,
+        machine_reason,
+        user_agent,
+        ip_address
+    )
+    VALUES (
+        sent_email.user_id,
+        sent_email.id,
+        sent_email.campaign_id,
+        sent_email.contact_id,
+        'click',
+        clicked_url,
+        detected_reason IS NOT NULL,
+        detected_reason,
+        click_user_agent,
+        click_ip_address
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_email_click(BIGINT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_email_click(BIGINT, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+
+-- Step 3: Click-through rates per campaign and per step
+-- Rates are shares of the contacts who received the campaign (or that step).
+DROP FUNCTION IF EXISTS get_campaign_stats();
+
+CREATE OR REPLACE FUNCTION get_campaign_stats()
+RETURNS TABLE (
+    id BIGINT,
+    name TEXT,
+    status campaign_status,
+    contacts BIGINT,
+    sent BIGINT,
+    unique_opens BIGINT,
+    total_opens BIGINT,
+    open_rate NUMERIC,
+    unique_clicks BIGINT,
+    total_clicks BIGINT,
+    click_rate NUMERIC,
+    reply_rate NUMERIC,
+    step_stats JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH sends AS (
+        SELECT
+            eq.campaign_id,
+            COUNT(*) AS sent,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached
+        FROM email_queue eq
+        WHERE eq.status = 'sent'
+        GROUP BY eq.campaign_id
+    ),
+    engagement AS (
+        SELECT
+            ev.campaign_id,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(*) FILTER (WHERE ev.event_type = 'open') AS total_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks,
+            COUNT(*) FILTER (WHERE ev.event_type = 'click') AS total_clicks
+        FROM email_events ev
+        WHERE NOT ev.is_machine
+        GROUP BY ev.campaign_id
+    ),
+    -- The same numbers for each step of the sequence
+    steps AS (
+        SELECT
+            eq.campaign_id,
+            es.step_number,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks
+        FROM email_queue eq
+        JOIN email_steps es ON es.id = eq.email_step_id
+        LEFT JOIN email_events ev ON ev.email_queue_id = eq.id AND NOT ev.is_machine
+        WHERE eq.status = 'sent'
+        GROUP BY eq.campaign_id, es.step_number
+    )
+    SELECT
+        c.id,
+        c.name,
+        c.status,
+        (SELECT COUNT(*) FROM campaign_contacts cc WHERE cc.campaign_id = c.id) as contacts,
+        COALESCE(s.sent, 0) as sent,
+        COALESCE(e.unique_opens, 0) as unique_opens,
+        COALESCE(e.total_opens, 0) as total_opens,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_opens, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as open_rate,
+        COALESCE(e.unique_clicks, 0) as unique_clicks,
+        COALESCE(e.total_clicks, 0) as total_clicks,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_clicks, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as click_rate,
+        (
+            SELECT
+                CASE
+                    WHEN (SELECT COUNT(*) FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id) > 0
+                    THEN (
+                        (SELECT COUNT(DISTINCT r.contact_id)::NUMERIC
+                         FROM replies r
+                         JOIN email_queue req ON req.id = r.email_queue_id
+                         WHERE req.campaign_id = c.id) /
+                        (SELECT COUNT(*)::NUMERIC FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id)
+                    ) * 100
+                    ELSE 0
+                END
+        ) as reply_rate,
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'step_number', st.step_number,
+                'sent', st.contacts_reached,
+                'unique_opens', st.unique_opens,
+                'unique_clicks', st.unique_clicks,
+                'open_rate', round((st.unique_opens::NUMERIC / st.contacts_reached) * 100, 1),
+                'click_rate', round((st.unique_clicks::NUMERIC / st.contacts_reached) * 100, 1)
+            ) ORDER BY st.step_number)
+            FROM steps st
+            WHERE st.campaign_id = c.id
+        ), '[]'::JSONB) as step_stats
+    FROM
+        campaigns c
+    LEFT JOIN sends s ON s.campaign_id = c.id
+    LEFT JOIN engagement e ON e.campaign_id = c.id
+    WHERE
+        c.user_id = auth.uid()
+    ORDER BY
+        c.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION get_campaign_stats() SET search_path = public;
+
+GRANT EXECUTE
+ON FUNCTION public.get_campaign_stats()
+TO authenticated;
@@ -0,0 +1,182 @@
+-- Migration: Reply Sync
+-- This migration lets the `reply-sync-worker` edge function fill the `replies` table.
+-- The worker polls each connected Gmail inbox incrementally from the last seen
+-- history ID, and hands every new inbound message to `record_inbound_reply`, which
+-- matches it to the sent `email_queue` row it answers (by Gmail thread, `In-Reply-To`
+-- or `References`) and stores it with its contact, campaign, email and inbox.
+-- Inserting the reply stops the contact's sequence through the existing trigger.
+
+-- Step 1: Where each reply came from
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'replies' AND column_name = 'campaign_id'
+    ) THEN
+        ALTER TABLE replies ADD COLUMN campaign_id BIGINT REFERENCES campaigns(id) ON DELETE SET NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'replies' AND column_name = 'from_email'
+    ) THEN
+        ALTER TABLE replies ADD COLUMN from_email TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'replies' AND column_name = 'provider_message_id'
+    ) THEN
+        ALTER TABLE replies ADD COLUMN provider_message_id TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'replies' AND column_name = 'rfc_message_id'
+    ) THEN
+        ALTER TABLE replies ADD COLUMN rfc_message_id TEXT;
+    END IF;
+END$$;
+
+-- A message is only ever stored once per inbox, however often it is synced
+CREATE UNIQUE INDEX IF NOT EXISTS replies_inbox_provider_message_idx ON replies(inbox_id, provider_message_id);
+CREATE INDEX IF NOT EXISTS replies_campaign_id_idx ON replies(campaign_id);
+CREATE INDEX IF NOT EXISTS email_queue_provider_thread_id_idx ON email_queue(provider_thread_id);
+
+
+-- Step 2: Sync progress per inbox
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'gmail_history_id'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN gmail_history_id TEXT; -- Last Gmail history ID processed
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'replies_synced_at'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN replies_synced_at TIMESTAMPTZ;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'reply_sync_error'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN reply_sync_error TEXT;
+    END IF;
+END$$;
+
+
+-- Step 3: Find the sent email an inbound message answers
+-- The Gmail thread is the most reliable link; `In-Reply-To` and `References` cover
+-- clients that start a new thread. Later steps win, since they are what was answered.
+CREATE OR REPLACE FUNCTION match_reply_to_email(
+    target_inbox_id BIGINT,
+    reply_thread_id TEXT,
+    reply_in_reply_to TEXT,
+    reply_references TEXT
+)
+RETURNS BIGINT AS $$
+    SELECT eq.id
+    FROM email_queue eq
+    WHERE eq.inbox_id = target_inbox_id
+      AND eq.status = 'sent'
+      AND (
+          (reply_thread_id IS NOT NULL AND eq.provider_thread_id = reply_thread_id)
+          OR (reply_in_reply_to IS NOT NULL AND eq.rfc_message_id = btrim(reply_in_reply_to))
+          OR (
+              reply_references IS NOT NULL
+              AND eq.rfc_message_id = ANY (regexp_split_to_array(btrim(reply_references), '\s+'))
+          )
+      )
+    ORDER BY
+        (eq.rfc_message_id IS NOT DISTINCT FROM btrim(reply_in_reply_to)) DESC,
+        eq.sent_at DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+
+-- Step 4: Store an inbound message as a reply
+-- Returns the new reply's ID, or NULL when the message doesn't answer one of our
+-- emails or was already stored.
+CREATE OR REPLACE FUNCTION record_inbound_reply(
+    target_inbox_id BIGINT,
+    reply_provider_message_id TEXT,
+    reply_thread_id TEXT,
+    reply_rfc_message_id TEXT,
+    reply_in_reply_to TEXT,
+    reply_references TEXT,
+    reply_from_email TEXT,
+    reply_subject TEXT,
+    reply_body TEXT,
+    reply_received_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BIGINT AS $$
+DECLARE
+    matched_queue_id BIGINT;
+    sent_email RECORD;
+    new_reply_id BIGINT;
+BEGIN
+    matched_queue_id := match_reply_to_email(target_inbox_id, reply_thread_id, reply_in_reply_to, reply_references);
+
+    IF matched_queue_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT user_id, campaign_id, contact_id INTO sent_email FROM email_queue WHERE id = matched_queue_id;
+
+    INSERT INTO replies (
+        user_id,
+        email_queue_id,
+        contact_id,
+        campaign_id,
+        inbox_id,
+        from_email,
+        subject,
+        body,
+        received_at,
+        provider_message_id,
+        rfc_message_id
+    )
+    VALUES (
+        sent_email.user_id,
+        matched_queue_id,
+        sent_email.contact_id,
+        sent_email.campaign_id,
+        target_inbox_id,
+        reply_from_email,
+        reply_subject,
+        COALESCE(reply_body, ''),
+        COALESCE(reply_received_at, NOW()),
+        reply_provider_message_id,
+        reply_rfc_message_id
+    )
+    ON CONFLICT (inbox_id, provider_message_id) DO NOTHING
+    RETURNING id INTO new_reply_id;
+
+    RETURN new_reply_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_inbound_reply(BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_inbound_reply(BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+
+-- Step 5: Poll for replies every five minutes
+-- Fire and forget: the worker records its progress on each inbox
+CREATE OR REPLACE FUNCTION invoke_reply_sync_worker()
+RETURNS BIGINT AS $$
+    SELECT invoke_worker_function('reply-sync-worker');
+$$ LANGUAGE sql;
+
+SELECT cron.schedule(
+    'sync-inbox-replies-job',
+    '*/5 * * * *', -- Every 5 minutes
+    $$ SELECT invoke_reply_sync_worker(); $$
+);
+
+-- To unschedule the job:
+-- SELECT cron.unschedule('sync-inbox-replies-job');
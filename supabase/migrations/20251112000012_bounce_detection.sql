@@ -0,0 +1,341 @@
+-- Migration: Bounce Detection
+-- This migration records delivery failures found by `reply-sync-worker`, which parses
+-- DSNs and non-delivery reports (`_shared/dsn.ts`) instead of storing them as replies.
+-- `record_bounce` finds the email that bounced and logs the bounce. A hard bounce marks
+-- that email as bounced (stopping the contact's sequence), flags the contact and adds
+-- the address to the suppression list so no other campaign mails it again. Soft bounces
+-- are only counted, once per email however many delay notices it gets, until three
+-- emails in a row soft-bounce and are treated as a hard bounce.
+-- `get_campaign_stats` reports each campaign's bounce rate.
+
+-- Step 1: Bounce log
+CREATE TABLE IF NOT EXISTS email_bounces (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    email_queue_id BIGINT REFERENCES email_queue(id) ON DELETE CASCADE NOT NULL,
+    contact_id BIGINT REFERENCES contacts(id) ON DELETE CASCADE,
+    inbox_id BIGINT REFERENCES inboxes(id) ON DELETE CASCADE,
+    -- The notice's message ID at the provider, so a re-synced notice is only counted once
+    provider_message_id TEXT,
+    bounce_type TEXT NOT NULL CHECK (bounce_type IN ('hard', 'soft')),
+    status_code TEXT, -- e.g. '5.1.1'
+    diagnostic TEXT,
+    recipient TEXT,
+    bounced_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_bounces_inbox_provider_message_idx ON email_bounces(inbox_id, provider_message_id);
+CREATE INDEX IF NOT EXISTS email_bounces_email_queue_id_idx ON email_bounces(email_queue_id);
+
+ALTER TABLE email_bounces ENABLE ROW LEVEL SECURITY;
+
+-- Bounces are written by reply-sync-worker with the service role
+CREATE POLICY "Users can view their own email bounces"
+ON email_bounces FOR SELECT
+USING (auth.uid() = user_id);
+
+GRANT SELECT ON email_bounces TO authenticated;
+
+
+-- Step 2: Bounce state on the contact
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'contacts' AND column_name = 'bounced_at'
+    ) THEN
+        ALTER TABLE contacts ADD COLUMN bounced_at TIMESTAMPTZ; -- Set on a hard bounce
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'contacts' AND column_name = 'soft_bounce_count'
+    ) THEN
+        -- Consecutive soft bounces; reset by a reply
+        ALTER TABLE contacts ADD COLUMN soft_bounce_count INT NOT NULL DEFAULT 0;
+    END IF;
+END$$;
+
+
+-- Step 3: Hard bounces are suppressed like opt-outs
+CREATE OR REPLACE FUNCTION suppress_contact(target_contact_id BIGINT, suppression_reason TEXT)
+RETURNS INT AS $$
+BEGIN
+    INSERT INTO suppression_entries (user_id, entry_type, value, reason)
+    SELECT user_id, 'email', lower(btrim(email)), suppression_reason
+    FROM contacts
+    WHERE id = target_contact_id AND user_id IS NOT NULL
+    ON CONFLICT (user_id, entry_type, value) DO NOTHING;
+
+    RETURN cancel_contact_sequence(
+        target_contact_id,
+        CASE suppression_reason
+            WHEN 'opt_out' THEN 'Contact opted out'
+            WHEN 'unsubscribe' THEN 'Contact unsubscribed'
+            WHEN 'bounce' THEN 'Contact bounced'
+            ELSE 'Contact suppressed'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- Step 4: Record a bounce notice
+-- The bounced email is found by the Message-ID quoted in the notice, then by the
+-- notice's thread, then by the most recent email the inbox sent to the recipient.
+-- Returns the bounced email's queue ID, or NULL when it can't be matched or the
+-- notice was already recorded.
+CREATE OR REPLACE FUNCTION record_bounce(
+    target_inbox_id BIGINT,
+    notice_provider_message_id TEXT,
+    original_rfc_message_id TEXT,
+    notice_thread_id TEXT,
+    bounced_recipient TEXT,
+    bounce_kind TEXT,
+    bounce_status_code TEXT DEFAULT NULL,
+    bounce_diagnostic TEXT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+    bounced_email RECORD;
+    new_bounce_id BIGINT;
+    soft_bounces INT;
+    soft_bounce_limit INT := 3;
+BEGIN
+    SELECT eq.id, eq.user_id, eq.contact_id
+    INTO bounced_email
+    FROM email_queue eq
+    LEFT JOIN contacts ct ON ct.id = eq.contact_id
+    WHERE eq.inbox_id = target_inbox_id
+      AND eq.status IN ('sent', 'bounced')
+      AND (
+          (original_rfc_message_id IS NOT NULL AND eq.rfc_message_id = original_rfc_message_id)
+          OR (notice_thread_id IS NOT NULL AND eq.provider_thread_id = notice_thread_id)
+          OR (bounced_recipient IS NOT NULL AND lower(ct.email) = lower(btrim(bounced_recipient)))
+      )
+    ORDER BY
+        (eq.rfc_message_id IS NOT DISTINCT FROM original_rfc_message_id) DESC,
+        (eq.provider_thread_id IS NOT DISTINCT FROM notice_thread_id) DESC,
+        eq.sent_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO email_bounces (
+        user_id,
+        email_queue_id,
+        contact_id,
+        inbox_id,
+        provider_message_id,
+        bounce_type,
+        status_code,
+        diagnostic,
+        recipient
+    )
+    VALUES (
+        bounced_email.user_id,
+        bounced_email.id,
+        bounced_email.contact_id,
+        target_inbox_id,
+        notice_provider_message_id,
+        bounce_kind,
+        bounce_status_code,
+        bounce_diagnostic,
+        bounced_recipient
+    )
+    ON CONFLICT (inbox_id, provider_message_id) DO NOTHING
+    RETURNING id INTO new_bounce_id;
+
+    IF new_bounce_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF bounce_kind = 'soft' THEN
+        -- Servers send several delay notices for one email (e.g. after 4, 24 and 48 hours)
+        IF EXISTS (
+            SELECT 1 FROM email_bounces
+            WHERE email_queue_id = bounced_email.id
+              AND bounce_type = 'soft'
+              AND id <> new_bounce_id
+        ) THEN
+            RETURN bounced_email.id;
+        END IF;
+
+        UPDATE contacts
+        SET soft_bounce_count = soft_bounce_count + 1
+        WHERE id = bounced_email.contact_id
+        RETURNING soft_bounce_count INTO soft_bounces;
+
+        IF COALESCE(soft_bounces, 0) < soft_bounce_limit THEN
+            RETURN bounced_email.id;
+        END IF;
+    END IF;
+
+    -- Hard bounce (or too many soft ones): the address is dead
+    UPDATE email_queue
+    SET
+        status = 'bounced',
+        error_message = COALESCE(bounce_diagnostic, 'Bounced' || COALESCE(' (' || bounce_status_code || ')', '')),
+        updated_at = NOW()
+    WHERE id = bounced_email.id;
+
+    UPDATE contacts
+    SET bounced_at = COALESCE(bounced_at, NOW())
+    WHERE id = bounced_email.contact_id;
+
+    PERFORM suppress_contact(bounced_email.contact_id, 'bounce');
+
+    RETURN bounced_email.id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_bounce(BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_bounce(BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+
+-- Step 5: A reply proves the address works, so soft bounces start counting again
+CREATE OR REPLACE FUNCTION reset_soft_bounces_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE contacts SET soft_bounce_count = 0 WHERE id = NEW.contact_id AND soft_bounce_count > 0;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS replies_reset_soft_bounces ON replies;
+CREATE TRIGGER replies_reset_soft_bounces
+AFTER INSERT ON replies
+FOR EACH ROW
+WHEN (NEW.contact_id IS NOT NULL)
+EXECUTE FUNCTION reset_soft_bounces_on_reply();
+
+
+-- Step 6: Bounce rate in the campaign stats
+-- Bounced emails were sent, so they still count towards `sent`.
+DROP FUNCTION IF EXISTS get_campaign_stats();
+
+CREATE OR REPLACE FUNCTION get_campaign_stats()
+RETURNS TABLE (
+    id BIGINT,
+    name TEXT,
+    status campaign_status,
+    contacts BIGINT,
+    sent BIGINT,
+    unique_opens BIGINT,
+    total_opens BIGINT,
+    open_rate NUMERIC,
+    unique_clicks BIGINT,
+    total_clicks BIGINT,
+    click_rate NUMERIC,
+    bounced BIGINT,
+    bounce_rate NUMERIC,
+    reply_rate NUMERIC,
+    step_stats JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH sends AS (
+        SELECT
+            eq.campaign_id,
+            COUNT(*) AS sent,
+            COUNT(*) FILTER (WHERE eq.status = 'bounced') AS bounced,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached
+        FROM email_queue eq
+        WHERE eq.status IN ('sent', 'bounced')
+        GROUP BY eq.campaign_id
+    ),
+    engagement AS (
+        SELECT
+            ev.campaign_id,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(*) FILTER (WHERE ev.event_type = 'open') AS total_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks,
+            COUNT(*) FILTER (WHERE ev.event_type = 'click') AS total_clicks
+        FROM email_events ev
+        WHERE NOT ev.is_machine
+        GROUP BY ev.campaign_id
+    ),
+    -- The same numbers for each step of the sequence
+    steps AS (
+        SELECT
+            eq.campaign_id,
+            es.step_number,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks
+        FROM email_queue eq
+        JOIN email_steps es ON es.id = eq.email_step_id
+        LEFT JOIN email_events ev ON ev.email_queue_id = eq.id AND NOT ev.is_machine
+        WHERE eq.status IN ('sent', 'bounced')
+        GROUP BY eq.campaign_id, es.step_number
+    )
+    SELECT
+        c.id,
+        c.name,
+        c.status,
+        (SELECT COUNT(*) FROM campaign_contacts cc WHERE cc.campaign_id = c.id) as contacts,
+        COALESCE(s.sent, 0) as sent,
+        COALESCE(e.unique_opens, 0) as unique_opens,
+        COALESCE(e.total_opens, 0) as total_opens,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_opens, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as open_rate,
+        COALESCE(e.unique_clicks, 0) as unique_clicks,
+        COALESCE(e.total_clicks, 0) as total_clicks,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_clicks, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as click_rate,
+        COALESCE(s.bounced, 0) as bounced,
+        CASE
+            WHEN COALESCE(s.sent, 0) > 0
+            THEN (s.bounced::NUMERIC / s.sent) * 100
+            ELSE 0
+        END as bounce_rate,
+        (
+            SELECT
+                CASE
+                    WHEN (SELECT COUNT(*) FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id) > 0
+                    THEN (
+                        (SELECT COUNT(DISTINCT r.contact_id)::NUMERIC
+                         FROM replies r
+                         JOIN email_queue req ON req.id = r.email_queue_id
+                         WHERE req.campaign_id = c.id) /
+                        (SELECT COUNT(*)::NUMERIC FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id)
+                    ) * 100
+                    ELSE 0
+                END
+        ) as reply_rate,
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'step_number', st.step_number,
+                'sent', st.contacts_reached,
+                'unique_opens', st.unique_opens,
+                'unique_clicks', st.unique_clicks,
+                'open_rate', round((st.unique_opens::NUMERIC / st.contacts_reached) * 100, 1),
+                'click_rate', round((st.unique_clicks::NUMERIC / st.contacts_reached) * 100, 1)
+            ) ORDER BY st.step_number)
+            FROM steps st
+            WHERE st.campaign_id = c.id
+        ), '[]'::JSONB) as step_stats
+    FROM
+        campaigns c
+    LEFT JOIN sends s ON s.campaign_id = c.id
+    LEFT JOIN engagement e ON e.campaign_id = c.id
+    WHERE
+        c.user_id = auth.uid()
+    ORDER BY
+        c.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION get_campaign_stats() SET search_path = public;
+
+GRANT EXECUTE
+ON FUNCTION public.get_campaign_stats()
+TO authenticated;
@@ -0,0 +1,387 @@
+-- Migration: Campaign Pause, Resume and Stop
+-- This migration gives campaigns the controls behind the dashboard's Pause, Resume and
+-- Stop buttons. Pausing holds every email the campaign still has queued, resuming
+-- spreads the held backlog out again with the same randomized spacing `start_campaign`
+-- uses, and stopping cancels whatever is left. `process_email_queue` now checks the
+-- campaign's status before each send, so follow-ups enqueued while a campaign is paused
+-- are held too.
+
+-- Step 1: New states
+ALTER TYPE campaign_status ADD VALUE IF NOT EXISTS 'stopped';
+ALTER TYPE email_status ADD VALUE IF NOT EXISTS 'held';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'hold_reason'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN hold_reason TEXT; -- Why a 'held' email is not being sent
+    END IF;
+END$$;
+
+
+-- Step 2: Pause a campaign
+-- Returns the number of emails held.
+CREATE OR REPLACE FUNCTION pause_campaign(campaign_id_to_pause BIGINT)
+RETURNS INT AS $$
+DECLARE
+    current_status campaign_status;
+    held_count INT;
+BEGIN
+    SELECT status INTO current_status FROM campaigns WHERE id = campaign_id_to_pause;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found.', campaign_id_to_pause;
+    END IF;
+
+    IF current_status <> 'active' THEN
+        RAISE EXCEPTION 'Only active campaigns can be paused (campaign % is %).', campaign_id_to_pause, current_status;
+    END IF;
+
+    UPDATE campaigns SET status = 'paused' WHERE id = campaign_id_to_pause;
+
+    -- Emails already being sent finish; everything still waiting is held
+    UPDATE email_queue
+    SET
+        status = 'held',
+        hold_reason = 'Campaign paused',
+        updated_at = NOW()
+    WHERE campaign_id = campaign_id_to_pause
+      AND status IN ('queued', 'rescheduled');
+
+    GET DIAGNOSTICS held_count = ROW_COUNT;
+    RETURN held_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION pause_campaign(BIGINT) TO authenticated;
+
+
+-- Step 3: Resume a paused campaign
+-- Emails that fell due while the campaign was paused are spaced out from now with a
+-- random 90-300 second gap, like a freshly started campaign, instead of all going out
+-- on the next run. Emails still due later keep their time. Returns the number of emails
+-- released.
+CREATE OR REPLACE FUNCTION resume_campaign(campaign_id_to_resume BIGINT)
+RETURNS INT AS $$
+DECLARE
+    current_status campaign_status;
+    held_email RECORD;
+    random_delay_seconds INT;
+    resume_time TIMESTAMPTZ := NOW();
+    current_send_time TIMESTAMPTZ := NOW();
+    scheduled_send_time TIMESTAMPTZ;
+    released_count INT := 0;
+BEGIN
+    SELECT status INTO current_status FROM campaigns WHERE id = campaign_id_to_resume;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found.', campaign_id_to_resume;
+    END IF;
+
+    IF current_status <> 'paused' THEN
+        RAISE EXCEPTION 'Only paused campaigns can be resumed (campaign % is %).', campaign_id_to_resume, current_status;
+    END IF;
+
+    FOR held_email IN
+        SELECT id, contact_id, inbox_id, send_at
+        FROM email_queue
+        WHERE campaign_id = campaign_id_to_resume
+          AND status = 'held'
+        ORDER BY send_at ASC, id ASC
+    LOOP
+        IF held_email.send_at > current_send_time THEN
+            -- Not due yet: the original schedule still holds
+            scheduled_send_time := held_email.send_at;
+        ELSE
+            random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+            current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+
+            -- Keep the spacing when the recipient's window is closed, as start_campaign does
+            scheduled_send_time := next_send_slot(current_send_time, campaign_id_to_resume, held_email.contact_id, held_email.inbox_id);
+            IF scheduled_send_time > current_send_time THEN
+                scheduled_send_time := next_send_slot(
+                    scheduled_send_time + (current_send_time - resume_time),
+                    campaign_id_to_resume,
+                    held_email.contact_id,
+                    held_email.inbox_id
+                );
+            END IF;
+        END IF;
+
+        UPDATE email_queue
+        SET
+            status = 'queued',
+            hold_reason = NULL,
+            send_at = scheduled_send_time,
+            updated_at = NOW()
+        WHERE id = held_email.id;
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_resume;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION resume_campaign(BIGINT) TO authenticated;
+
+
+-- Step 4: Stop a campaign for good
+-- Returns the number of emails cancelled.
+CREATE OR REPLACE FUNCTION stop_campaign(campaign_id_to_stop BIGINT)
+RETURNS INT AS $$
+DECLARE
+    current_status campaign_status;
+    cancelled_count INT;
+BEGIN
+    SELECT status INTO current_status FROM campaigns WHERE id = campaign_id_to_stop;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found.', campaign_id_to_stop;
+    END IF;
+
+    IF current_status NOT IN ('active', 'paused') THEN
+        RAISE EXCEPTION 'Only active or paused campaigns can be stopped (campaign % is %).', campaign_id_to_stop, current_status;
+    END IF;
+
+    UPDATE campaigns SET status = 'stopped' WHERE id = campaign_id_to_stop;
+
+    UPDATE email_queue
+    SET
+        status = 'cancelled',
+        error_message = 'Campaign stopped',
+        hold_reason = NULL,
+        updated_at = NOW()
+    WHERE campaign_id = campaign_id_to_stop
+      AND status IN ('queued', 'rescheduled', 'held');
+
+    GET DIAGNOSTICS cancelled_count = ROW_COUNT;
+    RETURN cancelled_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION stop_campaign(BIGINT) TO authenticated;
+
+
+-- Step 5: Check the campaign's status before each send
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    contact_record RECORD;
+    campaign_state campaign_status;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Loop through emails that are ready to be sent
+    FOR email_to_send IN
+        SELECT *
+        FROM email_queue
+        WHERE email_queue.status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+    LOOP
+        -- 1. Get contact details
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Hold emails for paused campaigns and cancel those of stopped ones. Follow-ups
+        --    enqueued while a campaign was paused end up here.
+        SELECT campaigns.status INTO campaign_state FROM campaigns WHERE id = email_to_send.campaign_id;
+
+        IF campaign_state = 'paused' THEN
+            UPDATE email_queue
+            SET
+                status = 'held',
+                hold_reason = 'Campaign paused',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'held';
+            message := 'Campaign is paused';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        IF campaign_state = 'stopped' THEN
+            UPDATE email_queue
+            SET
+                status = 'cancelled',
+                error_message = 'Campaign stopped',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'cancelled';
+            message := 'Campaign is stopped';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Never send to a suppressed address, even one added after the email was queued
+        IF is_suppressed(email_to_send.user_id, contact_record.email) THEN
+            UPDATE email_queue
+            SET
+                status = 'cancelled',
+                error_message = 'Recipient is on the suppression list',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'cancelled';
+            message := 'Recipient is suppressed';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 5. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 6. Mark the email as 'sending' to prevent double-sends
+        UPDATE email_queue SET status = 'sending', updated_at = NOW() WHERE id = email_to_send.id;
+
+        -- 7. Invoke the Edge Function to send the email
+        DECLARE
+            http_response RECORD;
+            error_message TEXT;
+            failure_status TEXT;
+            thread_record RECORD;
+        BEGIN
+            -- Follow-ups reply to the previous email so they land in the same thread
+            SELECT * INTO thread_record FROM email_thread_headers(email_to_send.id);
+
+            -- The body comes back as text; cast it so the worker's fields can be read
+            SELECT status_code, content::JSONB AS content INTO http_response
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'queue_id', email_to_send.id,
+                    'inbox_id', email_to_send.inbox_id,
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body,
+                    'in_reply_to', thread_record.in_reply_to,
+                    'references', thread_record.message_references,
+                    'thread_id', thread_record.provider_thread_id
+                )
+            );
+
+            -- 8. The worker reports whether a failed send is worth retrying
+            IF http_response.status_code NOT BETWEEN 200 AND 299 THEN
+                error_message := COALESCE(http_response.content->>'error', 'HTTP ' || http_response.status_code);
+                failure_status := record_send_failure(
+                    email_to_send.id,
+                    error_message,
+                    COALESCE(
+                        (http_response.content->>'retryable')::BOOLEAN,
+                        http_response.status_code = 429 OR http_response.status_code >= 500
+                    ),
+                    COALESCE((http_response.content->>'provider_status')::INT, http_response.status_code)
+                );
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+                CONTINUE;
+            END IF;
+
+            -- 9. Update status based on response, keeping the IDs needed to thread follow-ups
+            PERFORM record_send_success(
+                email_to_send.id,
+                http_response.content->>'provider_message_id',
+                http_response.content->>'provider_thread_id',
+                http_response.content->>'message_id'
+            );
+
+            -- 10. Increment the daily send count
+            INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+            VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+            ON CONFLICT (inbox_id, send_date)
+            DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+
+            -- 11. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- The edge function could not be reached at all, which is always transient
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                failure_status := record_send_failure(email_to_send.id, 'Edge function error: ' || error_message, TRUE, NULL);
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,400 @@
+-- Migration: Campaign Completion
+-- This migration lets campaigns finish on their own. Every contact in a campaign now
+-- has an outcome in `campaign_contacts`: still in progress, or done because they
+-- replied, bounced, unsubscribed, received the last step of the sequence or had their
+-- emails cancelled. Outcomes are refreshed whenever one of the contact's emails changes
+-- status or a reply arrives, and once no contact is left in progress an active
+-- campaign moves to `completed`. Campaigns also record when they started and finished.
+
+-- Step 1: Per-contact outcome within a campaign
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'campaign_contact_status') THEN
+        CREATE TYPE campaign_contact_status AS ENUM (
+            'in_progress',
+            'replied',
+            'bounced',
+            'unsubscribed',
+            'completed',  -- Received the last step of the sequence
+            'cancelled'   -- Emails cancelled or given up on for any other reason
+        );
+    END IF;
+END$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaign_contacts' AND column_name = 'status'
+    ) THEN
+        ALTER TABLE campaign_contacts ADD COLUMN status campaign_contact_status NOT NULL DEFAULT 'in_progress';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaign_contacts' AND column_name = 'completed_at'
+    ) THEN
+        ALTER TABLE campaign_contacts ADD COLUMN completed_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS campaign_contacts_status_idx ON campaign_contacts(campaign_id, status);
+
+
+-- Step 2: Campaign lifecycle timestamps
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaigns' AND column_name = 'started_at'
+    ) THEN
+        ALTER TABLE campaigns ADD COLUMN started_at TIMESTAMPTZ;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'campaigns' AND column_name = 'completed_at'
+    ) THEN
+        ALTER TABLE campaigns ADD COLUMN completed_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+-- Stamped on the first activation and whenever a campaign ends, whichever function
+-- changes the status
+CREATE OR REPLACE FUNCTION stamp_campaign_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'active' AND NEW.started_at IS NULL THEN
+        NEW.started_at := NOW();
+    END IF;
+
+    IF NEW.status IN ('completed', 'stopped') AND NEW.completed_at IS NULL THEN
+        NEW.completed_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS campaigns_stamp_lifecycle ON campaigns;
+CREATE TRIGGER campaigns_stamp_lifecycle
+BEFORE UPDATE OF status ON campaigns
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION stamp_campaign_lifecycle();
+
+
+-- Step 3: Work out a contact's outcome and complete the campaign when nobody is left
+-- A contact is still in progress while any of their emails in the campaign can still
+-- be sent. Otherwise the outcome is the first that applies of replied, bounced,
+-- unsubscribed (or suppressed), completed and cancelled.
+CREATE OR REPLACE FUNCTION refresh_campaign_contact_status(target_campaign_id BIGINT, target_contact_id BIGINT)
+RETURNS campaign_contact_status AS $$
+DECLARE
+    campaign_record RECORD;
+    contact_record RECORD;
+    new_status campaign_contact_status;
+    last_step_id BIGINT;
+BEGIN
+    SELECT id, user_id, status, sequence_id INTO campaign_record FROM campaigns WHERE id = target_campaign_id;
+
+    -- Drafts have nothing queued yet, and stopped or completed campaigns are settled
+    IF campaign_record.status NOT IN ('active', 'paused') THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id, email, unsubscribed_at, bounced_at INTO contact_record FROM contacts WHERE id = target_contact_id;
+
+    IF EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE campaign_id = target_campaign_id
+          AND contact_id = target_contact_id
+          AND status IN ('queued', 'rescheduled', 'sending', 'held')
+    ) THEN
+        new_status := 'in_progress';
+    ELSIF EXISTS (
+        SELECT 1 FROM replies r
+        JOIN email_queue eq ON eq.id = r.email_queue_id
+        WHERE eq.campaign_id = target_campaign_id AND r.contact_id = target_contact_id
+    ) THEN
+        new_status := 'replied';
+    ELSIF contact_record.bounced_at IS NOT NULL OR EXISTS (
+        SELECT 1 FROM email_queue
+        WHERE campaign_id = target_campaign_id
+          AND contact_id = target_contact_id
+          AND status = 'bounced'
+    ) THEN
+        new_status := 'bounced';
+    ELSIF contact_record.unsubscribed_at IS NOT NULL OR is_suppressed(campaign_record.user_id, contact_record.email) THEN
+        new_status := 'unsubscribed';
+    ELSE
+        SELECT id INTO last_step_id
+        FROM email_steps
+        WHERE sequence_id = campaign_record.sequence_id
+        ORDER BY step_number DESC
+        LIMIT 1;
+
+        IF EXISTS (
+            SELECT 1 FROM email_queue
+            WHERE campaign_id = target_campaign_id
+              AND contact_id = target_contact_id
+              AND email_step_id = last_step_id
+              AND status = 'sent'
+        ) THEN
+            new_status := 'completed';
+        ELSE
+            new_status := 'cancelled';
+        END IF;
+    END IF;
+
+    UPDATE campaign_contacts
+    SET
+        status = new_status,
+        completed_at = CASE WHEN new_status = 'in_progress' THEN NULL ELSE COALESCE(completed_at, NOW()) END
+    WHERE campaign_id = target_campaign_id
+      AND contact_id = target_contact_id
+      AND status IS DISTINCT FROM new_status;
+
+    -- The last contact to finish completes an active campaign. Paused campaigns still
+    -- hold their emails, so they only complete once resumed.
+    IF new_status <> 'in_progress' AND campaign_record.status = 'active' AND NOT EXISTS (
+        SELECT 1 FROM campaign_contacts
+        WHERE campaign_id = target_campaign_id AND status = 'in_progress'
+    ) THEN
+        UPDATE campaigns SET status = 'completed' WHERE id = target_campaign_id AND status = 'active';
+    END IF;
+
+    RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION refresh_campaign_contact_status(BIGINT, BIGINT) SET search_path = public;
+REVOKE EXECUTE ON FUNCTION refresh_campaign_contact_status(BIGINT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_campaign_contact_status(BIGINT, BIGINT) TO service_role;
+
+
+-- Step 4: Refresh outcomes as emails and replies come in
+-- These are deferred to the end of the transaction: `process_email_queue` marks an
+-- email sent before it enqueues the next step, and the contact must not look finished
+-- in between.
+CREATE OR REPLACE FUNCTION refresh_campaign_contact_on_email_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_campaign_contact_status(NEW.campaign_id, NEW.contact_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION refresh_campaign_contact_on_email_change() SET search_path = public;
+
+DROP TRIGGER IF EXISTS email_queue_refresh_campaign_contact ON email_queue;
+CREATE CONSTRAINT TRIGGER email_queue_refresh_campaign_contact
+AFTER UPDATE OF status ON email_queue
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.campaign_id IS NOT NULL)
+EXECUTE FUNCTION refresh_campaign_contact_on_email_change();
+
+CREATE OR REPLACE FUNCTION refresh_campaign_contact_on_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+    answered_campaign_id BIGINT;
+BEGIN
+    SELECT campaign_id INTO answered_campaign_id FROM email_queue WHERE id = NEW.email_queue_id;
+
+    IF answered_campaign_id IS NOT NULL THEN
+        PERFORM refresh_campaign_contact_status(answered_campaign_id, NEW.contact_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION refresh_campaign_contact_on_reply() SET search_path = public;
+
+DROP TRIGGER IF EXISTS replies_refresh_campaign_contact ON replies;
+CREATE CONSTRAINT TRIGGER replies_refresh_campaign_contact
+AFTER INSERT ON replies
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW.email_queue_id IS NOT NULL AND NEW.contact_id IS NOT NULL)
+EXECUTE FUNCTION refresh_campaign_contact_on_reply();
+
+-- Contacts `start_campaign` skipped (unsubscribed or suppressed) never get an email,
+-- so they are settled as soon as the campaign starts, along with everyone else after
+-- a resume
+CREATE OR REPLACE FUNCTION refresh_campaign_contacts_on_activation()
+RETURNS TRIGGER AS $$
+DECLARE
+    member RECORD;
+BEGIN
+    FOR member IN SELECT contact_id FROM campaign_contacts WHERE campaign_id = NEW.id LOOP
+        PERFORM refresh_campaign_contact_status(NEW.id, member.contact_id);
+    END LOOP;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION refresh_campaign_contacts_on_activation() SET search_path = public;
+
+DROP TRIGGER IF EXISTS campaigns_refresh_contacts_on_activation ON campaigns;
+CREATE CONSTRAINT TRIGGER campaigns_refresh_contacts_on_activation
+AFTER UPDATE OF status ON campaigns
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW.status = 'active' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION refresh_campaign_contacts_on_activation();
+
+
+-- Step 5: Settle campaigns that are already running
+-- Activation stamps are back-filled from the first queued email.
+UPDATE campaigns c
+SET started_at = (SELECT MIN(eq.created_at) FROM email_queue eq WHERE eq.campaign_id = c.id)
+WHERE c.status <> 'draft' AND c.started_at IS NULL;
+
+DO $$
+DECLARE
+    member RECORD;
+BEGIN
+    FOR member IN
+        SELECT cc.campaign_id, cc.contact_id
+        FROM campaign_contacts cc
+        JOIN campaigns c ON c.id = cc.campaign_id
+        WHERE c.status IN ('active', 'paused')
+    LOOP
+        PERFORM refresh_campaign_contact_status(member.campaign_id, member.contact_id);
+    END LOOP;
+END$$;
+
+
+-- Step 6: Lifecycle details in the campaign stats
+DROP FUNCTION IF EXISTS get_campaign_stats();
+
+CREATE OR REPLACE FUNCTION get_campaign_stats()
+RETURNS TABLE (
+    id BIGINT,
+    name TEXT,
+    status campaign_status,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    contacts BIGINT,
+    contacts_finished BIGINT,
+    sent BIGINT,
+    unique_opens BIGINT,
+    total_opens BIGINT,
+    open_rate NUMERIC,
+    unique_clicks BIGINT,
+    total_clicks BIGINT,
+    click_rate NUMERIC,
+    bounced BIGINT,
+    bounce_rate NUMERIC,
+    reply_rate NUMERIC,
+    step_stats JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH sends AS (
+        SELECT
+            eq.campaign_id,
+            COUNT(*) AS sent,
+            COUNT(*) FILTER (WHERE eq.status = 'bounced') AS bounced,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached
+        FROM email_queue eq
+        WHERE eq.status IN ('sent', 'bounced')
+        GROUP BY eq.campaign_id
+    ),
+    engagement AS (
+        SELECT
+            ev.campaign_id,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(*) FILTER (WHERE ev.event_type = 'open') AS total_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks,
+            COUNT(*) FILTER (WHERE ev.event_type = 'click') AS total_clicks
+        FROM email_events ev
+        WHERE NOT ev.is_machine
+        GROUP BY ev.campaign_id
+    ),
+    -- The same numbers for each step of the sequence
+    steps AS (
+        SELECT
+            eq.campaign_id,
+            es.step_number,
+            COUNT(DISTINCT eq.contact_id) AS contacts_reached,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'open') AS unique_opens,
+            COUNT(DISTINCT ev.contact_id) FILTER (WHERE ev.event_type = 'click') AS unique_clicks
+        FROM email_queue eq
+        JOIN email_steps es ON es.id = eq.email_step_id
+        LEFT JOIN email_events ev ON ev.email_queue_id = eq.id AND NOT ev.is_machine
+        WHERE eq.status IN ('sent', 'bounced')
+        GROUP BY eq.campaign_id, es.step_number
+    )
+    SELECT
+        c.id,
+        c.name,
+        c.status,
+        c.started_at,
+        c.completed_at,
+        (SELECT COUNT(*) FROM campaign_contacts cc WHERE cc.campaign_id = c.id) as contacts,
+        (SELECT COUNT(*) FROM campaign_contacts cc WHERE cc.campaign_id = c.id AND cc.status <> 'in_progress') as contacts_finished,
+        COALESCE(s.sent, 0) as sent,
+        COALESCE(e.unique_opens, 0) as unique_opens,
+        COALESCE(e.total_opens, 0) as total_opens,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_opens, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as open_rate,
+        COALESCE(e.unique_clicks, 0) as unique_clicks,
+        COALESCE(e.total_clicks, 0) as total_clicks,
+        CASE
+            WHEN COALESCE(s.contacts_reached, 0) > 0
+            THEN (COALESCE(e.unique_clicks, 0)::NUMERIC / s.contacts_reached) * 100
+            ELSE 0
+        END as click_rate,
+        COALESCE(s.bounced, 0) as bounced,
+        CASE
+            WHEN COALESCE(s.sent, 0) > 0
+            THEN (s.bounced::NUMERIC / s.sent) * 100
+            ELSE 0
+        END as bounce_rate,
+        (
+            SELECT
+                CASE
+                    WHEN (SELECT COUNT(*) FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id) > 0
+                    THEN (
+                        (SELECT COUNT(DISTINCT r.contact_id)::NUMERIC
+                         FROM replies r
+                         JOIN email_queue req ON req.id = r.email_queue_id
+                         WHERE req.campaign_id = c.id) /
+                        (SELECT COUNT(*)::NUMERIC FROM campaign_contacts cc_inner WHERE cc_inner.campaign_id = c.id)
+                    ) * 100
+                    ELSE 0
+                END
+        ) as reply_rate,
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'step_number', st.step_number,
+                'sent', st.contacts_reached,
+                'unique_opens', st.unique_opens,
+                'unique_clicks', st.unique_clicks,
+                'open_rate', round((st.unique_opens::NUMERIC / st.contacts_reached) * 100, 1),
+                'click_rate', round((st.unique_clicks::NUMERIC / st.contacts_reached) * 100, 1)
+            ) ORDER BY st.step_number)
+            FROM steps st
+            WHERE st.campaign_id = c.id
+        ), '[]'::JSONB) as step_stats
+    FROM
+        campaigns c
+    LEFT JOIN sends s ON s.campaign_id = c.id
+    LEFT JOIN engagement e ON e.campaign_id = c.id
+    WHERE
+        c.user_id = auth.uid()
+    ORDER BY
+        c.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER FUNCTION get_campaign_stats() SET search_path = public;
+
+GRANT EXECUTE
+ON FUNCTION public.get_campaign_stats()
+TO authenticated;
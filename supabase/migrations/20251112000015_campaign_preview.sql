@@ -0,0 +1,193 @@
+-- Migration: Campaign Preview
+-- This migration adds `preview_campaign`, a dry run of activating a draft campaign.
+-- It returns every step of the sequence for every contact, rendered exactly as it
+-- would be queued, with the planned send time, the sender inbox and any merge fields
+-- that came out empty, without enqueuing anything or changing the campaign.
+
+-- Step 1: Merge fields a template uses that a contact has no value for
+-- Also reports tags the renderer doesn't know (usually typos such as `{{frstName}}`),
+-- which would otherwise be sent as-is.
+CREATE OR REPLACE FUNCTION missing_merge_fields(template TEXT, contact_record contacts)
+RETURNS TEXT[] AS $$
+DECLARE
+    missing TEXT[] := ARRAY[]::TEXT[];
+    unknown_tag TEXT;
+BEGIN
+    IF template LIKE '%{{firstName}}%' AND COALESCE(btrim(contact_record.first_name), '') = '' THEN
+        missing := array_append(missing, 'firstName');
+    END IF;
+    IF template LIKE '%{{companyName}}%' AND COALESCE(btrim(contact_record.company_name), '') = '' THEN
+        missing := array_append(missing, 'companyName');
+    END IF;
+    IF template LIKE '%{{industry}}%' AND COALESCE(btrim(contact_record.industry), '') = '' THEN
+        missing := array_append(missing, 'industry');
+    END IF;
+    IF template LIKE '%{{city}}%' AND COALESCE(btrim(contact_record.city), '') = '' THEN
+        missing := array_append(missing, 'city');
+    END IF;
+
+    -- `{{unsubscribe_link}}` is filled in by send-email-worker
+    FOR unknown_tag IN
+        SELECT DISTINCT m[1]
+        FROM regexp_matches(render_email_template(template, contact_record), '\{\{\s*([^}]*?)\s*\}\}', 'g') AS m
+        WHERE m[1] <> 'unsubscribe_link'
+    LOOP
+        missing := array_append(missing, '{{' || unknown_tag || '}}');
+    END LOOP;
+
+    RETURN missing;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Step 2: Dry-run a campaign
+-- The first step is planned by running `start_campaign` itself inside a
+-- subtransaction that is rolled back once its queue rows have been read, so inbox
+-- rotation, sending windows and suppression work exactly as on activation. Later
+-- steps are projected from there with the same subject, delay and jitter rules as
+-- `schedule_next_step`, assuming each previous step goes out on time. Contacts that
+-- would be skipped are returned once, with a `skip_reason` and no step.
+-- Runs with the caller's permissions, so RLS limits it to their own campaigns.
+CREATE OR REPLACE FUNCTION preview_campaign(campaign_id_to_preview BIGINT)
+RETURNS TABLE (
+    contact_id BIGINT,
+    contact_email TEXT,
+    contact_first_name TEXT,
+    step_number INT,
+    inbox_id BIGINT,
+    inbox_email TEXT,
+    send_at TIMESTAMPTZ,
+    subject TEXT,
+    body TEXT,
+    missing_fields TEXT[],
+    skip_reason TEXT
+) AS $$
+DECLARE
+    campaign_record RECORD;
+    planned_first_emails JSONB;
+    planned_email JSONB;
+    contact_record contacts%ROWTYPE;
+    step_record RECORD;
+    first_subject TEXT;
+    previous_subject TEXT;
+    previous_send_at TIMESTAMPTZ;
+    is_first_step BOOLEAN;
+BEGIN
+    SELECT id, user_id, status, sequence_id INTO campaign_record FROM campaigns WHERE id = campaign_id_to_preview;
+
+    IF campaign_record IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found.', campaign_id_to_preview;
+    END IF;
+
+    IF campaign_record.status <> 'draft' THEN
+        RAISE EXCEPTION 'Only draft campaigns can be previewed (campaign % is %).', campaign_id_to_preview, campaign_record.status;
+    END IF;
+
+    -- 1. Plan the first step for real, then undo it
+    BEGIN
+        PERFORM start_campaign(campaign_id_to_preview);
+
+        SELECT jsonb_agg(jsonb_build_object(
+            'contact_id', eq.contact_id,
+            'inbox_id', eq.inbox_id,
+            'send_at', eq.send_at,
+            'subject', eq.subject,
+            'body', eq.body
+        ) ORDER BY eq.send_at, eq.id)
+        INTO planned_first_emails
+        FROM email_queue eq
+        WHERE eq.campaign_id = campaign_id_to_preview;
+
+        planned_first_emails := COALESCE(planned_first_emails, '[]'::JSONB);
+        RAISE EXCEPTION 'Campaign preview rolled back';
+    EXCEPTION
+        WHEN raise_exception THEN
+            -- Errors from start_campaign itself (e.g. no steps) happen before planning
+            IF planned_first_emails IS NULL THEN
+                RAISE;
+            END IF;
+    END;
+
+    -- 2. Every planned contact, step by step
+    FOR planned_email IN SELECT * FROM jsonb_array_elements(planned_first_emails) LOOP
+        SELECT * INTO contact_record FROM contacts WHERE id = (planned_email->>'contact_id')::BIGINT;
+
+        contact_id := contact_record.id;
+        contact_email := contact_record.email;
+        contact_first_name := contact_record.first_name;
+        inbox_id := (planned_email->>'inbox_id')::BIGINT;
+        SELECT email INTO inbox_email FROM inboxes WHERE id = inbox_id;
+        skip_reason := NULL;
+
+        first_subject := planned_email->>'subject';
+        previous_subject := first_subject;
+        previous_send_at := (planned_email->>'send_at')::TIMESTAMPTZ;
+        is_first_step := TRUE;
+
+        FOR step_record IN
+            SELECT es.*
+            FROM email_steps es
+            WHERE es.sequence_id = campaign_record.sequence_id
+            ORDER BY es.step_number ASC
+        LOOP
+            step_number := step_record.step_number;
+            missing_fields := missing_merge_fields(COALESCE(step_record.subject, '') || ' ' || COALESCE(step_record.body, ''), contact_record);
+
+            IF is_first_step THEN
+                -- The first step, as start_campaign queued it
+                send_at := previous_send_at;
+                subject := first_subject;
+                body := planned_email->>'body';
+            ELSE
+                subject := render_email_template(step_record.subject, contact_record);
+                IF COALESCE(btrim(subject), '') = '' OR subject = 'Re: Previous Email' THEN
+                    subject := 'Re: ' || regexp_replace(previous_subject, '^(\s*re:\s*)+', '', 'i');
+                END IF;
+                body := build_email_body(step_record.body, contact_record);
+                send_at := next_send_slot(
+                    previous_send_at
+                        + (COALESCE(step_record.send_delay_days, 0) * INTERVAL '1 day')
+                        + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second'),
+                    campaign_id_to_preview,
+                    contact_record.id,
+                    inbox_id
+                );
+            END IF;
+
+            RETURN NEXT;
+
+            previous_subject := subject;
+            previous_send_at := send_at;
+            is_first_step := FALSE;
+        END LOOP;
+    END LOOP;
+
+    -- 3. Contacts start_campaign skips
+    FOR contact_record IN
+        SELECT ct.*
+        FROM contacts ct
+        JOIN campaign_contacts cc ON ct.id = cc.contact_id
+        WHERE cc.campaign_id = campaign_id_to_preview
+          AND (ct.unsubscribed_at IS NOT NULL OR is_suppressed(campaign_record.user_id, ct.email))
+        ORDER BY ct.id
+    LOOP
+        contact_id := contact_record.id;
+        contact_email := contact_record.email;
+        contact_first_name := contact_record.first_name;
+        step_number := NULL;
+        inbox_id := NULL;
+        inbox_email := NULL;
+        send_at := NULL;
+        subject := NULL;
+        body := NULL;
+        missing_fields := ARRAY[]::TEXT[];
+        skip_reason := CASE
+            WHEN contact_record.unsubscribed_at IS NOT NULL THEN 'Unsubscribed'
+            ELSE 'On the suppression list'
+        END;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION preview_campaign(BIGINT) TO authenticated;
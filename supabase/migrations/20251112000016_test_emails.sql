@@ -0,0 +1,41 @@
+-- Migration: Test Emails
+-- This migration adds `render_test_email`, used by `send-email-worker` when the
+-- SequenceBuilder's "Send test" button sends a step to the logged-in user. It renders
+-- a step that may not be saved yet against one of the user's contacts with the same
+-- helpers the sending engine uses. Test emails never touch `email_queue`, so they
+-- don't show up in campaign stats or count towards an inbox's daily limit.
+
+-- Step 1: Render a step for a contact
+-- Follow-ups without a subject of their own reply to the previous step's subject, as
+-- in `schedule_next_step`. Runs with the caller's permissions, so RLS limits it to
+-- their own contacts.
+CREATE OR REPLACE FUNCTION render_test_email(
+    subject_template TEXT,
+    body_template TEXT,
+    sample_contact_id BIGINT,
+    previous_subject_template TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    subject TEXT,
+    body TEXT
+) AS $$
+DECLARE
+    contact_record contacts%ROWTYPE;
+BEGIN
+    SELECT * INTO contact_record FROM contacts WHERE id = sample_contact_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Contact % not found.', sample_contact_id;
+    END IF;
+
+    subject := render_email_template(COALESCE(subject_template, ''), contact_record);
+    IF (COALESCE(btrim(subject), '') = '' OR subject = 'Re: Previous Email') AND previous_subject_template IS NOT NULL THEN
+        subject := 'Re: ' || regexp_replace(render_email_template(previous_subject_template, contact_record), '^(\s*re:\s*)+', '', 'i');
+    END IF;
+
+    body := build_email_body(COALESCE(body_template, ''), contact_record);
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION render_test_email(TEXT, TEXT, BIGINT, TEXT) TO authenticated;
@@ -0,0 +1,411 @@
+-- Migration: Concurrency-Safe Queue Claiming
+-- This migration stops overlapping `process_email_queue` runs from sending the same
+-- email twice. Due emails are claimed with `FOR UPDATE SKIP LOCKED` and moved to
+-- `sending` with a lease; emails whose lease runs out (the run died or the edge function
+-- never answered) go back to the queue. Every queued email also carries an idempotency
+-- key, which `send-email-worker` registers in `email_dispatches` before handing the
+-- email to the provider, so a recovered or duplicated request for an email that already
+-- went out is answered from the record instead of being sent again.
+
+-- Step 1: Leases and idempotency keys on queued emails
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'lease_expires_at'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN lease_expires_at TIMESTAMPTZ; -- Only meaningful while 'sending'
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'email_queue' AND column_name = 'idempotency_key'
+    ) THEN
+        ALTER TABLE email_queue ADD COLUMN idempotency_key UUID NOT NULL DEFAULT gen_random_uuid();
+    END IF;
+END$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_queue_idempotency_key_idx ON email_queue(idempotency_key);
+CREATE INDEX IF NOT EXISTS email_queue_sending_lease_idx ON email_queue(lease_expires_at) WHERE status = 'sending';
+
+
+-- Step 2: Claim a batch of due emails
+-- Rows another run has locked are skipped rather than waited on, and the claimed rows
+-- are already 'sending' when this returns.
+CREATE OR REPLACE FUNCTION claim_email_queue_batch(
+    batch_size INT DEFAULT 10,
+    lease_duration INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF email_queue AS $$
+    WITH claimable AS (
+        SELECT id
+        FROM email_queue
+        WHERE status IN ('queued', 'rescheduled') AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE email_queue eq
+    SET
+        status = 'sending',
+        lease_expires_at = NOW() + lease_duration,
+        updated_at = NOW()
+    FROM claimable
+    WHERE eq.id = claimable.id
+    RETURNING eq.*;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_email_queue_batch(INT, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_email_queue_batch(INT, INTERVAL) TO service_role;
+
+
+-- Step 3: Put emails with an expired lease back in the queue
+-- Safe even if the email did go out: the worker finds its dispatch record and reports
+-- it as sent. Returns the number of emails recovered.
+CREATE OR REPLACE FUNCTION recover_expired_email_leases()
+RETURNS INT AS $$
+DECLARE
+    recovered_count INT;
+BEGIN
+    UPDATE email_queue
+    SET
+        status = 'queued',
+        lease_expires_at = NULL,
+        error_message = 'Send lease expired; requeued',
+        updated_at = NOW()
+    WHERE status = 'sending'
+      AND lease_expires_at < NOW();
+
+    GET DIAGNOSTICS recovered_count = ROW_COUNT;
+    RETURN recovered_count;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION recover_expired_email_leases() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION recover_expired_email_leases() TO service_role;
+
+
+-- Step 4: One dispatch per queued email
+-- Written by send-email-worker right before and after it hands an email to the provider.
+CREATE TABLE IF NOT EXISTS email_dispatches (
+    idempotency_key UUID PRIMARY KEY,
+    email_queue_id BIGINT REFERENCES email_queue(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    provider_message_id TEXT,
+    provider_thread_id TEXT,
+    rfc_message_id TEXT
+);
+
+ALTER TABLE email_dispatches ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role reads and writes dispatches
+
+-- Registers a dispatch and says whether the worker may send:
+--   'acquired'    - send now, then call complete_email_dispatch
+--   'sent'        - already went out; the provider IDs are returned
+--   'in_progress' - another request is sending it right now
+--   'stale'       - the key doesn't belong to this email (e.g. a replayed request)
+-- A dispatch that was started but never completed is taken over once it is older than
+-- the lease, since the send most likely never reached the provider.
+CREATE OR REPLACE FUNCTION begin_email_dispatch(
+    target_queue_id BIGINT,
+    dispatch_key UUID,
+    lease_duration INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS TABLE (
+    state TEXT,
+    provider_message_id TEXT,
+    provider_thread_id TEXT,
+    rfc_message_id TEXT
+) AS $$
+DECLARE
+    queued_email RECORD;
+    dispatch RECORD;
+BEGIN
+    SELECT eq.id, eq.idempotency_key INTO queued_email
+    FROM email_queue eq
+    WHERE eq.id = target_queue_id
+    FOR UPDATE;
+
+    IF queued_email.id IS NULL OR queued_email.idempotency_key <> dispatch_key THEN
+        state := 'stale';
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    SELECT * INTO dispatch FROM email_dispatches d WHERE d.idempotency_key = dispatch_key;
+
+    IF dispatch.completed_at IS NOT NULL THEN
+        state := 'sent';
+        provider_message_id := dispatch.provider_message_id;
+        provider_thread_id := dispatch.provider_thread_id;
+        rfc_message_id := dispatch.rfc_message_id;
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    IF dispatch.started_at > NOW() - lease_duration THEN
+        state := 'in_progress';
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    INSERT INTO email_dispatches (idempotency_key, email_queue_id, started_at)
+    VALUES (dispatch_key, target_queue_id, NOW())
+    ON CONFLICT (idempotency_key) DO UPDATE SET started_at = NOW();
+
+    state := 'acquired';
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION complete_email_dispatch(
+    dispatch_key UUID,
+    sent_provider_message_id TEXT DEFAULT NULL,
+    sent_provider_thread_id TEXT DEFAULT NULL,
+    sent_rfc_message_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+    UPDATE email_dispatches
+    SET
+        completed_at = NOW(),
+        provider_message_id = sent_provider_message_id,
+        provider_thread_id = sent_provider_thread_id,
+        rfc_message_id = sent_rfc_message_id
+    WHERE idempotency_key = dispatch_key;
+$$ LANGUAGE sql;
+
+-- For sends the provider definitely rejected, so a retry may send again straight away
+CREATE OR REPLACE FUNCTION release_email_dispatch(dispatch_key UUID)
+RETURNS VOID AS $$
+    DELETE FROM email_dispatches
+    WHERE idempotency_key = dispatch_key AND completed_at IS NULL;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION begin_email_dispatch(BIGINT, UUID, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION begin_email_dispatch(BIGINT, UUID, INTERVAL) TO service_role;
+REVOKE EXECUTE ON FUNCTION complete_email_dispatch(UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_email_dispatch(UUID, TEXT, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION release_email_dispatch(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION release_email_dispatch(UUID) TO service_role;
+
+
+-- Step 5: Claim emails instead of selecting them
+-- Emails a previous run already sent (the worker answers with `duplicate`) are marked
+-- sent without counting towards the inbox's daily limit a second time.
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT,
+    message TEXT
+) AS $$
+DECLARE
+    email_to_send RECORD;
+    contact_record RECORD;
+    campaign_state campaign_status;
+    -- Configurable limits
+    batch_size INT := 10; -- Number of emails to process per run
+    current_send_count INT;
+    inbox_daily_limit INT;
+    next_slot TIMESTAMPTZ;
+    -- Supabase Edge Function URL, from worker_settings
+    edge_function_url TEXT := worker_function_url('send-email-worker');
+    -- The service role key used to invoke functions from postgres, from Vault
+    service_role_key TEXT := worker_secret('service_role_key');
+BEGIN
+    -- Emails stuck in 'sending' from an earlier run get another chance
+    PERFORM recover_expired_email_leases();
+
+    -- Claim the emails that are ready to be sent; they are 'sending' from here on
+    FOR email_to_send IN
+        SELECT * FROM claim_email_queue_batch(batch_size)
+    LOOP
+        -- 1. Get contact details
+        SELECT * INTO contact_record FROM contacts WHERE id = email_to_send.contact_id;
+
+        -- 2. Hold emails for paused campaigns and cancel those of stopped ones. Follow-ups
+        --    enqueued while a campaign was paused end up here.
+        SELECT campaigns.status INTO campaign_state FROM campaigns WHERE id = email_to_send.campaign_id;
+
+        IF campaign_state = 'paused' THEN
+            UPDATE email_queue
+            SET
+                status = 'held',
+                hold_reason = 'Campaign paused',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'held';
+            message := 'Campaign is paused';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        IF campaign_state = 'stopped' THEN
+            UPDATE email_queue
+            SET
+                status = 'cancelled',
+                error_message = 'Campaign stopped',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'cancelled';
+            message := 'Campaign is stopped';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 3. Never send to a suppressed address, even one added after the email was queued
+        IF is_suppressed(email_to_send.user_id, contact_record.email) THEN
+            UPDATE email_queue
+            SET
+                status = 'cancelled',
+                error_message = 'Recipient is on the suppression list',
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'cancelled';
+            message := 'Recipient is suppressed';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 4. Push emails that fall outside the recipient's sending window to the next valid slot
+        next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+        IF next_slot > NOW() THEN
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_slot,
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Outside sending window';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 5. Check the inbox's daily send limit (or today's warm-up volume)
+        inbox_daily_limit := inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE);
+
+        SELECT send_count INTO current_send_count
+        FROM inbox_daily_send_counts
+        WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+        IF current_send_count IS NULL THEN
+            current_send_count := 0;
+        END IF;
+
+        IF current_send_count >= inbox_daily_limit THEN
+            -- Reschedule for the next day, inside the recipient's window
+            UPDATE email_queue
+            SET
+                status = 'rescheduled',
+                send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+                updated_at = NOW()
+            WHERE id = email_to_send.id;
+
+            -- Return status and continue to next email
+            queue_id := email_to_send.id;
+            status := 'rescheduled';
+            message := 'Daily limit reached';
+            RETURN NEXT;
+            CONTINUE;
+        END IF;
+
+        -- 6. Invoke the Edge Function to send the email
+        DECLARE
+            http_response RECORD;
+            error_message TEXT;
+            failure_status TEXT;
+            thread_record RECORD;
+        BEGIN
+            -- Follow-ups reply to the previous email so they land in the same thread
+            SELECT * INTO thread_record FROM email_thread_headers(email_to_send.id);
+
+            -- The body comes back as text; cast it so the worker's fields can be read
+            SELECT status_code, content::JSONB AS content INTO http_response
+            FROM supabase.net.http_post(
+                url := edge_function_url,
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || service_role_key
+                ),
+                body := jsonb_build_object(
+                    'queue_id', email_to_send.id,
+                    'inbox_id', email_to_send.inbox_id,
+                    'contact_email', contact_record.email,
+                    'subject', email_to_send.subject,
+                    'body', email_to_send.body,
+                    'in_reply_to', thread_record.in_reply_to,
+                    'references', thread_record.message_references,
+                    'thread_id', thread_record.provider_thread_id,
+                    'idempotency_key', email_to_send.idempotency_key
+                )
+            );
+
+            -- 7. The worker reports whether a failed send is worth retrying
+            IF http_response.status_code NOT BETWEEN 200 AND 299 THEN
+                error_message := COALESCE(http_response.content->>'error', 'HTTP ' || http_response.status_code);
+                failure_status := record_send_failure(
+                    email_to_send.id,
+                    error_message,
+                    COALESCE(
+                        (http_response.content->>'retryable')::BOOLEAN,
+                        http_response.status_code = 429 OR http_response.status_code >= 500
+                    ),
+                    COALESCE((http_response.content->>'provider_status')::INT, http_response.status_code)
+                );
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+                CONTINUE;
+            END IF;
+
+            -- 8. Update status based on response, keeping the IDs needed to thread follow-ups
+            PERFORM record_send_success(
+                email_to_send.id,
+                http_response.content->>'provider_message_id',
+                http_response.content->>'provider_thread_id',
+                http_response.content->>'message_id'
+            );
+
+            -- 9. Increment the daily send count, unless an earlier run already did
+            IF NOT COALESCE((http_response.content->>'duplicate')::BOOLEAN, FALSE) THEN
+                INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+                VALUES (email_to_send.user_id, email_to_send.inbox_id, CURRENT_DATE, 1)
+                ON CONFLICT (inbox_id, send_date)
+                DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+            END IF;
+
+            -- 10. Enqueue the next step of the sequence for this contact
+            PERFORM schedule_next_step(email_to_send.id);
+
+            queue_id := email_to_send.id;
+            status := 'sent';
+            message := 'Email sent successfully';
+            RETURN NEXT;
+
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- The edge function could not be reached at all, which is always transient
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                failure_status := record_send_failure(email_to_send.id, 'Edge function error: ' || error_message, TRUE, NULL);
+
+                queue_id := email_to_send.id;
+                status := failure_status;
+                message := 'Failed to send email: ' || error_message;
+                RETURN NEXT;
+        END;
+
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,221 @@
+-- Migration: Email Dispatcher
+-- This migration hands sending over from `process_email_queue`, which calls
+-- `send-email-worker` once per email from inside PL/pgSQL ten emails a minute, to the
+-- `email-dispatcher` edge function. Each run of the dispatcher claims batches with
+-- `prepare_email_batch`, which applies the same checks as `process_email_queue`
+-- (campaign status, suppression, sending windows, daily limits), sends the batch
+-- concurrently with one email at a time per inbox, and writes every outcome back in one
+-- call to `record_email_batch_results`. `process_email_queue` is dropped, so the send
+-- path only has to be kept up to date in one place.
+
+-- Step 1: The pre-send checks for one claimed email
+-- Holds, cancels or reschedules the email and says why, or returns NULL when it can be
+-- sent. `reserved_sends` is how many emails the inbox is already sending in this batch,
+-- which haven't reached `inbox_daily_send_counts` yet.
+CREATE OR REPLACE FUNCTION check_claimed_email(email_to_send email_queue, reserved_sends INT DEFAULT 0)
+RETURNS TEXT AS $$
+DECLARE
+    contact_email TEXT;
+    campaign_state campaign_status;
+    next_slot TIMESTAMPTZ;
+    current_send_count INT;
+BEGIN
+    -- 1. Paused campaigns hold their emails and stopped ones cancel them
+    SELECT status INTO campaign_state FROM campaigns WHERE id = email_to_send.campaign_id;
+
+    IF campaign_state = 'paused' THEN
+        UPDATE email_queue
+        SET status = 'held', hold_reason = 'Campaign paused', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Campaign is paused';
+    END IF;
+
+    IF campaign_state = 'stopped' THEN
+        UPDATE email_queue
+        SET status = 'cancelled', error_message = 'Campaign stopped', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Campaign is stopped';
+    END IF;
+
+    -- 2. Never send to a suppressed address
+    SELECT email INTO contact_email FROM contacts WHERE id = email_to_send.contact_id;
+
+    IF is_suppressed(email_to_send.user_id, contact_email) THEN
+        UPDATE email_queue
+        SET status = 'cancelled', error_message = 'Recipient is on the suppression list', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Recipient is suppressed';
+    END IF;
+
+    -- 3. Outside the recipient's sending window
+    next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+    IF next_slot > NOW() THEN
+        UPDATE email_queue
+        SET status = 'rescheduled', send_at = next_slot, updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Outside sending window';
+    END IF;
+
+    -- 4. The inbox's daily limit, counting the emails it is already sending in this batch
+    SELECT send_count INTO current_send_count
+    FROM inbox_daily_send_counts
+    WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+    IF COALESCE(current_send_count, 0) + reserved_sends >= inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE) THEN
+        UPDATE email_queue
+        SET
+            status = 'rescheduled',
+            send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+            updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Daily limit reached';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 2: Claim a batch and return the emails that can go out
+-- Everything `send-email-worker` needs is returned with each email, including the
+-- threading headers for follow-ups and the idempotency key.
+CREATE OR REPLACE FUNCTION prepare_email_batch(
+    batch_size INT DEFAULT 100,
+    lease_duration INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS TABLE (
+    queue_id BIGINT,
+    inbox_id BIGINT,
+    contact_email TEXT,
+    subject TEXT,
+    body TEXT,
+    in_reply_to TEXT,
+    message_references TEXT,
+    thread_id TEXT,
+    idempotency_key UUID
+) AS $$
+DECLARE
+    email_to_send email_queue%ROWTYPE;
+    thread_record RECORD;
+    reserved_by_inbox JSONB := '{}'::JSONB;
+    reserved INT;
+BEGIN
+    PERFORM recover_expired_email_leases();
+
+    FOR email_to_send IN
+        SELECT * FROM claim_email_queue_batch(batch_size, lease_duration)
+    LOOP
+        reserved := COALESCE((reserved_by_inbox->>email_to_send.inbox_id::TEXT)::INT, 0);
+
+        IF check_claimed_email(email_to_send, reserved) IS NOT NULL THEN
+            CONTINUE;
+        END IF;
+
+        reserved_by_inbox := reserved_by_inbox || jsonb_build_object(email_to_send.inbox_id::TEXT, reserved + 1);
+
+        SELECT * INTO thread_record FROM email_thread_headers(email_to_send.id);
+
+        queue_id := email_to_send.id;
+        inbox_id := email_to_send.inbox_id;
+        SELECT c.email INTO contact_email FROM contacts c WHERE c.id = email_to_send.contact_id;
+        subject := email_to_send.subject;
+        body := email_to_send.body;
+        in_reply_to := thread_record.in_reply_to;
+        message_references := thread_record.message_references;
+        thread_id := thread_record.provider_thread_id;
+        idempotency_key := email_to_send.idempotency_key;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION prepare_email_batch(INT, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION prepare_email_batch(INT, INTERVAL) TO service_role;
+
+
+-- Step 3: Write a batch of send outcomes back
+-- `results` is a JSON array with one object per email:
+--   { "queue_id", "ok", "duplicate", "provider_message_id", "provider_thread_id",
+--     "message_id", "error", "retryable", "provider_status" }
+-- Successful sends are recorded, counted towards the inbox's day (unless the worker
+-- reports an earlier run already sent them) and get their next step enqueued. Failures
+-- go through the usual retry and dead-letter handling. Each email is written on its
+-- own, so one bad result doesn't lose the rest of the batch.
+CREATE OR REPLACE FUNCTION record_email_batch_results(results JSONB)
+RETURNS TABLE (
+    queue_id BIGINT,
+    status TEXT
+) AS $$
+DECLARE
+    outcome JSONB;
+    sent_email RECORD;
+    error_message TEXT;
+BEGIN
+    FOR outcome IN SELECT value FROM jsonb_array_elements(results) LOOP
+        queue_id := (outcome->>'queue_id')::BIGINT;
+
+        BEGIN
+            IF COALESCE((outcome->>'ok')::BOOLEAN, FALSE) THEN
+                PERFORM record_send_success(
+                    queue_id,
+                    outcome->>'provider_message_id',
+                    outcome->>'provider_thread_id',
+                    outcome->>'message_id'
+                );
+
+                IF NOT COALESCE((outcome->>'duplicate')::BOOLEAN, FALSE) THEN
+                    SELECT eq.user_id, eq.inbox_id INTO sent_email FROM email_queue eq WHERE eq.id = queue_id;
+
+                    INSERT INTO inbox_daily_send_counts (user_id, inbox_id, send_date, send_count)
+                    VALUES (sent_email.user_id, sent_email.inbox_id, CURRENT_DATE, 1)
+                    ON CONFLICT (inbox_id, send_date)
+                    DO UPDATE SET send_count = inbox_daily_send_counts.send_count + 1;
+                END IF;
+
+                PERFORM schedule_next_step(queue_id);
+                status := 'sent';
+            ELSE
+                status := record_send_failure(
+                    queue_id,
+                    COALESCE(outcome->>'error', 'Unknown error'),
+                    COALESCE((outcome->>'retryable')::BOOLEAN, TRUE),
+                    (outcome->>'provider_status')::INT
+                );
+            END IF;
+        EXCEPTION
+            WHEN OTHERS THEN
+                -- Leave the email 'sending'; its lease brings it back to the queue
+                GET STACKED DIAGNOSTICS error_message = MESSAGE_TEXT;
+                status := 'error: ' || error_message;
+        END;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_email_batch_results(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_email_batch_results(JSONB) TO service_role;
+
+
+-- Step 4: Run the dispatcher every minute instead of process_email_queue
+-- Fire and forget: the dispatcher writes its results back itself
+CREATE OR REPLACE FUNCTION invoke_email_dispatcher()
+RETURNS BIGINT AS $$
+    SELECT invoke_worker_function('email-dispatcher');
+$$ LANGUAGE sql;
+
+SELECT cron.unschedule('process-email-queue-job')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-email-queue-job');
+
+SELECT cron.schedule(
+    'dispatch-email-queue-job',
+    '* * * * *', -- Every minute
+    $$ SELECT invoke_email_dispatcher(); $$
+);
+
+DROP FUNCTION IF EXISTS process_email_queue();
+
+-- To unschedule the job:
+-- SELECT cron.unschedule('dispatch-email-queue-job');
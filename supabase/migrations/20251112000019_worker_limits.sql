@@ -0,0 +1,14 @@
+-- Migration: Worker Limits
+-- This migration moves the remaining worker limits out of function bodies and into
+-- `worker_settings` (see 20251111000003_worker_settings_and_secrets.sql): the batch
+-- size, concurrency and time budget of `email-dispatcher`, and how long a claimed email
+-- stays claimed. They can be changed with `set_worker_setting` without redeploying any
+-- SQL or functions.
+
+-- Step 1: Settings
+INSERT INTO worker_settings (key, value, description) VALUES
+    ('dispatcher_batch_size', '100', 'Emails email-dispatcher claims per batch'),
+    ('dispatcher_max_concurrent_inboxes', '10', 'Inboxes email-dispatcher sends from at the same time'),
+    ('dispatcher_time_budget_ms', '45000', 'How long email-dispatcher keeps claiming new batches in one run'),
+    ('send_lease', '10 minutes', 'How long a claimed email stays claimed before it is requeued')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,22 @@
+-- Migration: Encrypted Inbox Tokens
+-- This migration goes with the move to encrypting inbox OAuth tokens at rest. The edge
+-- functions now encrypt `access_token` and `refresh_token` before writing them (see
+-- supabase/functions/_shared/crypto.ts) and decrypt them only when they call the
+-- provider, so the database, backups and SQL payloads only ever hold ciphertext.
+-- Tokens stored before this change are encrypted by the nightly `reencrypt-credentials`
+-- run (see 20251112000024_credential_reencryption.sql), or sooner if their inbox sends
+-- or syncs replies first. No SQL function reads the tokens: `send-email-worker` is given an
+-- inbox ID and loads the credentials itself.
+
+-- Step 1: Drop the tokens of disconnected inboxes
+-- They are never used again (reconnecting issues new ones), so they would otherwise
+-- stay in plain text indefinitely.
+UPDATE inboxes
+SET access_token = NULL, refresh_token = NULL
+WHERE is_connected IS NOT TRUE
+  AND (access_token IS NOT NULL OR refresh_token IS NOT NULL);
+
+
+-- Step 2: Describe the stored format
+COMMENT ON COLUMN inboxes.access_token IS 'Encrypted by the edge functions: enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>';
+COMMENT ON COLUMN inboxes.refresh_token IS 'Encrypted by the edge functions: enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>';
@@ -0,0 +1,405 @@
+-- Migration: Inbox Health
+-- This migration stops an inbox with revoked or broken credentials from failing its
+-- queued emails one by one. The `inbox-health-check` edge function validates every
+-- OAuth inbox's tokens and send permission on a schedule, and `send-email-worker`
+-- reports credentials it finds revoked mid-send. Either way the inbox is put in `error`
+-- with a reason and its queued emails are held. They are released again when the
+-- inbox is reconnected, or the user can re-route them to their other healthy inboxes
+-- with `reroute_held_emails`.
+
+-- Step 1: Why an inbox is in error, and when it was last checked
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'status_reason'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN status_reason TEXT; -- Shown to the user while the inbox is in error
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'status_before_error'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN status_before_error inbox_status; -- Restored once the inbox is healthy again
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'inboxes' AND column_name = 'health_checked_at'
+    ) THEN
+        ALTER TABLE inboxes ADD COLUMN health_checked_at TIMESTAMPTZ;
+    END IF;
+END$$;
+
+
+-- Step 2: Put an inbox in error and hold its emails
+-- Emails already being sent finish (or fail) on their own. Returns the number of
+-- emails held.
+CREATE OR REPLACE FUNCTION mark_inbox_unhealthy(target_inbox_id BIGINT, reason TEXT)
+RETURNS INT AS $$
+DECLARE
+    held_count INT;
+BEGIN
+    UPDATE inboxes
+    SET
+        status_before_error = CASE WHEN status = 'error' THEN status_before_error ELSE status END,
+        status = 'error',
+        status_reason = reason
+    WHERE id = target_inbox_id;
+
+    UPDATE email_queue
+    SET
+        status = 'held',
+        hold_reason = 'Inbox unavailable',
+        updated_at = NOW()
+    WHERE inbox_id = target_inbox_id
+      AND status IN ('queued', 'rescheduled');
+
+    GET DIAGNOSTICS held_count = ROW_COUNT;
+    RETURN held_count;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 3: Bring an inbox back and release its emails
+-- Emails that fell due while the inbox was down are spaced out from now with a random
+-- 90-300 second gap, as `resume_campaign` does; emails due later keep their time.
+-- Emails of campaigns paused in the meantime are held again when they are claimed.
+-- Returns the number of emails released.
+CREATE OR REPLACE FUNCTION mark_inbox_healthy(target_inbox_id BIGINT)
+RETURNS INT AS $$
+DECLARE
+    held_email RECORD;
+    current_send_time TIMESTAMPTZ := NOW();
+    released_count INT := 0;
+BEGIN
+    UPDATE inboxes
+    SET
+        status = COALESCE(status_before_error, 'active'),
+        status_before_error = NULL,
+        status_reason = NULL
+    WHERE id = target_inbox_id
+      AND status = 'error';
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    FOR held_email IN
+        SELECT id, campaign_id, contact_id, send_at
+        FROM email_queue
+        WHERE inbox_id = target_inbox_id
+          AND status = 'held'
+          AND hold_reason = 'Inbox unavailable'
+        ORDER BY send_at ASC, id ASC
+    LOOP
+        IF held_email.send_at <= current_send_time THEN
+            current_send_time := current_send_time + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second');
+        END IF;
+
+        UPDATE email_queue
+        SET
+            status = 'queued',
+            hold_reason = NULL,
+            send_at = next_send_slot(GREATEST(held_email.send_at, current_send_time), held_email.campaign_id, held_email.contact_id, target_inbox_id),
+            updated_at = NOW()
+        WHERE id = held_email.id;
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 4: Record the outcome of a health check
+-- Checks that couldn't reach the provider aren't recorded, so a provider outage never
+-- takes inboxes down.
+CREATE OR REPLACE FUNCTION record_inbox_health_check(target_inbox_id BIGINT, is_healthy BOOLEAN, failure_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE inboxes SET health_checked_at = NOW() WHERE id = target_inbox_id;
+
+    IF is_healthy THEN
+        PERFORM mark_inbox_healthy(target_inbox_id);
+    ELSE
+        PERFORM mark_inbox_unhealthy(target_inbox_id, COALESCE(failure_reason, 'Health check failed'));
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION mark_inbox_unhealthy(BIGINT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_inbox_unhealthy(BIGINT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION mark_inbox_healthy(BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_inbox_healthy(BIGINT) TO service_role;
+REVOKE EXECUTE ON FUNCTION record_inbox_health_check(BIGINT, BOOLEAN, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_inbox_health_check(BIGINT, BOOLEAN, TEXT) TO service_role;
+
+
+-- Step 5: Send an inbox's held emails from the user's other inboxes
+-- Each email moves to the connected, healthy inbox, among those its campaign may send from, with
+-- the most capacity left today. Emails of campaigns with no other healthy inbox stay
+-- held. Follow-ups are sent from the new inbox too, since `schedule_next_step` uses the
+-- inbox of the email before. Runs with the caller's permissions, so RLS limits it to
+-- their own inboxes. Returns the number of emails re-routed.
+CREATE OR REPLACE FUNCTION reroute_held_emails(source_inbox_id BIGINT)
+RETURNS INT AS $$
+DECLARE
+    held_email RECORD;
+    target_inbox_id BIGINT;
+    current_send_time TIMESTAMPTZ := NOW();
+    rerouted_count INT := 0;
+BEGIN
+    FOR held_email IN
+        SELECT eq.id, eq.user_id, eq.campaign_id, eq.contact_id, eq.send_at
+        FROM email_queue eq
+        WHERE eq.inbox_id = source_inbox_id
+          AND eq.status = 'held'
+          AND eq.hold_reason = 'Inbox unavailable'
+        ORDER BY eq.send_at ASC, eq.id ASC
+    LOOP
+        SELECT i.id INTO target_inbox_id
+        FROM inboxes i
+        WHERE i.user_id = held_email.user_id
+          AND i.id <> source_inbox_id
+          AND i.status IS DISTINCT FROM 'error'
+          AND i.is_connected IS TRUE
+          AND (
+              i.id IN (SELECT ci.inbox_id FROM campaign_inboxes ci WHERE ci.campaign_id = held_email.campaign_id)
+              OR NOT EXISTS (SELECT 1 FROM campaign_inboxes ci WHERE ci.campaign_id = held_email.campaign_id)
+          )
+        ORDER BY inbox_remaining_capacity(i.id, CURRENT_DATE) DESC, i.id ASC
+        LIMIT 1;
+
+        IF target_inbox_id IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        IF held_email.send_at <= current_send_time THEN
+            current_send_time := current_send_time + (floor(random() * (300 - 90 + 1) + 90) * INTERVAL '1 second');
+        END IF;
+
+        UPDATE email_queue
+        SET
+            inbox_id = target_inbox_id,
+            status = 'queued',
+            hold_reason = NULL,
+            send_at = next_send_slot(GREATEST(held_email.send_at, current_send_time), held_email.campaign_id, held_email.contact_id, target_inbox_id),
+            updated_at = NOW()
+        WHERE id = held_email.id;
+
+        rerouted_count := rerouted_count + 1;
+    END LOOP;
+
+    RETURN rerouted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reroute_held_emails(BIGINT) TO authenticated;
+
+-- How many emails each of the caller's inboxes is holding until it's reconnected
+CREATE OR REPLACE FUNCTION held_email_counts()
+RETURNS TABLE (
+    inbox_id BIGINT,
+    held_count BIGINT
+) AS $$
+    SELECT eq.inbox_id, count(*)
+    FROM email_queue eq
+    WHERE eq.status = 'held' AND eq.hold_reason = 'Inbox unavailable'
+    GROUP BY eq.inbox_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION held_email_counts() TO authenticated;
+
+
+-- Step 6: Only reuse a Gmail thread from the same inbox
+-- A re-routed follow-up still replies to the earlier email (In-Reply-To/References),
+-- but the provider's thread ID belongs to the mailbox that sent it.
+CREATE OR REPLACE FUNCTION email_thread_headers(target_queue_id BIGINT)
+RETURNS TABLE (
+    in_reply_to TEXT,
+    message_references TEXT,
+    provider_thread_id TEXT
+) AS $$
+    WITH RECURSIVE ancestors AS (
+        SELECT parent.id, parent.in_reply_to_queue_id, parent.rfc_message_id, parent.provider_thread_id, parent.inbox_id, 1 AS depth
+        FROM email_queue child
+        JOIN email_queue parent ON parent.id = child.in_reply_to_queue_id
+        WHERE child.id = target_queue_id
+        UNION ALL
+        SELECT parent.id, parent.in_reply_to_queue_id, parent.rfc_message_id, parent.provider_thread_id, parent.inbox_id, ancestors.depth + 1
+        FROM ancestors
+        JOIN email_queue parent ON parent.id = ancestors.in_reply_to_queue_id
+    )
+    SELECT
+        (SELECT a.rfc_message_id FROM ancestors a WHERE a.depth = 1),
+        (SELECT string_agg(a.rfc_message_id, ' ' ORDER BY a.depth DESC) FROM ancestors a WHERE a.rfc_message_id IS NOT NULL),
+        (SELECT a.provider_thread_id FROM ancestors a
+         WHERE a.provider_thread_id IS NOT NULL
+           AND a.inbox_id = (SELECT eq.inbox_id FROM email_queue eq WHERE eq.id = target_queue_id)
+         ORDER BY a.depth ASC LIMIT 1);
+$$ LANGUAGE sql STABLE;
+
+
+-- Step 7: Resuming a campaign leaves emails held for their inbox alone
+CREATE OR REPLACE FUNCTION resume_campaign(campaign_id_to_resume BIGINT)
+RETURNS INT AS $$
+DECLARE
+    current_status campaign_status;
+    held_email RECORD;
+    random_delay_seconds INT;
+    resume_time TIMESTAMPTZ := NOW();
+    current_send_time TIMESTAMPTZ := NOW();
+    scheduled_send_time TIMESTAMPTZ;
+    released_count INT := 0;
+BEGIN
+    SELECT status INTO current_status FROM campaigns WHERE id = campaign_id_to_resume;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Campaign % not found.', campaign_id_to_resume;
+    END IF;
+
+    IF current_status <> 'paused' THEN
+        RAISE EXCEPTION 'Only paused campaigns can be resumed (campaign % is %).', campaign_id_to_resume, current_status;
+    END IF;
+
+    FOR held_email IN
+        SELECT id, contact_id, inbox_id, send_at
+        FROM email_queue
+        WHERE campaign_id = campaign_id_to_resume
+          AND status = 'held'
+          AND hold_reason IS DISTINCT FROM 'Inbox unavailable'
+        ORDER BY send_at ASC, id ASC
+    LOOP
+        IF held_email.send_at > current_send_time THEN
+            -- Not due yet: the original schedule still holds
+            scheduled_send_time := held_email.send_at;
+        ELSE
+            random_delay_seconds := floor(random() * (300 - 90 + 1) + 90);
+            current_send_time := current_send_time + (random_delay_seconds * INTERVAL '1 second');
+
+            -- Keep the spacing when the recipient's window is closed, as start_campaign does
+            scheduled_send_time := next_send_slot(current_send_time, campaign_id_to_resume, held_email.contact_id, held_email.inbox_id);
+            IF scheduled_send_time > current_send_time THEN
+                scheduled_send_time := next_send_slot(
+                    scheduled_send_time + (current_send_time - resume_time),
+                    campaign_id_to_resume,
+                    held_email.contact_id,
+                    held_email.inbox_id
+                );
+            END IF;
+        END IF;
+
+        UPDATE email_queue
+        SET
+            status = 'queued',
+            hold_reason = NULL,
+            send_at = scheduled_send_time,
+            updated_at = NOW()
+        WHERE id = held_email.id;
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    UPDATE campaigns SET status = 'active' WHERE id = campaign_id_to_resume;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 8: Hold emails claimed for an inbox in error
+-- Follow-ups enqueued for the inbox after it went down end up here. Without this they
+-- would be pushed back a day at a time, since an inbox in error has no daily capacity.
+CREATE OR REPLACE FUNCTION check_claimed_email(email_to_send email_queue, reserved_sends INT DEFAULT 0)
+RETURNS TEXT AS $$
+DECLARE
+    contact_email TEXT;
+    campaign_state campaign_status;
+    inbox_state inbox_status;
+    next_slot TIMESTAMPTZ;
+    current_send_count INT;
+BEGIN
+    -- 1. Paused campaigns hold their emails and stopped ones cancel them
+    SELECT status INTO campaign_state FROM campaigns WHERE id = email_to_send.campaign_id;
+
+    IF campaign_state = 'paused' THEN
+        UPDATE email_queue
+        SET status = 'held', hold_reason = 'Campaign paused', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Campaign is paused';
+    END IF;
+
+    IF campaign_state = 'stopped' THEN
+        UPDATE email_queue
+        SET status = 'cancelled', error_message = 'Campaign stopped', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Campaign is stopped';
+    END IF;
+
+    -- 2. Inboxes in error hold their emails until they are reconnected or re-routed
+    SELECT status INTO inbox_state FROM inboxes WHERE id = email_to_send.inbox_id;
+
+    IF inbox_state = 'error' THEN
+        UPDATE email_queue
+        SET status = 'held', hold_reason = 'Inbox unavailable', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Inbox is unavailable';
+    END IF;
+
+    -- 3. Never send to a suppressed address
+    SELECT email INTO contact_email FROM contacts WHERE id = email_to_send.contact_id;
+
+    IF is_suppressed(email_to_send.user_id, contact_email) THEN
+        UPDATE email_queue
+        SET status = 'cancelled', error_message = 'Recipient is on the suppression list', updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Recipient is suppressed';
+    END IF;
+
+    -- 4. Outside the recipient's sending window
+    next_slot := next_send_slot(NOW(), email_to_send.campaign_id, email_to_send.contact_id, email_to_send.inbox_id);
+
+    IF next_slot > NOW() THEN
+        UPDATE email_queue
+        SET status = 'rescheduled', send_at = next_slot, updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Outside sending window';
+    END IF;
+
+    -- 5. The inbox's daily limit, counting the emails it is already sending in this batch
+    SELECT send_count INTO current_send_count
+    FROM inbox_daily_send_counts
+    WHERE inbox_id = email_to_send.inbox_id AND send_date = CURRENT_DATE;
+
+    IF COALESCE(current_send_count, 0) + reserved_sends >= inbox_effective_daily_limit(email_to_send.inbox_id, CURRENT_DATE) THEN
+        UPDATE email_queue
+        SET
+            status = 'rescheduled',
+            send_at = next_send_slot(send_at + INTERVAL '1 day', campaign_id, contact_id, inbox_id),
+            updated_at = NOW()
+        WHERE id = email_to_send.id;
+        RETURN 'Daily limit reached';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- Step 9: Check inboxes every 15 minutes
+CREATE OR REPLACE FUNCTION invoke_inbox_health_check()
+RETURNS BIGINT AS $$
+    SELECT invoke_worker_function('inbox-health-check');
+$$ LANGUAGE sql;
+
+SELECT cron.schedule(
+    'check-inbox-health-job',
+    '*/15 * * * *', -- Every 15 minutes
+    $$ SELECT invoke_inbox_health_check(); $$
+);
+
+-- To unschedule the job:
+-- SELECT cron.unschedule('check-inbox-health-job');
@@ -0,0 +1,144 @@
+-- Migration: Domain DNS Checks
+-- This migration stores the outcome of real DNS verification. The `verify-domain` edge
+-- function looks up each domain's SPF, DKIM and DMARC TXT records and records one row
+-- per record: whether it passed, the value it found and what is wrong with it. The
+-- `spf`, `dkim` and `dmarc` flags on `domains` follow the latest check instead of being
+-- set by the client.
+--
+-- Columns added to `domains` after this migration need their own
+-- `GRANT INSERT (<column>), UPDATE (<column>) ON domains TO authenticated` to be
+-- writable by clients.
+
+-- Step 1: Per-record flags on domains
+-- The app has always read these; make sure they exist alongside the `*_record` columns
+-- from the base tables. The base tables also call the domain itself `domain_name`,
+-- while the app and `verify-domain` read and write `name`.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'domains' AND column_name = 'name'
+    ) AND EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'domains' AND column_name = 'domain_name'
+    ) THEN
+        ALTER TABLE domains RENAME COLUMN domain_name TO name;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'domains' AND column_name = 'spf'
+    ) THEN
+        ALTER TABLE domains ADD COLUMN spf BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'domains' AND column_name = 'dkim'
+    ) THEN
+        ALTER TABLE domains ADD COLUMN dkim BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'domains' AND column_name = 'dmarc'
+    ) THEN
+        ALTER TABLE domains ADD COLUMN dmarc BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'domains' AND column_name = 'dns_checked_at'
+    ) THEN
+        ALTER TABLE domains ADD COLUMN dns_checked_at TIMESTAMPTZ;
+    END IF;
+END $$;
+
+
+-- Step 2: The latest check of each record
+-- Only the edge function writes here (through `record_domain_dns_checks`), so users can
+-- read their results but not change them.
+CREATE TABLE IF NOT EXISTS domain_dns_checks (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    domain_id BIGINT REFERENCES domains(id) ON DELETE CASCADE NOT NULL,
+    record_type TEXT NOT NULL CHECK (record_type IN ('spf', 'dkim', 'dmarc')),
+    host TEXT NOT NULL, -- The name that was looked up, e.g. '_dmarc.example.com'
+    passed BOOLEAN NOT NULL,
+    observed_value TEXT, -- The matching TXT record(s), one per line; NULL when none were found
+    error TEXT, -- What to fix, when the check failed
+    checked_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (domain_id, record_type)
+);
+
+CREATE INDEX IF NOT EXISTS domain_dns_checks_user_id_idx ON domain_dns_checks(user_id);
+
+ALTER TABLE domain_dns_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own domain DNS checks"
+ON domain_dns_checks FOR SELECT
+USING (auth.uid() = user_id);
+
+GRANT SELECT ON domain_dns_checks TO authenticated;
+
+
+-- Step 3: Record a verification run
+-- `checks` is the array `verify-domain` builds: one object per record with
+-- `record_type`, `host`, `passed`, `observed_value` and `error`. Returns the domain
+-- with its updated flags.
+CREATE OR REPLACE FUNCTION record_domain_dns_checks(target_domain_id BIGINT, checks JSONB)
+RETURNS SETOF domains AS $$
+BEGIN
+    INSERT INTO domain_dns_checks (user_id, domain_id, record_type, host, passed, observed_value, error, checked_at)
+    SELECT d.user_id, d.id, c.record_type, c.host, c.passed, c.observed_value, c.error, NOW()
+    FROM domains d
+    CROSS JOIN jsonb_to_recordset(checks) AS c(
+        record_type TEXT,
+        host TEXT,
+        passed BOOLEAN,
+        observed_value TEXT,
+        error TEXT
+    )
+    WHERE d.id = target_domain_id
+    ON CONFLICT (domain_id, record_type) DO UPDATE
+    SET host = EXCLUDED.host,
+        passed = EXCLUDED.passed,
+        observed_value = EXCLUDED.observed_value,
+        error = EXCLUDED.error,
+        checked_at = EXCLUDED.checked_at;
+
+    RETURN QUERY
+    UPDATE domains d
+    SET spf = COALESCE((SELECT passed FROM domain_dns_checks WHERE domain_id = d.id AND record_type = 'spf'), FALSE),
+        dkim = COALESCE((SELECT passed FROM domain_dns_checks WHERE domain_id = d.id AND record_type = 'dkim'), FALSE),
+        dmarc = COALESCE((SELECT passed FROM domain_dns_checks WHERE domain_id = d.id AND record_type = 'dmarc'), FALSE),
+        dns_checked_at = NOW(),
+        updated_at = NOW()
+    WHERE d.id = target_domain_id
+    RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_domain_dns_checks(BIGINT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_domain_dns_checks(BIGINT, JSONB) TO service_role;
+
+
+-- Step 4: Clients can't set the check results themselves
+REVOKE INSERT, UPDATE ON domains FROM authenticated;
+
+DO $$
+DECLARE
+    writable_columns TEXT;
+BEGIN
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO writable_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'domains'
+      AND column_name NOT IN ('spf', 'dkim', 'dmarc', 'dns_checked_at');
+
+    EXECUTE format(
+        'GRANT INSERT (%1$s), UPDATE (%1$s) ON domains TO authenticated',
+        writable_columns
+    );
+END $$;
@@ -0,0 +1,46 @@
+-- Migration: SMTP Credentials
+-- This migration keeps inbox credentials away from the browser. SMTP inboxes are now
+-- added through the `add-smtp-inbox` edge function, which encrypts the password the
+-- same way inbox OAuth tokens are encrypted (see supabase/functions/_shared/crypto.ts),
+-- and `send-email-worker` decrypts it when it connects. Clients can no longer read the
+-- password or the OAuth tokens, and can't write a password that isn't encrypted.
+--
+-- Columns added to `inboxes` after this migration need their own
+-- `GRANT SELECT (<column>) ON inboxes TO authenticated` to be readable by clients.
+
+-- Step 1: Only encrypted passwords can be stored
+CREATE OR REPLACE FUNCTION reject_plaintext_smtp_password()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'SMTP passwords must be saved through the add-smtp-inbox function.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inboxes_reject_plaintext_smtp_password ON inboxes;
+CREATE TRIGGER inboxes_reject_plaintext_smtp_password
+BEFORE INSERT OR UPDATE OF smtp_password ON inboxes
+FOR EACH ROW
+WHEN (NEW.smtp_password IS NOT NULL AND NEW.smtp_password NOT LIKE 'enc:v1:%')
+EXECUTE FUNCTION reject_plaintext_smtp_password();
+
+
+-- Step 2: Clients can read every inbox column except the credentials
+REVOKE SELECT ON inboxes FROM authenticated;
+
+DO $$
+DECLARE
+    readable_columns TEXT;
+BEGIN
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO readable_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'inboxes'
+      AND column_name NOT IN ('smtp_password', 'access_token', 'refresh_token');
+
+    EXECUTE format('GRANT SELECT (%s) ON inboxes TO authenticated', readable_columns);
+END $$;
+
+
+-- Step 3: Describe the stored format
+COMMENT ON COLUMN inboxes.smtp_password IS 'Encrypted by the edge functions: enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>';
@@ -0,0 +1,24 @@
+-- Migration: Credential Re-encryption
+-- This migration schedules the `reencrypt-credentials` edge function, which encrypts
+-- inbox credentials still stored in plain text and re-encrypts those under a retired
+-- master key. Without it, an inbox's credentials were only rewritten when the inbox
+-- sent or synced, so idle inboxes kept plain text (or an old key) indefinitely. To
+-- encrypt what is stored now without waiting for the first run:
+--   SELECT invoke_credential_reencryption();
+
+-- Step 1: Run the re-encryption pass every night
+-- Fire and forget: the function logs the inboxes it couldn't re-encrypt
+CREATE OR REPLACE FUNCTION invoke_credential_reencryption()
+RETURNS BIGINT AS $$
+    SELECT invoke_worker_function('reencrypt-credentials');
+$$ LANGUAGE sql;
+
+SELECT cron.schedule(
+    'reencrypt-credentials-job',
+    '30 3 * * *', -- Every day at 03:30
+    $$ SELECT invoke_credential_reencryption(); $$
+);
+
+-- To unschedule the job:
+-- SELECT cron.unschedule('reencrypt-credentials-job');
+
@@ -5,11 +5,46 @@ export interface Campaign {
   id: number;
   created_at: string;
   name: string;
-  status: 'draft' | 'active' | 'paused' | 'completed';
+  status: 'draft' | 'active' | 'paused' | 'completed' | 'stopped';
+  started_at?: string | null;
+  completed_at?: string | null;
   contacts: number;
+  contacts_finished?: number;
   sent: number;
+  unique_opens?: number;
+  total_opens?: number;
   open_rate: number;
+  unique_clicks?: number;
+  total_clicks?: number;
+  click_rate?: number;
+  bounced?: number;
+  bounce_rate?: number;
   reply_rate: number;
+  step_stats?: CampaignStepStats[];
+}
+
+export interface CampaignStepStats {
+  step_number: number;
+  sent: number;
+  unique_opens: number;
+  unique_clicks: number;
+  open_rate: number;
+  click_rate: number;
+}
+
+// One row of `preview_campaign`: a rendered step for a contact, or a skipped contact
+export interface CampaignPreviewRow {
+  contact_id: number;
+  contact_email: string;
+  contact_first_name: string | null;
+  step_number: number | null;
+  inbox_id: number | null;
+  inbox_email: string | null;
+  send_at: string | null;
+  subject: string | null;
+  body: string | null;
+  missing_fields: string[];
+  skip_reason: string | null;
 }
 
 export interface Contact {
@@ -21,6 +56,9 @@ export interface Contact {
   city: string;
   painPointSignal: string;
   email: string;
+  timezone?: string;
+  bouncedAt?: string;
+  unsubscribedAt?: string;
 }
 
 export interface Domain {
@@ -30,6 +68,17 @@ export interface Domain {
   spf: boolean;
   dkim: boolean;
   dmarc: boolean;
+  // The latest DNS lookup of each record, from `verify-domain`
+  dnsChecks?: DomainDnsCheck[];
+}
+
+export interface DomainDnsCheck {
+  recordType: 'spf' | 'dkim' | 'dmarc';
+  host: string;
+  passed: boolean;
+  observedValue?: string;
+  error?: string;
+  checkedAt?: string;
 }
 
 export interface Inbox {
@@ -39,6 +88,43 @@ export interface Inbox {
   domain: string;
   status: 'warming' | 'active' | 'error';
   dailyLimit: number;
+  isConnected?: boolean;
+  provider?: InboxProvider;
+  warmup?: InboxWarmupSchedule;
+  // Why the last reply sync failed, e.g. the inbox needs reconnecting for read access
+  replySyncError?: string;
+  // Why the inbox is in `error`, e.g. its access was revoked
+  statusReason?: string;
+  // Queued emails held until the inbox is reconnected or they are re-routed
+  heldEmails?: number;
+}
+
+export type InboxProvider = 'google' | 'microsoft' | 'smtp' | 'sink';
+
+export type SmtpSecurity = 'tls' | 'starttls' | 'none';
+
+export interface InboxWarmupSchedule {
+  startVolume: number;
+  dailyIncrement: number;
+  targetVolume: number;
+  startedOn: string; // 'YYYY-MM-DD'
+  completedAt?: string;
+}
+
+export interface InboxListItem {
+  id: number;
+  email: string;
+  status: Inbox['status'];
+}
+
+export type InboxRotationStrategy = 'round_robin' | 'weighted';
+
+export interface CampaignSchedule {
+  timezone: string;
+  useRecipientTimezone: boolean;
+  sendDays: number[]; // ISO weekdays, 1 = Monday ... 7 = Sunday
+  sendWindowStart: string; // 'HH:MM'
+  sendWindowEnd: string;
 }
 
 export interface EmailStep {
@@ -84,4 +170,36 @@ export interface Reply {
     subject: string;
     body: string;
     intent?: IntentType;
-}
\ No newline at end of file
+    campaignName?: string;
+}
+
+export interface SendAttempt {
+  attemptNumber: number;
+  outcome: 'sent' | 'retry' | 'failed' | 'dead_letter';
+  statusCode?: number;
+  errorMessage?: string;
+  attemptedAt: string;
+}
+
+export interface FailedSend {
+  id: number;
+  status: 'failed' | 'dead_letter';
+  subject: string;
+  contactEmail: string;
+  campaignName: string;
+  attemptCount: number;
+  maxAttempts: number;
+  errorMessage?: string;
+  updatedAt: string;
+  attempts: SendAttempt[];
+}
+
+export type SuppressionEntryType = 'email' | 'domain' | 'pattern';
+
+export interface SuppressionEntry {
+  id: number;
+  entryType: SuppressionEntryType;
+  value: string;
+  reason: string;
+  createdAt: string;
+}